@@ -1,4 +1,6 @@
-import { useState } from 'react'
+import { useMemo, useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import { saveAs } from 'file-saver'
 import { AudioUploader } from './components/AudioUploader'
 import { VideoStyleSelector } from './components/VideoStyleSelector'
 import { VisualContentLibrary } from './components/VisualContentLibrary'
@@ -9,12 +11,49 @@ import { Header } from './components/Header'
 import { Card } from './components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs'
 import { Music, Presentation, Images } from 'lucide-react'
+import { PREVIEW_RENDER, RenderProgress, RenderedVideo, renderSoundtrack, renderVideo } from './lib/video-renderer'
+import { CaptionExport, ExportFormat, ExportQuality } from './lib/export-formats'
+import { SUBTITLE_FORMATS, formatSubtitles } from './lib/subtitles'
+import {
+  addAsset,
+  addDeck,
+  addScene3D,
+  addSlide,
+  addVisualizer,
+  combineCommands,
+  createAudiogram,
+  selectStyle,
+  setAudioFile,
+  updateAudioMix,
+  updateAudioTrim,
+  updateCaptions,
+  updateTimeline
+} from './lib/project-commands'
+import { useDecodedAudio } from './hooks/use-decoded-audio'
+import { useBeatAnalysis } from './hooks/use-beat-analysis'
+import { useProjectHistory } from './hooks/use-project-history'
+import { HistoryPanel } from './components/HistoryPanel'
+import { RecentProjectsDialog } from './components/RecentProjectsDialog'
+import { ProjectSettings, createProjectId, loadProject } from './lib/project-store'
+import { PROJECT_FILE_EXTENSION, exportProjectFile, importProjectFile } from './lib/project-file'
+import { useAutosave } from './hooks/use-autosave'
+import { Transition } from './lib/transitions'
+import { Motion } from './lib/motion'
+import { DEFAULT_VISUALIZER, VisualizerSettings } from './lib/visualizer'
+import { DEFAULT_SCENE3D, Scene3DSettings } from './lib/scene3d'
+import { CaptionTrack, EMPTY_CAPTIONS, clipCaptions } from './lib/captions'
+import { AudioTrim, getAudioRegion } from './lib/audio-trim'
+import { AudioMix, DEFAULT_AUDIO_MIX } from './lib/audio-mix'
+import { LoudnessReport, MasteringSettings } from './lib/mastering'
+import { DEFAULT_SLIDE, Slide } from './lib/slides'
+import { AudioMetadata } from './lib/audio-tags'
 
 export interface AudioFile {
   file: File
   url: string
   duration: number
   name: string
+  metadata: AudioMetadata
 }
 
 export interface VideoStyle {
@@ -27,7 +66,7 @@ export interface VideoStyle {
 
 export interface VisualAsset {
   id: string
-  type: 'image' | 'video' | 'clipart'
+  type: 'image' | 'video' | 'clipart' | 'visualizer' | 'scene3d' | 'slide'
   url: string
   thumbnail: string
   name: string
@@ -40,6 +79,23 @@ export interface TimelineItem {
   startTime: number
   duration: number
   position: number
+  track: number
+  transition?: Transition
+  motion?: Motion
+  visualizer?: VisualizerSettings
+  scene3d?: Scene3DSettings
+  // Slides keep their background image, if they have one, as the item's asset
+  slide?: Slide
+}
+
+export interface ProjectState {
+  audioFile: AudioFile | null
+  audioTrim: AudioTrim | null
+  // Volume, panning and extra tracks laid over the main audio
+  audioMix: AudioMix
+  selectedStyle: VideoStyle | null
+  timelineItems: TimelineItem[]
+  captions: CaptionTrack
 }
 
 const videoStyles: VideoStyle[] = [
@@ -66,34 +122,253 @@ const videoStyles: VideoStyle[] = [
   }
 ]
 
+const DEFAULT_PROJECT_NAME = 'Untitled project'
+// Stable empty list so the preview doesn't redraw while beats are still being analysed
+const NO_BEATS: number[] = []
+
+const emptyProject: ProjectState = {
+  audioFile: null,
+  audioTrim: null,
+  audioMix: DEFAULT_AUDIO_MIX,
+  selectedStyle: null,
+  timelineItems: [],
+  captions: EMPTY_CAPTIONS
+}
+
 function App() {
-  const [audioFile, setAudioFile] = useState<AudioFile | null>(null)
-  const [selectedStyle, setSelectedStyle] = useState<VideoStyle | null>(null)
-  const [timelineItems, setTimelineItems] = useState<TimelineItem[]>([])
+  const history = useProjectHistory(emptyProject)
+  const { audioFile, audioTrim, audioMix, selectedStyle, timelineItems, captions } = history.project
+  const audioRegion = audioFile && getAudioRegion(audioTrim, audioFile.duration)
   const [isGenerating, setIsGenerating] = useState(false)
   const [currentStep, setCurrentStep] = useState<'upload' | 'style' | 'customize' | 'preview'>('upload')
+  const [frameRate, setFrameRate] = useState(30)
+  const [renderProgress, setRenderProgress] = useState(0)
+  const [renderedVideo, setRenderedVideo] = useState<RenderedVideo | null>(null)
+  const renderAbortRef = useRef<AbortController | null>(null)
+  const { buffer: audioBuffer } = useDecodedAudio(audioFile)
+  const { analysis: beatAnalysis, isAnalyzing: isAnalyzingBeats } = useBeatAnalysis(audioBuffer)
+  const [projectId, setProjectId] = useState(createProjectId)
+  const [projectName, setProjectName] = useState(DEFAULT_PROJECT_NAME)
+  const [isProjectsOpen, setIsProjectsOpen] = useState(false)
+  const projectSettings = useMemo(() => ({ frameRate }), [frameRate])
+  const autosave = useAutosave(projectId, projectName, history.project, projectSettings)
 
   const handleAudioUpload = (audio: AudioFile) => {
-    setAudioFile(audio)
+    history.execute(setAudioFile(audio))
+    if (projectName === DEFAULT_PROJECT_NAME) {
+      setProjectName(audio.name.replace(/\.[^.]+$/, ''))
+    }
     setCurrentStep('style')
   }
 
   const handleStyleSelect = (style: VideoStyle) => {
-    setSelectedStyle(style)
+    const command = selectStyle(style)
+    // Music videos start from an audiogram of the track so there is something to preview straight away
+    if (style.type === 'music' && audioFile && timelineItems.length === 0) {
+      const audiogram = createAudiogram(audioFile, getAudioRegion(audioTrim, audioFile.duration))
+      history.execute(combineCommands(command.label, [command, audiogram]))
+    } else {
+      history.execute(command)
+    }
     setCurrentStep('customize')
   }
 
   const handleGenerateVideo = async () => {
+    if (!audioFile) return
+
+    const controller = new AbortController()
+    renderAbortRef.current = controller
     setIsGenerating(true)
-    // Simulate video generation
-    await new Promise(resolve => setTimeout(resolve, 3000))
-    setIsGenerating(false)
-    setCurrentStep('preview')
+    setRenderProgress(0)
+
+    try {
+      const video = await renderVideo(
+        { audioFile, audioTrim, audioMix, timelineItems, captions },
+        {
+          ...PREVIEW_RENDER,
+          fps: frameRate,
+          signal: controller.signal,
+          onProgress: ({ frame, totalFrames }) => {
+            setRenderProgress(Math.round((frame / totalFrames) * 100))
+          }
+        }
+      )
+      setRenderedVideo(prev => {
+        if (prev) URL.revokeObjectURL(prev.url)
+        return video
+      })
+      setCurrentStep('preview')
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return
+      console.error('Error rendering video:', error)
+      toast.error(error instanceof Error ? error.message : 'Video rendering failed')
+    } finally {
+      renderAbortRef.current = null
+      setIsGenerating(false)
+    }
+  }
+
+  const clearRenderedVideo = () => {
+    setRenderedVideo(prev => {
+      if (prev) URL.revokeObjectURL(prev.url)
+      return null
+    })
+  }
+
+  const handleNewProject = () => {
+    history.reset(emptyProject)
+    setProjectId(createProjectId())
+    setProjectName(DEFAULT_PROJECT_NAME)
+    clearRenderedVideo()
+    setCurrentStep('upload')
+    setIsProjectsOpen(false)
+  }
+
+  const applyProject = (
+    id: string,
+    name: string,
+    project: {
+      audioFile: AudioFile | null
+      audioTrim: AudioTrim | null
+      audioMix: AudioMix
+      styleId: string | null
+      timelineItems: TimelineItem[]
+      captions: CaptionTrack
+      settings: ProjectSettings
+    },
+    label: string
+  ) => {
+    const style = videoStyles.find(s => s.id === project.styleId) ?? null
+
+    history.reset({
+      audioFile: project.audioFile,
+      audioTrim: project.audioTrim,
+      audioMix: project.audioMix,
+      selectedStyle: style,
+      timelineItems: project.timelineItems,
+      captions: project.captions
+    }, label)
+    setProjectId(id)
+    setProjectName(name)
+    setFrameRate(project.settings.frameRate)
+    clearRenderedVideo()
+    setCurrentStep(!project.audioFile ? 'upload' : !style ? 'style' : 'customize')
+    setIsProjectsOpen(false)
+  }
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      const loaded = await loadProject(id)
+      applyProject(id, loaded.summary.name, loaded, `Opened ${loaded.summary.name}`)
+    } catch (error) {
+      console.error('Error opening project:', error)
+      toast.error(error instanceof Error ? error.message : 'Could not open the project')
+    }
+  }
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const imported = await importProjectFile(file)
+      // Imports always start a new saved project rather than overwriting one
+      applyProject(createProjectId(), imported.name, imported, `Imported ${imported.name}`)
+      toast.success(`Imported ${imported.name}`)
+    } catch (error) {
+      console.error('Error importing project:', error)
+      toast.error(error instanceof Error ? error.message : 'Could not import the project file')
+    }
+  }
+
+  const handleExportProject = async () => {
+    try {
+      const blob = await exportProjectFile(projectName, history.project, projectSettings)
+      saveAs(blob, `${projectName}.${PROJECT_FILE_EXTENSION}`)
+    } catch (error) {
+      console.error('Error exporting project:', error)
+      toast.error(error instanceof Error ? error.message : 'Could not export the project file')
+    }
+  }
+
+  const handleCancelGenerate = () => {
+    renderAbortRef.current?.abort()
+  }
+
+  const handleExport = async (
+    format: ExportFormat,
+    quality: ExportQuality,
+    captionExport: CaptionExport,
+    mastering: MasteringSettings,
+    options: { onProgress: (progress: RenderProgress) => void, signal: AbortSignal }
+  ): Promise<LoudnessReport | null> => {
+    if (!audioFile || !format.container) return null
+
+    try {
+      const video = await renderVideo(
+        { audioFile, audioTrim, audioMix, timelineItems, captions: captionExport.burnIn ? captions : { ...captions, lines: [] } },
+        {
+          container: format.container,
+          width: quality.width,
+          height: quality.height,
+          videoBitrate: quality.videoBitrate,
+          fps: frameRate,
+          mastering,
+          ...options
+        }
+      )
+      const baseName = audioFile.name.replace(/\.[^.]+$/, '')
+      saveAs(video.blob, `${baseName}-${quality.value}.${format.extension}`)
+      URL.revokeObjectURL(video.url)
+
+      // Players pick up subtitles saved under the same name as the video, timed from the video's start
+      const sidecar = SUBTITLE_FORMATS.find(f => f.value === captionExport.sidecar)
+      const region = getAudioRegion(audioTrim, audioFile.duration)
+      const sidecarLines = clipCaptions(captions.lines, region.start, region.end)
+      if (sidecar && sidecarLines.length > 0) {
+        const subtitles = new Blob([formatSubtitles(sidecarLines, sidecar.value)], { type: `${sidecar.mimeType};charset=utf-8` })
+        saveAs(subtitles, `${baseName}-${quality.value}.${sidecar.extension}`)
+      }
+      toast.success('Video exported')
+      return video.loudness
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return null
+      console.error('Error exporting video:', error)
+      toast.error(error instanceof Error ? error.message : 'Video export failed')
+      return null
+    }
+  }
+
+  const handleMeasureLoudness = async (mastering: MasteringSettings) => {
+    if (!audioFile) return null
+
+    try {
+      const soundtrack = await renderSoundtrack({ audioFile, audioTrim, audioMix }, mastering)
+      return soundtrack.loudness
+    } catch (error) {
+      console.error('Error measuring loudness:', error)
+      toast.error(error instanceof Error ? error.message : 'Could not measure the loudness')
+      return null
+    }
   }
 
   return (
     <div className="min-h-screen bg-background">
-      <Header />
+      <Header onOpenProjects={() => setIsProjectsOpen(true)} />
+      <RecentProjectsDialog
+        open={isProjectsOpen}
+        onOpenChange={setIsProjectsOpen}
+        currentProjectId={projectId}
+        onOpenProject={handleOpenProject}
+        onNewProject={handleNewProject}
+        onImportProject={handleImportProject}
+        onExportProject={handleExportProject}
+        canExport={!!audioFile || timelineItems.length > 0 || captions.lines.length > 0}
+        onProjectRenamed={(id, name) => {
+          if (id === projectId) setProjectName(name)
+        }}
+        onProjectDeleted={(id) => {
+          // Keep working on the open project, but under a new id so autosave doesn't resurrect the deleted one
+          if (id === projectId) setProjectId(createProjectId())
+        }}
+      />
       
       <main className="container mx-auto px-4 py-8 max-w-7xl">
         <div className="mb-8">
@@ -113,12 +388,12 @@ function App() {
                 <TabsTrigger value="upload" disabled={false}>Upload</TabsTrigger>
                 <TabsTrigger value="style" disabled={!audioFile}>Style</TabsTrigger>
                 <TabsTrigger value="customize" disabled={!selectedStyle}>Customize</TabsTrigger>
-                <TabsTrigger value="preview" disabled={timelineItems.length === 0}>Preview</TabsTrigger>
+                <TabsTrigger value="preview" disabled={timelineItems.length === 0 && captions.lines.length === 0}>Preview</TabsTrigger>
               </TabsList>
 
               <TabsContent value="upload" className="mt-6">
                 <Card className="p-6">
-                  <AudioUploader onAudioUpload={handleAudioUpload} />
+                  <AudioUploader key={projectId} audioFile={audioFile} onAudioUpload={handleAudioUpload} />
                 </Card>
               </TabsContent>
 
@@ -136,16 +411,7 @@ function App() {
                 <div className="space-y-6">
                   <Card className="p-6">
                     <VisualContentLibrary 
-                      onAssetSelect={(asset) => {
-                        const newItem: TimelineItem = {
-                          id: Date.now().toString(),
-                          asset,
-                          startTime: 0,
-                          duration: asset.duration || 3,
-                          position: timelineItems.length
-                        }
-                        setTimelineItems([...timelineItems, newItem])
-                      }}
+                      onAssetSelect={(asset, transition) => history.execute(addAsset(asset, transition))}
                     />
                   </Card>
                   
@@ -153,10 +419,27 @@ function App() {
                     <Card className="p-6">
                       <TimelineEditor 
                         audioFile={audioFile}
+                        audioTrim={audioTrim}
+                        onAudioTrimChange={(trim, label) => history.execute(updateAudioTrim(trim, label))}
+                        audioMix={audioMix}
+                        onAudioMixChange={(mix, label) => history.execute(updateAudioMix(mix, label))}
                         timelineItems={timelineItems}
-                        onTimelineUpdate={setTimelineItems}
+                        beatAnalysis={beatAnalysis}
+                        isAnalyzingBeats={isAnalyzingBeats}
+                        onTimelineUpdate={(items, label) => history.execute(updateTimeline(items, label))}
+                        onAddVisualizer={() => history.execute(addVisualizer(DEFAULT_VISUALIZER, audioFile.duration))}
+                        onAddScene3D={() => history.execute(addScene3D(DEFAULT_SCENE3D, audioFile.duration))}
+                        onAddSlide={() => history.execute(addSlide(DEFAULT_SLIDE))}
+                        onCreateAudiogram={() => history.execute(createAudiogram(audioFile, getAudioRegion(audioTrim, audioFile.duration)))}
+                        onImportDeck={(name, pages, startTimes) => history.execute(addDeck(name, pages, startTimes, getAudioRegion(audioTrim, audioFile.duration).end))}
+                        captions={captions}
+                        onCaptionsUpdate={(updated, label) => history.execute(updateCaptions(updated, label))}
                         onGenerateVideo={handleGenerateVideo}
+                        onCancelGenerate={handleCancelGenerate}
                         isGenerating={isGenerating}
+                        renderProgress={renderProgress}
+                        frameRate={frameRate}
+                        onFrameRateChange={setFrameRate}
                       />
                     </Card>
                   )}
@@ -168,16 +451,25 @@ function App() {
                   <Card className="p-6">
                     <VideoPreview 
                       audioFile={audioFile}
+                      audioTrim={audioTrim}
+                      audioMix={audioMix}
+                      audioBuffer={audioBuffer}
+                      beats={beatAnalysis?.beats ?? NO_BEATS}
                       timelineItems={timelineItems}
+                      captions={captions}
                       selectedStyle={selectedStyle}
+                      renderedVideo={renderedVideo}
                     />
                   </Card>
                   
                   <Card className="p-6">
                     <ExportControls 
-                      onExport={(format, quality) => {
-                        console.log('Exporting video:', format, quality)
-                      }}
+                      renderedVideo={renderedVideo}
+                      duration={audioRegion?.duration ?? 0}
+                      frameRate={frameRate}
+                      hasCaptions={captions.lines.length > 0}
+                      onExport={handleExport}
+                      onMeasureLoudness={handleMeasureLoudness}
                     />
                   </Card>
                 </div>
@@ -188,7 +480,28 @@ function App() {
           {/* Right Panel - Info & Progress */}
           <div className="space-y-6">
             <Card className="p-6">
-              <h3 className="text-lg font-semibold mb-4">Project Status</h3>
+              <HistoryPanel
+                entries={history.entries}
+                index={history.index}
+                canUndo={history.canUndo}
+                canRedo={history.canRedo}
+                onUndo={history.undo}
+                onRedo={history.redo}
+                onJumpTo={history.jumpTo}
+              />
+            </Card>
+
+            <Card className="p-6">
+              <h3 className="text-lg font-semibold mb-1">Project Status</h3>
+              <p className="text-sm text-muted-foreground mb-4 truncate">
+                {projectName} • {autosave.error
+                  ? 'Not saved'
+                  : autosave.isSaving
+                    ? 'Saving...'
+                    : autosave.lastSavedAt
+                      ? `Saved ${new Date(autosave.lastSavedAt).toLocaleTimeString()}`
+                      : 'Not saved yet'}
+              </p>
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Audio File</span>
@@ -219,12 +532,44 @@ function App() {
                     <span className="text-sm text-muted-foreground">File Name</span>
                     <span className="text-sm font-medium">{audioFile.name}</span>
                   </div>
+                  {audioFile.metadata.title && (
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Title</span>
+                      <span className="text-sm font-medium">{audioFile.metadata.title}</span>
+                    </div>
+                  )}
+                  {audioFile.metadata.artist && (
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Artist</span>
+                      <span className="text-sm font-medium">{audioFile.metadata.artist}</span>
+                    </div>
+                  )}
+                  {audioFile.metadata.album && (
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Album</span>
+                      <span className="text-sm font-medium">{audioFile.metadata.album}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-sm text-muted-foreground">Duration</span>
                     <span className="text-sm font-medium">
                       {Math.floor(audioFile.duration / 60)}:{(audioFile.duration % 60).toFixed(0).padStart(2, '0')}
                     </span>
                   </div>
+                  {audioTrim && audioRegion && (
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Trimmed To</span>
+                      <span className="text-sm font-medium">
+                        {Math.floor(audioRegion.duration / 60)}:{(audioRegion.duration % 60).toFixed(0).padStart(2, '0')}
+                      </span>
+                    </div>
+                  )}
+                  {beatAnalysis && beatAnalysis.bpm > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Tempo</span>
+                      <span className="text-sm font-medium">{Math.round(beatAnalysis.bpm)} BPM</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-sm text-muted-foreground">Size</span>
                     <span className="text-sm font-medium">
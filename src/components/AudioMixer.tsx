@@ -0,0 +1,272 @@
+import { useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import { AudioFile } from '../App'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Slider } from './ui/slider'
+import { Switch } from './ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Crosshair, Headphones, Plus, Trash2, VolumeX } from 'lucide-react'
+import { AudioImportError, importAudioFile } from '../lib/audio-import'
+import { MAX_FADE_DURATION } from '../lib/audio-trim'
+import {
+  AUDIO_TRACK_ROLES,
+  AudioMix,
+  AudioTrack,
+  AudioTrackRole,
+  DuckingSettings,
+  MAX_DUCKING_AMOUNT,
+  MAX_DUCKING_RELEASE,
+  MAX_TRACK_VOLUME,
+  TrackMix,
+  createAudioTrack,
+  isTrackAudible
+} from '../lib/audio-mix'
+import { useSliderDraft } from '../hooks/use-slider-draft'
+
+interface AudioMixerProps {
+  audioFile: AudioFile
+  mix: AudioMix
+  getCurrentTime: () => number
+  onChange: (mix: AudioMix, label: string) => void
+}
+
+// Added files shorter than this are taken for sound effects and dropped at the playhead
+const EFFECT_MAX_DURATION = 10
+const MAIN_ID = 'main'
+
+function formatPan(pan: number) {
+  if (pan === 0) return 'Center'
+  return `${Math.round(Math.abs(pan) * 100)}% ${pan < 0 ? 'L' : 'R'}`
+}
+
+export function AudioMixer({ audioFile, mix, getCurrentTime, onChange }: AudioMixerProps) {
+  const { getValue, sliderProps } = useSliderDraft()
+  const [draftStart, setDraftStart] = useState<{ id: string, value: string } | null>(null)
+  const [isAdding, setIsAdding] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const updateTrack = (id: string, patch: Partial<AudioTrack>, label: string) => {
+    if (id === MAIN_ID) {
+      onChange({ ...mix, main: { ...mix.main, ...patch } }, label)
+    } else {
+      onChange({ ...mix, tracks: mix.tracks.map(track => track.id === id ? { ...track, ...patch } : track) }, label)
+    }
+  }
+
+  const updateDucking = (patch: Partial<DuckingSettings>, label: string) => {
+    onChange({ ...mix, ducking: { ...mix.ducking, ...patch } }, label)
+  }
+
+  const addTrack = async (file: File) => {
+    setIsAdding(true)
+    try {
+      const added = await importAudioFile(file)
+      const role: AudioTrackRole = added.duration <= EFFECT_MAX_DURATION ? 'effects' : 'voice'
+      const startTime = role === 'effects' ? Math.min(getCurrentTime(), audioFile.duration) : 0
+      const track = createAudioTrack(added, role, startTime)
+      onChange({ ...mix, tracks: [...mix.tracks, track] }, `Add ${track.name}`)
+    } catch (error) {
+      console.error('Error adding audio track:', error)
+      toast.error(error instanceof AudioImportError ? error.message : `"${file.name}" could not be read as audio`)
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const commitStart = (track: AudioTrack) => {
+    const startTime = Number(draftStart?.value)
+    setDraftStart(null)
+    if (!draftStart || !Number.isFinite(startTime) || startTime < 0 || startTime === track.startTime) return
+    updateTrack(track.id, { startTime }, `Move ${track.name} to ${startTime}s`)
+  }
+
+  const renderSlider = (
+    id: string,
+    name: string,
+    key: 'volume' | 'pan' | 'fadeIn' | 'fadeOut',
+    value: number,
+    range: { min: number, max: number, step: number },
+    format: (value: number) => string,
+    label: string
+  ) => {
+    const draftKey = `${id}:${key}`
+    return (
+      <div className="space-y-2">
+        <span className="text-xs text-muted-foreground">{label}: {format(getValue(draftKey, value))}</span>
+        <Slider
+          {...sliderProps(draftKey, value, (next) => {
+            updateTrack(id, { [key]: next }, `${name} ${label.toLowerCase()}: ${format(next)}`)
+          })}
+          min={range.min}
+          max={range.max}
+          step={range.step}
+        />
+      </div>
+    )
+  }
+
+  const renderStrip = (id: string, name: string, settings: TrackMix, track?: AudioTrack) => {
+    const audible = isTrackAudible(settings, mix)
+    const maxFade = track ? Math.min(MAX_FADE_DURATION, track.audioFile.duration / 2) : 0
+    return (
+      <div key={id} className={`rounded-lg border p-3 space-y-3 ${audible ? '' : 'opacity-60'}`}>
+        <div className="flex items-center gap-2">
+          <span className="flex-1 text-sm font-medium truncate" title={name}>{name}</span>
+          <Select
+            value={settings.role}
+            onValueChange={(value) => {
+              const role = AUDIO_TRACK_ROLES.find(r => r.value === value)
+              updateTrack(id, { role: value as AudioTrackRole }, `${name} role: ${role?.label ?? value}`)
+            }}
+          >
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AUDIO_TRACK_ROLES.map(role => (
+                <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant={settings.muted ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => updateTrack(id, { muted: !settings.muted }, `${settings.muted ? 'Unmute' : 'Mute'} ${name}`)}
+            title="Mute"
+          >
+            <VolumeX className="w-4 h-4" />
+          </Button>
+          <Button
+            variant={settings.solo ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => updateTrack(id, { solo: !settings.solo }, `${settings.solo ? 'Unsolo' : 'Solo'} ${name}`)}
+            title="Solo"
+          >
+            <Headphones className="w-4 h-4" />
+          </Button>
+          {track && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange({ ...mix, tracks: mix.tracks.filter(t => t.id !== id) }, `Remove ${name}`)}
+              title="Remove track"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {renderSlider(id, name, 'volume', settings.volume, { min: 0, max: MAX_TRACK_VOLUME, step: 0.01 }, v => `${Math.round(v * 100)}%`, 'Volume')}
+          {renderSlider(id, name, 'pan', settings.pan, { min: -1, max: 1, step: 0.05 }, formatPan, 'Pan')}
+        </div>
+
+        {track && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Starts at (s)</span>
+              <div className="flex items-center gap-1">
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={draftStart?.id === id ? draftStart.value : track.startTime.toFixed(2)}
+                  onChange={(e) => setDraftStart({ id, value: e.target.value })}
+                  onBlur={() => commitStart(track)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur()
+                  }}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    const startTime = Math.round(getCurrentTime() * 100) / 100
+                    updateTrack(id, { startTime }, `Move ${name} to ${startTime}s`)
+                  }}
+                  title="Start at the playhead"
+                >
+                  <Crosshair className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            {renderSlider(id, name, 'fadeIn', Math.min(track.fadeIn, maxFade), { min: 0, max: maxFade, step: 0.1 }, v => `${v.toFixed(1)}s`, 'Fade in')}
+            {renderSlider(id, name, 'fadeOut', Math.min(track.fadeOut, maxFade), { min: 0, max: maxFade, step: 0.1 }, v => `${v.toFixed(1)}s`, 'Fade out')}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  const duckingAmount = getValue('ducking:amount', mix.ducking.amount)
+  const duckingRelease = getValue('ducking:release', mix.ducking.release)
+  const hasVoice = [mix.main, ...mix.tracks].some(track => track.role === 'voice')
+
+  return (
+    <div className="space-y-4">
+      {renderStrip(MAIN_ID, audioFile.name, mix.main)}
+      {mix.tracks.map(track => renderStrip(track.id, track.name, track, track))}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isAdding}>
+          <Plus className="w-4 h-4 mr-2" />
+          {isAdding ? 'Adding...' : 'Add Audio Track'}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="audio/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) addTrack(file)
+            e.target.value = ''
+          }}
+        />
+        <span className="text-xs text-muted-foreground">
+          Add narration, a music bed or sound effects. Tracks are timed against the main audio.
+        </span>
+      </div>
+
+      <div className="rounded-lg border p-3 space-y-3">
+        <label className="flex items-center space-x-2">
+          <Switch
+            checked={mix.ducking.enabled}
+            onCheckedChange={(enabled) => updateDucking({ enabled }, enabled ? 'Ducking on' : 'Ducking off')}
+          />
+          <span className="text-sm">Lower music under voice</span>
+        </label>
+        {!hasVoice && (
+          <p className="text-xs text-muted-foreground">Set a track's role to Voice for the music to duck under it.</p>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <span className="text-xs text-muted-foreground">Duck by: {Math.round(duckingAmount)} dB</span>
+            <Slider
+              {...sliderProps('ducking:amount', mix.ducking.amount, (next) => {
+                updateDucking({ amount: next }, `Duck by ${Math.round(next)} dB`)
+              })}
+              min={0}
+              max={MAX_DUCKING_AMOUNT}
+              step={1}
+              disabled={!mix.ducking.enabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <span className="text-xs text-muted-foreground">Recovery: {duckingRelease.toFixed(1)}s</span>
+            <Slider
+              {...sliderProps('ducking:release', mix.ducking.release, (next) => {
+                updateDucking({ release: next }, `Ducking recovery: ${next.toFixed(1)}s`)
+              })}
+              min={0}
+              max={MAX_DUCKING_RELEASE}
+              step={0.1}
+              disabled={!mix.ducking.enabled}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { AlertCircle, Check, Mic, Pause, Play, RotateCcw, Square } from 'lucide-react'
+import { useAudioRecorder } from '../hooks/use-audio-recorder'
+import { COUNT_IN_OPTIONS } from '../lib/recording'
+
+interface AudioRecorderProps {
+  // The finished take, handed over to be checked and imported like an uploaded file
+  onRecorded: (file: File) => void
+}
+
+const DEFAULT_DEVICE = 'default'
+
+function formatElapsed(seconds: number) {
+  const whole = Math.floor(seconds)
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`
+}
+
+// Green for a healthy level, amber when it gets loud, red when it is about to clip
+function getMeterColor(level: number) {
+  if (level > 0.95) return 'bg-red-500'
+  if (level > 0.75) return 'bg-amber-500'
+  return 'bg-green-500'
+}
+
+export function AudioRecorder({ onRecorded }: AudioRecorderProps) {
+  const recorder = useAudioRecorder()
+  const { status, recording } = recorder
+  const [countIn, setCountIn] = useState(COUNT_IN_OPTIONS[1])
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!recording) {
+      setRecordingUrl(null)
+      return
+    }
+    const url = URL.createObjectURL(recording)
+    setRecordingUrl(url)
+    return () => URL.revokeObjectURL(url)
+  }, [recording])
+
+  const canChangeSettings = status === 'idle' || status === 'stopped'
+
+  return (
+    <div className="border-2 border-dashed rounded-lg p-6 space-y-5 border-muted-foreground/25">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <span className="text-xs text-muted-foreground">Microphone</span>
+          <Select
+            value={recorder.deviceId ?? DEFAULT_DEVICE}
+            onValueChange={(value) => recorder.setDeviceId(value === DEFAULT_DEVICE ? null : value)}
+            disabled={!canChangeSettings || recorder.devices.length === 0}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Waiting for microphone access..." />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_DEVICE}>System default</SelectItem>
+              {recorder.devices.filter(device => device.id && device.id !== DEFAULT_DEVICE).map(device => (
+                <SelectItem key={device.id} value={device.id}>{device.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <span className="text-xs text-muted-foreground">Count-in</span>
+          <Select
+            value={countIn.toString()}
+            onValueChange={(value) => setCountIn(Number(value))}
+            disabled={!canChangeSettings}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COUNT_IN_OPTIONS.map(seconds => (
+                <SelectItem key={seconds} value={seconds.toString()}>{seconds === 0 ? 'Off' : `${seconds} seconds`}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>Input level</span>
+          <span className="font-mono">{formatElapsed(recorder.elapsed)}</span>
+        </div>
+        <div className="h-3 w-full rounded-full bg-muted overflow-hidden">
+          <div
+            className={`h-full transition-[width] duration-75 ${getMeterColor(recorder.level)}`}
+            style={{ width: `${recorder.level * 100}%` }}
+          />
+        </div>
+      </div>
+
+      {status === 'counting' && (
+        <div className="text-center">
+          <p className="text-5xl font-bold tabular-nums">{recorder.countdown}</p>
+          <p className="text-sm text-muted-foreground">Recording starts after the count-in</p>
+        </div>
+      )}
+
+      {status === 'stopped' && recordingUrl && (
+        <audio controls className="w-full" src={recordingUrl} />
+      )}
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        {status === 'idle' && (
+          <Button onClick={() => recorder.start(countIn)} disabled={!recorder.isReady}>
+            <Mic className="w-4 h-4 mr-2" />
+            Record
+          </Button>
+        )}
+        {status === 'counting' && (
+          <Button variant="outline" onClick={recorder.stop}>
+            Cancel
+          </Button>
+        )}
+        {status === 'recording' && (
+          <Button variant="outline" onClick={recorder.pause}>
+            <Pause className="w-4 h-4 mr-2" />
+            Pause
+          </Button>
+        )}
+        {status === 'paused' && (
+          <Button variant="outline" onClick={recorder.resume}>
+            <Play className="w-4 h-4 mr-2" />
+            Resume
+          </Button>
+        )}
+        {(status === 'recording' || status === 'paused') && (
+          <Button variant="destructive" onClick={recorder.stop}>
+            <Square className="w-4 h-4 mr-2" />
+            Stop
+          </Button>
+        )}
+        {status === 'stopped' && (
+          <>
+            <Button variant="outline" onClick={recorder.discard}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Retake
+            </Button>
+            <Button onClick={() => recording && onRecorded(recording)} disabled={!recording}>
+              <Check className="w-4 h-4 mr-2" />
+              Use Recording
+            </Button>
+          </>
+        )}
+      </div>
+
+      {recorder.error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-2">
+          <AlertCircle className="w-4 h-4 text-red-600 mt-0.5 flex-shrink-0" />
+          <p className="text-sm text-red-800">{recorder.error}</p>
+        </div>
+      )}
+    </div>
+  )
+}
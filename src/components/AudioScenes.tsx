@@ -0,0 +1,141 @@
+import { useLayoutEffect, useMemo, useRef } from 'react'
+import * as THREE from 'three'
+import { MeshDistortMaterial, Sphere } from '@react-three/drei'
+import { AudioFeatures, SCENE_BAND_COUNT, Scene3DSettings, TERRAIN_ROWS } from '../lib/scene3d'
+
+interface SceneProps {
+  settings: Scene3DSettings
+  features: AudioFeatures
+}
+
+const BACKGROUND = '#020617'
+const TUNNEL_RINGS = 28
+const TUNNEL_SPACING = 1.2
+const TUNNEL_SPEED = 4
+const PARTICLE_COUNT = 1500
+
+// Fixed pseudo-random values, so the same frame renders identically in preview and export
+function hash(n: number) {
+  const x = Math.sin(n * 127.1 + 311.7) * 43758.5453
+  return x - Math.floor(x)
+}
+
+function SpectrumTerrain({ settings, features }: SceneProps) {
+  const geometryRef = useRef<THREE.PlaneGeometry>(null)
+
+  useLayoutEffect(() => {
+    const geometry = geometryRef.current
+    if (!geometry) return
+
+    // Plane vertices run row by row from the far edge; the newest spectrum sits at the near edge
+    const position = geometry.attributes.position
+    for (let row = 0; row < TERRAIN_ROWS; row++) {
+      const spectrum = features.history[TERRAIN_ROWS - 1 - row]
+      for (let band = 0; band < SCENE_BAND_COUNT; band++) {
+        position.setZ(row * SCENE_BAND_COUNT + band, (spectrum?.[band] ?? 0) * 1.6 * settings.intensity)
+      }
+    }
+    position.needsUpdate = true
+    geometry.computeVertexNormals()
+  }, [features, settings.intensity])
+
+  return (
+    <mesh rotation={[-Math.PI / 2.6, 0, 0]} position={[0, -1.6, 0]}>
+      <planeGeometry ref={geometryRef} args={[10, 10, SCENE_BAND_COUNT - 1, TERRAIN_ROWS - 1]} />
+      <meshBasicMaterial color={settings.color} wireframe />
+    </mesh>
+  )
+}
+
+function PulsingSphere({ settings, features }: SceneProps) {
+  return (
+    <>
+      <ambientLight intensity={0.4} />
+      <pointLight position={[4, 4, 6]} intensity={60} />
+      <pointLight position={[-5, -3, 2]} intensity={20} color={settings.color} />
+      <Sphere
+        args={[1.5, 96, 96]}
+        scale={1 + features.beatPulse * 0.2 * settings.intensity}
+        rotation={[0, features.time * 0.3, 0]}
+      >
+        <MeshDistortMaterial
+          color={settings.color}
+          distort={Math.min(1, 0.15 + features.amplitude * 0.6 * settings.intensity)}
+          speed={2}
+          roughness={0.3}
+        />
+      </Sphere>
+    </>
+  )
+}
+
+function Tunnel({ settings, features }: SceneProps) {
+  const length = TUNNEL_RINGS * TUNNEL_SPACING
+
+  return (
+    <>
+      <fog attach="fog" args={[BACKGROUND, 2, length]} />
+      {Array.from({ length: TUNNEL_RINGS }, (_, i) => {
+        // Rings travel towards the camera and wrap round to the far end
+        const z = ((i * TUNNEL_SPACING + features.time * TUNNEL_SPEED) % length) - length + 4
+        const level = features.bands[(i * 3) % SCENE_BAND_COUNT]
+        return (
+          <mesh
+            key={i}
+            position={[0, 0, z]}
+            rotation={[0, 0, i * 0.25 + features.time * 0.2]}
+            scale={1 + (level * 0.4 + features.beatPulse * 0.15) * settings.intensity}
+          >
+            <torusGeometry args={[2.2, 0.04, 8, 6]} />
+            <meshBasicMaterial color={settings.color} />
+          </mesh>
+        )
+      })}
+    </>
+  )
+}
+
+function ParticleField({ settings, features }: SceneProps) {
+  const positions = useMemo(() => {
+    const points = new Float32Array(PARTICLE_COUNT * 3)
+    for (let i = 0; i < PARTICLE_COUNT; i++) {
+      const theta = hash(i) * Math.PI * 2
+      const phi = Math.acos(2 * hash(i + PARTICLE_COUNT) - 1)
+      const radius = 2 + hash(i + PARTICLE_COUNT * 2) * 4
+      points[i * 3] = radius * Math.sin(phi) * Math.cos(theta)
+      points[i * 3 + 1] = radius * Math.sin(phi) * Math.sin(theta)
+      points[i * 3 + 2] = radius * Math.cos(phi)
+    }
+    return points
+  }, [])
+
+  return (
+    <points
+      rotation={[features.time * 0.03, features.time * 0.08 + features.beatIndex * 0.02, 0]}
+      scale={1 + features.beatPulse * 0.12 * settings.intensity}
+    >
+      <bufferGeometry>
+        <bufferAttribute attach="attributes-position" args={[positions, 3]} />
+      </bufferGeometry>
+      <pointsMaterial
+        color={settings.color}
+        size={0.04 + features.amplitude * 0.08 * settings.intensity}
+        sizeAttenuation
+        transparent
+        opacity={0.9}
+      />
+    </points>
+  )
+}
+
+export function AudioScene({ settings, features }: SceneProps) {
+  return (
+    <>
+      <color attach="background" args={[BACKGROUND]} />
+      {settings.kind === 'terrain' && <SpectrumTerrain settings={settings} features={features} />}
+      {settings.kind === 'sphere' && <PulsingSphere settings={settings} features={features} />}
+      {settings.kind === 'tunnel' && <Tunnel settings={settings} features={features} />}
+      {settings.kind === 'particles' && <ParticleField settings={settings} features={features} />}
+    </>
+  )
+}
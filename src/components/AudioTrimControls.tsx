@@ -0,0 +1,114 @@
+import { Button } from './ui/button'
+import { Slider } from './ui/slider'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { ArrowLeftToLine, ArrowRightToLine, Scissors } from 'lucide-react'
+import { AudioTrim, FADE_CURVES, FadeCurve, MAX_FADE_DURATION, createTrim, getAudioRegion, setFades } from '../lib/audio-trim'
+import { useSliderDraft } from '../hooks/use-slider-draft'
+
+interface AudioTrimControlsProps {
+  trim: AudioTrim | null
+  audioDuration: number
+  getCurrentTime: () => number
+  onChange: (trim: AudioTrim | null, label: string) => void
+}
+
+type FadeSetting = 'fadeIn' | 'fadeOut'
+
+const FADES: { key: FadeSetting, label: string }[] = [
+  { key: 'fadeIn', label: 'Fade in' },
+  { key: 'fadeOut', label: 'Fade out' }
+]
+
+function formatSeconds(seconds: number) {
+  const mins = Math.floor(seconds / 60)
+  return `${mins}:${(seconds - mins * 60).toFixed(1).padStart(4, '0')}`
+}
+
+export function AudioTrimControls({ trim, audioDuration, getCurrentTime, onChange }: AudioTrimControlsProps) {
+  const { getValue, sliderProps } = useSliderDraft<FadeSetting>()
+  const region = getAudioRegion(trim, audioDuration)
+  const maxFade = Math.min(MAX_FADE_DURATION, region.duration / 2)
+  // Fades only exist on a trim, so fading the whole song first selects all of it
+  const current = trim ?? createTrim(0, audioDuration, audioDuration, null)
+
+  const setIn = () => {
+    const time = getCurrentTime()
+    if (time >= region.end) return
+    onChange(createTrim(time, region.end, audioDuration, trim), `Set in point: ${formatSeconds(time)}`)
+  }
+
+  const setOut = () => {
+    const time = getCurrentTime()
+    if (time <= region.start) return
+    onChange(createTrim(region.start, time, audioDuration, trim), `Set out point: ${formatSeconds(time)}`)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={setIn}>
+          <ArrowLeftToLine className="w-4 h-4 mr-2" />
+          Set In
+        </Button>
+        <Button variant="outline" size="sm" onClick={setOut}>
+          <ArrowRightToLine className="w-4 h-4 mr-2" />
+          Set Out
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => onChange(null, 'Clear audio trim')} disabled={!trim}>
+          <Scissors className="w-4 h-4 mr-2" />
+          Clear Trim
+        </Button>
+        <span className="text-sm text-muted-foreground ml-auto font-mono">
+          {formatSeconds(region.start)} – {formatSeconds(region.end)} ({formatSeconds(region.duration)})
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {FADES.map(({ key, label }) => {
+          const value = Math.min(current[key], maxFade)
+          return (
+            <div key={key} className="space-y-2">
+              <span className="text-xs text-muted-foreground">
+                {label}: {getValue(key, value).toFixed(1)}s
+              </span>
+              <Slider
+                {...sliderProps(key, value, (next) => {
+                  const fades = { fadeIn: current.fadeIn, fadeOut: current.fadeOut, [key]: next }
+                  onChange(setFades(current, fades.fadeIn, fades.fadeOut), `${label}: ${next.toFixed(1)}s`)
+                })}
+                min={0}
+                max={maxFade}
+                step={0.1}
+                disabled={maxFade <= 0}
+              />
+            </div>
+          )
+        })}
+
+        <div className="space-y-2">
+          <span className="text-xs text-muted-foreground">Fade curve</span>
+          <Select
+            value={current.fadeCurve}
+            onValueChange={(value) => {
+              const curve = FADE_CURVES.find(c => c.value === value)
+              onChange({ ...current, fadeCurve: value as FadeCurve }, `Fade curve: ${curve?.label ?? value}`)
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FADE_CURVES.map(curve => (
+                <SelectItem key={curve.value} value={curve.value}>{curve.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Drag across the waveform to select the part of the audio to use, or drag its edges to adjust it.
+      </p>
+    </div>
+  )
+}
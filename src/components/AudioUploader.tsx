@@ -1,64 +1,44 @@
 import { useState, useRef } from 'react'
-import { Upload, Music, FileAudio, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Upload, Music, FileAudio, X, AlertCircle, Mic } from 'lucide-react'
 import { Button } from './ui/button'
 import { Progress } from './ui/progress'
 import { AudioFile } from '../App'
+import { AudioRecorder } from './AudioRecorder'
+import { AudioImportError, AudioImportStage, MAX_AUDIO_FILE_SIZE, importAudioFile } from '../lib/audio-import'
 
 interface AudioUploaderProps {
+  audioFile?: AudioFile | null
   onAudioUpload: (audio: AudioFile) => void
 }
 
-export function AudioUploader({ onAudioUpload }: AudioUploaderProps) {
+const IMPORT_STAGES: Record<AudioImportStage, { label: string, progress: number }> = {
+  checking: { label: 'Checking file...', progress: 10 },
+  decoding: { label: 'Decoding audio...', progress: 40 },
+  'reading-tags': { label: 'Reading tags...', progress: 90 }
+}
+
+export function AudioUploader({ audioFile: initialAudioFile = null, onAudioUpload }: AudioUploaderProps) {
   const [isDragging, setIsDragging] = useState(false)
-  const [isUploading, setIsUploading] = useState(false)
-  const [uploadProgress, setUploadProgress] = useState(0)
-  const [uploadedFile, setUploadedFile] = useState<AudioFile | null>(null)
+  const [stage, setStage] = useState<AudioImportStage | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [mode, setMode] = useState<'file' | 'record'>('file')
+  const [uploadedFile, setUploadedFile] = useState<AudioFile | null>(initialAudioFile)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const processAudioFile = async (file: File) => {
-    setIsUploading(true)
-    setUploadProgress(0)
-
-    // Simulate upload progress
-    const progressInterval = setInterval(() => {
-      setUploadProgress(prev => {
-        if (prev >= 90) {
-          clearInterval(progressInterval)
-          return 90
-        }
-        return prev + 10
-      })
-    }, 100)
-
+    setError(null)
     try {
-      // Create audio element to get duration
-      const audio = new Audio()
-      const url = URL.createObjectURL(file)
-      audio.src = url
-
-      await new Promise((resolve, reject) => {
-        audio.onloadedmetadata = () => {
-          const audioFile: AudioFile = {
-            file,
-            url,
-            duration: audio.duration,
-            name: file.name
-          }
-          
-          setUploadProgress(100)
-          setTimeout(() => {
-            setIsUploading(false)
-            setUploadedFile(audioFile)
-            onAudioUpload(audioFile)
-            resolve(audioFile)
-          }, 500)
-        }
-        audio.onerror = reject
-      })
+      const audioFile = await importAudioFile(file, setStage)
+      setUploadedFile(audioFile)
+      onAudioUpload(audioFile)
     } catch (error) {
       console.error('Error processing audio file:', error)
-      setIsUploading(false)
-      setUploadProgress(0)
+      const message = error instanceof AudioImportError ? error.message : `"${file.name}" could not be loaded.`
+      setError(message)
+      toast.error(message)
+    } finally {
+      setStage(null)
     }
   }
 
@@ -83,9 +63,10 @@ export function AudioUploader({ onAudioUpload }: AudioUploaderProps) {
     e.preventDefault()
     setIsDragging(false)
     
+    // Prefer a file that says it is audio, but let validation explain why anything else is refused
     const files = Array.from(e.dataTransfer.files)
-    const audioFile = files.find(file => file.type.startsWith('audio/'))
-    
+    const audioFile = files.find(file => file.type.startsWith('audio/')) ?? files[0]
+
     if (audioFile) {
       processAudioFile(audioFile)
     }
@@ -96,18 +77,27 @@ export function AudioUploader({ onAudioUpload }: AudioUploaderProps) {
     if (file) {
       processAudioFile(file)
     }
+    e.target.value = ''
   }
 
   if (uploadedFile) {
+    const { title, artist, album, coverArt } = uploadedFile.metadata
     return (
       <div className="space-y-4">
         <div className="flex items-center justify-between p-4 bg-green-50 border border-green-200 rounded-lg">
           <div className="flex items-center space-x-3">
-            <div className="flex items-center justify-center w-10 h-10 bg-green-100 rounded-lg">
-              <FileAudio className="w-5 h-5 text-green-600" />
-            </div>
+            {coverArt ? (
+              <img src={coverArt.url} alt="Cover art" className="w-16 h-16 rounded-lg object-cover" />
+            ) : (
+              <div className="flex items-center justify-center w-10 h-10 bg-green-100 rounded-lg">
+                <FileAudio className="w-5 h-5 text-green-600" />
+              </div>
+            )}
             <div>
-              <h4 className="font-medium text-green-900">{uploadedFile.name}</h4>
+              <h4 className="font-medium text-green-900">{title ?? uploadedFile.name}</h4>
+              {(artist || album) && (
+                <p className="text-sm text-green-800">{[artist, album].filter(Boolean).join(' • ')}</p>
+              )}
               <p className="text-sm text-green-700">
                 Duration: {Math.floor(uploadedFile.duration / 60)}:{(uploadedFile.duration % 60).toFixed(0).padStart(2, '0')} • 
                 Size: {(uploadedFile.file.size / (1024 * 1024)).toFixed(1)} MB
@@ -133,20 +123,34 @@ export function AudioUploader({ onAudioUpload }: AudioUploaderProps) {
         <h2 className="text-2xl font-bold mb-2">Upload Your Audio File</h2>
         <p className="text-muted-foreground">
           Drag and drop your audio file or click to browse. Supports MP3, WAV, M4A, and more.
+          You can also record straight from your microphone.
         </p>
       </div>
 
-      {isUploading ? (
+      <div className="flex justify-center gap-2">
+        <Button variant={mode === 'file' ? 'default' : 'outline'} size="sm" onClick={() => setMode('file')} disabled={!!stage}>
+          <Upload className="w-4 h-4 mr-2" />
+          Upload File
+        </Button>
+        <Button variant={mode === 'record' ? 'default' : 'outline'} size="sm" onClick={() => setMode('record')} disabled={!!stage}>
+          <Mic className="w-4 h-4 mr-2" />
+          Record
+        </Button>
+      </div>
+
+      {stage && (
         <div className="space-y-4">
           <div className="flex items-center justify-center p-8">
             <div className="text-center">
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
-              <p className="text-sm text-muted-foreground">Processing audio file...</p>
+              <p className="text-sm text-muted-foreground">{IMPORT_STAGES[stage].label}</p>
             </div>
           </div>
-          <Progress value={uploadProgress} className="w-full" />
+          <Progress value={IMPORT_STAGES[stage].progress} className="w-full" />
         </div>
-      ) : (
+      )}
+
+      {!stage && mode === 'file' && (
         <div
           className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
             isDragging
@@ -165,7 +169,7 @@ export function AudioUploader({ onAudioUpload }: AudioUploaderProps) {
             <div>
               <h3 className="text-lg font-semibold mb-2">Drop your audio file here</h3>
               <p className="text-muted-foreground mb-4">
-                or click to browse from your computer
+                or click to browse from your computer (up to {MAX_AUDIO_FILE_SIZE / (1024 * 1024)} MB)
               </p>
             </div>
 
@@ -185,6 +189,23 @@ export function AudioUploader({ onAudioUpload }: AudioUploaderProps) {
         </div>
       )}
 
+      {/* Stays mounted while a take is imported, so it can be retaken if it is refused */}
+      {mode === 'record' && (
+        <div className={stage ? 'hidden' : undefined}>
+          <AudioRecorder onRecorded={processAudioFile} />
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-2">
+          <AlertCircle className="w-4 h-4 text-red-600 mt-0.5 flex-shrink-0" />
+          <p className="flex-1 text-sm text-red-800">{error}</p>
+          <Button variant="ghost" size="sm" onClick={() => setError(null)}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
         <div className="p-3 bg-muted/50 rounded-lg">
           <FileAudio className="w-6 h-6 mx-auto mb-2 text-muted-foreground" />
@@ -0,0 +1,291 @@
+import { useEffect, useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import { saveAs } from 'file-saver'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Progress } from './ui/progress'
+import { Check, Download, Hand, Speech, Timer, Upload, X } from 'lucide-react'
+import { CaptionTrack, applyTapTimes, parseCaptionLines } from '../lib/captions'
+import {
+  SUBTITLE_FILE_ACCEPT,
+  SUBTITLE_FORMATS,
+  SubtitleFormat,
+  formatSubtitles,
+  getSubtitleFormat,
+  parseSubtitles
+} from '../lib/subtitles'
+import { TRANSCRIPTION_MODELS, TranscriptionModelId, wordsToCaptions } from '../lib/transcription'
+import { useTranscription } from '../hooks/use-transcription'
+import { CaptionStyleControls } from './CaptionStyleControls'
+
+interface CaptionEditorProps {
+  captions: CaptionTrack
+  duration: number
+  audioBuffer: AudioBuffer | null
+  // Subtitle exports are named after this, like the rendered video
+  fileBaseName: string
+  // Read straight from the audio element, so taps land where the user heard them
+  getCurrentTime: () => number
+  onStartTapping: () => void
+  onChange: (captions: CaptionTrack, label: string) => void
+}
+
+export function CaptionEditor({
+  captions,
+  duration,
+  audioBuffer,
+  fileBaseName,
+  getCurrentTime,
+  onStartTapping,
+  onChange
+}: CaptionEditorProps) {
+  const { lines } = captions
+  const linesText = lines.map(line => line.text).join('\n')
+  const [draftText, setDraftText] = useState<string | null>(null)
+  const [taps, setTaps] = useState<number[] | null>(null)
+  const [exportFormat, setExportFormat] = useState<SubtitleFormat>('srt')
+  const [model, setModel] = useState<TranscriptionModelId>(TRANSCRIPTION_MODELS[0].value)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { transcribe, cancel: cancelTranscription, progress, isTranscribing } = useTranscription()
+  const text = draftText ?? linesText
+
+  const transcribeAudio = async () => {
+    if (!audioBuffer) return
+
+    try {
+      const words = await transcribe(audioBuffer, model)
+      if (words.length === 0) {
+        toast.error('No speech was recognized in this audio')
+        return
+      }
+      const transcribed = wordsToCaptions(words)
+      setDraftText(null)
+      onChange({ ...captions, lines: transcribed }, 'Transcribe audio')
+      toast.success(`Transcribed ${transcribed.length} caption${transcribed.length !== 1 ? 's' : ''}`)
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return
+      console.error('Error transcribing audio:', error)
+      toast.error(error instanceof Error ? error.message : 'Transcription failed')
+    }
+  }
+
+  const importFile = async (file: File) => {
+    const format = getSubtitleFormat(file.name)
+    if (!format) {
+      toast.error(`"${file.name}" is not an SRT, WebVTT or LRC file`)
+      return
+    }
+
+    try {
+      const { lines: imported, issues } = parseSubtitles(await file.text(), format, duration)
+      setDraftText(null)
+      onChange({ ...captions, lines: imported }, `Import ${file.name}`)
+      toast.success(`Imported ${imported.length} caption${imported.length !== 1 ? 's' : ''}`)
+      if (issues.length > 0) {
+        const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : ''
+        toast.error(`Skipped unreadable parts of ${file.name}: ${issues[0]}${more}`)
+      }
+    } catch (error) {
+      console.error('Error importing subtitles:', error)
+      toast.error(error instanceof Error ? error.message : 'Could not read the subtitle file')
+    }
+  }
+
+  const exportFile = () => {
+    const format = SUBTITLE_FORMATS.find(f => f.value === exportFormat)!
+    const blob = new Blob([formatSubtitles(lines, exportFormat)], { type: `${format.mimeType};charset=utf-8` })
+    saveAs(blob, `${fileBaseName}.${format.extension}`)
+  }
+
+  const applyLines = () => {
+    const parsed = parseCaptionLines(text, duration)
+    setDraftText(null)
+    if (text.trim() === linesText.trim()) return
+
+    // Edits that keep the line count only change the words, so existing timing survives
+    const updated = parsed.length === lines.length
+      ? lines.map((line, i) => line.text === parsed[i].text ? line : { ...line, text: parsed[i].text, words: undefined })
+      : parsed
+    onChange({ ...captions, lines: updated }, parsed.length === lines.length ? 'Edit caption lines' : 'Set caption lines')
+  }
+
+  const finishTapping = (times: number[]) => {
+    setTaps(null)
+    if (times.length === 0) return
+    onChange({ ...captions, lines: applyTapTimes(lines, times, duration) }, 'Tap-time captions')
+  }
+
+  const tap = () => {
+    if (!taps) return
+    const time = getCurrentTime()
+    // Taps before the previous one come from seeking backwards; ignore them
+    if (taps.length > 0 && time <= taps[taps.length - 1]) return
+    const next = [...taps, time]
+    if (next.length >= lines.length) {
+      finishTapping(next)
+    } else {
+      setTaps(next)
+    }
+  }
+
+  useEffect(() => {
+    if (!taps) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.repeat) return
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return
+      e.preventDefault()
+      tap()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+
+  const startTapping = () => {
+    setTaps([])
+    onStartTapping()
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <Label>Transcribe</Label>
+        {isTranscribing ? (
+          <div className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                {progress?.stage === 'loading-model'
+                  ? `Downloading the speech model${progress.progress !== null ? ` ${Math.round(progress.progress * 100)}%` : '...'}`
+                  : 'Transcribing on this device, this can take a while for long recordings...'}
+              </span>
+              <Button variant="ghost" size="sm" onClick={cancelTranscription}>
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+            </div>
+            {progress?.stage === 'loading-model' && progress.progress !== null && (
+              <Progress value={progress.progress * 100} />
+            )}
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={model} onValueChange={(value) => setModel(value as TranscriptionModelId)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRANSCRIPTION_MODELS.map(m => (
+                  <SelectItem key={m.value} value={m.value}>
+                    <div className="flex flex-col">
+                      <span className="font-medium">{m.label}</span>
+                      <span className="text-xs text-muted-foreground">{m.description}</span>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={transcribeAudio} disabled={!audioBuffer || !!taps}>
+              <Speech className="w-4 h-4 mr-2" />
+              Transcribe Audio
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              Speech is recognized in your browser; the audio never leaves your device.
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <Label htmlFor="caption-lines">Lyrics or captions, one line per caption</Label>
+        <Textarea
+          id="caption-lines"
+          value={text}
+          onChange={(e) => setDraftText(e.target.value)}
+          placeholder="Paste or type your lyrics here"
+          rows={6}
+          disabled={!!taps}
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" onClick={applyLines} disabled={draftText === null || !!taps}>
+            <Check className="w-4 h-4 mr-2" />
+            Apply Lines
+          </Button>
+          {draftText !== null && (
+            <Button variant="ghost" onClick={() => setDraftText(null)}>
+              Discard Changes
+            </Button>
+          )}
+          {!taps && (
+            <Button variant="outline" onClick={startTapping} disabled={lines.length === 0 || draftText !== null}>
+              <Timer className="w-4 h-4 mr-2" />
+              Tap to Time
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={!!taps}>
+          <Upload className="w-4 h-4 mr-2" />
+          Import SRT / VTT / LRC
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={SUBTITLE_FILE_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) importFile(file)
+            e.target.value = ''
+          }}
+        />
+        <div className="flex items-center gap-2 ml-auto">
+          <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as SubtitleFormat)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SUBTITLE_FORMATS.map(format => (
+                <SelectItem key={format.value} value={format.value}>{format.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={exportFile} disabled={lines.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+        </div>
+      </div>
+
+      {taps && (
+        <div className="rounded-lg border p-4 space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">
+              Tap as each line starts ({taps.length} of {lines.length} timed). Space works too.
+            </span>
+            <span className="space-x-2">
+              <Button variant="ghost" size="sm" onClick={() => finishTapping(taps)}>
+                <Check className="w-4 h-4 mr-2" />
+                Done
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setTaps(null)}>
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+            </span>
+          </div>
+          <Button className="w-full h-16 text-lg" onClick={tap}>
+            <Hand className="w-5 h-5 mr-2" />
+            <span className="truncate">{lines[taps.length]?.text}</span>
+          </Button>
+        </div>
+      )}
+
+      <CaptionStyleControls style={captions.style} onChange={(style, label) => onChange({ ...captions, style }, label)} />
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Trash2 } from 'lucide-react'
+import { Caption, MIN_CAPTION_DURATION } from '../lib/captions'
+
+interface CaptionInspectorProps {
+  caption: Caption
+  onChange: (caption: Caption, label: string) => void
+  onRemove: () => void
+}
+
+// Text fields only become history entries when they lose focus, not on every keystroke
+export function CaptionInspector({ caption, onChange, onRemove }: CaptionInspectorProps) {
+  const [text, setText] = useState(caption.text)
+  const [start, setStart] = useState(caption.startTime.toFixed(2))
+  const [end, setEnd] = useState((caption.startTime + caption.duration).toFixed(2))
+
+  const commitText = () => {
+    const trimmed = text.trim()
+    if (!trimmed) {
+      setText(caption.text)
+    } else if (trimmed !== caption.text) {
+      // Transcribed word timing no longer matches once the words change
+      onChange({ ...caption, text: trimmed, words: undefined }, 'Edit caption text')
+    }
+  }
+
+  const commitTimes = () => {
+    const startTime = Number(start)
+    const endTime = Number(end)
+    if (!Number.isFinite(startTime) || !Number.isFinite(endTime) || startTime < 0 || endTime - startTime < MIN_CAPTION_DURATION) {
+      setStart(caption.startTime.toFixed(2))
+      setEnd((caption.startTime + caption.duration).toFixed(2))
+      return
+    }
+    if (startTime !== caption.startTime || endTime !== caption.startTime + caption.duration) {
+      onChange({ ...caption, startTime, duration: endTime - startTime }, 'Retime caption')
+    }
+  }
+
+  const submitOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') e.currentTarget.blur()
+  }
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Caption</Label>
+        <Button variant="ghost" size="sm" onClick={onRemove}>
+          <Trash2 className="w-4 h-4 mr-2" />
+          Remove
+        </Button>
+      </div>
+      <Input value={text} onChange={(e) => setText(e.target.value)} onBlur={commitText} onKeyDown={submitOnEnter} />
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <span className="text-xs text-muted-foreground">Start (s)</span>
+          <Input
+            type="number"
+            min={0}
+            step={0.05}
+            value={start}
+            onChange={(e) => setStart(e.target.value)}
+            onBlur={commitTimes}
+            onKeyDown={submitOnEnter}
+          />
+        </div>
+        <div className="space-y-1">
+          <span className="text-xs text-muted-foreground">End (s)</span>
+          <Input
+            type="number"
+            min={0}
+            step={0.05}
+            value={end}
+            onChange={(e) => setEnd(e.target.value)}
+            onBlur={commitTimes}
+            onKeyDown={submitOnEnter}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react'
+import { Label } from './ui/label'
+import { Input } from './ui/input'
+import { Slider } from './ui/slider'
+import { Switch } from './ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import {
+  CAPTION_FONTS,
+  CAPTION_POSITIONS,
+  CaptionPosition,
+  CaptionStyle,
+  MAX_CAPTION_SIZE,
+  MAX_OUTLINE_WIDTH,
+  MIN_CAPTION_SIZE
+} from '../lib/captions'
+import { useSliderDraft } from '../hooks/use-slider-draft'
+
+interface CaptionStyleControlsProps {
+  style: CaptionStyle
+  onChange: (style: CaptionStyle, label: string) => void
+}
+
+type ColorSetting = 'color' | 'outlineColor' | 'highlightColor'
+type NumericSetting = 'size' | 'outlineWidth'
+
+const COLORS: { key: ColorSetting, label: string }[] = [
+  { key: 'color', label: 'Text' },
+  { key: 'outlineColor', label: 'Outline' },
+  { key: 'highlightColor', label: 'Highlight' }
+]
+
+const SLIDERS: { key: NumericSetting, label: string, min: number, max: number, step: number }[] = [
+  { key: 'size', label: 'Size', min: MIN_CAPTION_SIZE, max: MAX_CAPTION_SIZE, step: 0.005 },
+  { key: 'outlineWidth', label: 'Outline width', min: 0, max: MAX_OUTLINE_WIDTH, step: 0.01 }
+]
+
+export function CaptionStyleControls({ style, onChange }: CaptionStyleControlsProps) {
+  const { getValue, sliderProps } = useSliderDraft<NumericSetting>()
+  // A colour is committed when its picker loses focus
+  const [draftColors, setDraftColors] = useState<Partial<Record<ColorSetting, string>>>({})
+
+  return (
+    <div className="space-y-3">
+      <Label>Caption Style</Label>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Select
+          value={style.font}
+          onValueChange={(value) => {
+            const font = CAPTION_FONTS.find(f => f.value === value)
+            onChange({ ...style, font: value }, `Caption font: ${font?.label ?? value}`)
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CAPTION_FONTS.map(font => (
+              <SelectItem key={font.value} value={font.value}>
+                <span style={{ fontFamily: font.value }}>{font.label}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={style.position}
+          onValueChange={(value) => {
+            const position = CAPTION_POSITIONS.find(p => p.value === value)
+            onChange({ ...style, position: value as CaptionPosition }, `Caption position: ${position?.label ?? value}`)
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CAPTION_POSITIONS.map(position => (
+              <SelectItem key={position.value} value={position.value}>{position.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {SLIDERS.map(({ key, label, min, max, step }) => (
+          <div key={key} className="space-y-2">
+            <span className="text-xs text-muted-foreground">
+              {label}: {Math.round(getValue(key, style[key]) * 100)}%
+            </span>
+            <Slider
+              {...sliderProps(key, style[key], (value) => {
+                onChange({ ...style, [key]: value }, `Caption ${label.toLowerCase()}`)
+              })}
+              min={min}
+              max={max}
+              step={step}
+            />
+          </div>
+        ))}
+
+        <div className="flex flex-wrap items-center gap-4 md:col-span-2">
+          {COLORS.map(({ key, label }) => (
+            <label key={key} className="flex items-center space-x-2">
+              <Input
+                type="color"
+                value={draftColors[key] ?? style[key]}
+                onChange={(e) => setDraftColors({ ...draftColors, [key]: e.target.value })}
+                onBlur={() => {
+                  const value = draftColors[key]
+                  if (value && value !== style[key]) {
+                    onChange({ ...style, [key]: value }, `Caption ${label.toLowerCase()} color`)
+                  }
+                  setDraftColors((prev) => {
+                    const next = { ...prev }
+                    delete next[key]
+                    return next
+                  })
+                }}
+                className="w-12 h-9 p-1"
+              />
+              <span className="text-sm text-muted-foreground">{label}</span>
+            </label>
+          ))}
+
+          <label className="flex items-center space-x-2 ml-auto">
+            <Switch
+              checked={style.karaoke}
+              onCheckedChange={(karaoke) => onChange({ ...style, karaoke }, karaoke ? 'Karaoke highlight on' : 'Karaoke highlight off')}
+            />
+            <span className="text-sm">Karaoke highlight</span>
+          </label>
+        </div>
+      </div>
+    </div>
+  )
+}
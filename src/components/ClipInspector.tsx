@@ -0,0 +1,219 @@
+import { TimelineItem, VisualAsset } from '../App'
+import { Label } from './ui/label'
+import { Slider } from './ui/slider'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import {
+  DEFAULT_TRANSITION,
+  MAX_TRANSITION_DURATION,
+  MIN_TRANSITION_DURATION,
+  TRANSITION_EASINGS,
+  TRANSITION_TYPES,
+  Transition,
+  TransitionEasing,
+  TransitionType
+} from '../lib/transitions'
+import { MOTION_PRESETS, MotionPreset, createAutoMotion, createPresetMotion } from '../lib/motion'
+import { isStillAsset } from '../lib/compositor'
+import { MotionEditor } from './MotionEditor'
+import { VisualizerControls } from './VisualizerControls'
+import { getVisualizerThumbnail } from '../lib/visualizer'
+import { Scene3DControls } from './Scene3DControls'
+import { SCENE3D_KINDS, getScene3DThumbnail } from '../lib/scene3d'
+import { SlideEditor } from './SlideEditor'
+import { useSliderDraft } from '../hooks/use-slider-draft'
+
+interface ClipInspectorProps {
+  item: TimelineItem
+  previous: TimelineItem | null
+  // Media on the timeline that slides can use as their background
+  backgrounds: VisualAsset[]
+  onChange: (item: TimelineItem, label: string) => void
+}
+
+export function ClipInspector({ item, previous, backgrounds, onChange }: ClipInspectorProps) {
+  const { getValue, sliderProps } = useSliderDraft<'duration'>()
+  const transition = item.transition
+
+  const updateTransition = (next: Transition | undefined, label: string) => {
+    onChange({ ...item, transition: next }, label)
+  }
+
+  const motion = item.motion
+
+  const applyMotion = (value: string) => {
+    if (value === 'none') {
+      onChange({ ...item, motion: undefined }, `Remove motion from ${item.asset.name}`)
+    } else if (value === 'auto') {
+      onChange({ ...item, motion: createAutoMotion() }, `Ken Burns on ${item.asset.name}`)
+    } else if (value !== 'custom') {
+      const preset = MOTION_PRESETS.find(p => p.value === value)
+      onChange(
+        { ...item, motion: createPresetMotion(value as MotionPreset) },
+        `${preset?.label ?? value} on ${item.asset.name}`
+      )
+    }
+  }
+
+  const maxDuration = previous
+    ? Math.max(MIN_TRANSITION_DURATION, Math.min(MAX_TRANSITION_DURATION, previous.duration, item.duration))
+    : MAX_TRANSITION_DURATION
+  const duration = Math.min(transition?.duration ?? DEFAULT_TRANSITION.duration, maxDuration)
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium truncate">{item.asset.name}</h4>
+        <span className="text-xs text-muted-foreground">
+          {item.startTime.toFixed(2)}s – {(item.startTime + item.duration).toFixed(2)}s
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        <Label>Transition In</Label>
+        {!previous ? (
+          <p className="text-sm text-muted-foreground">
+            Place this clip right after another clip on the same track to add a transition.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Select
+              value={transition?.type ?? 'none'}
+              onValueChange={(value) => {
+                if (value === 'none') {
+                  updateTransition(undefined, `Remove transition into ${item.asset.name}`)
+                } else {
+                  const type = value as TransitionType
+                  const label = TRANSITION_TYPES.find(t => t.value === type)?.label ?? type
+                  updateTransition(
+                    { ...DEFAULT_TRANSITION, ...transition, type },
+                    `${label} into ${item.asset.name}`
+                  )
+                }
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None (cut)</SelectItem>
+                {TRANSITION_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={transition?.easing ?? DEFAULT_TRANSITION.easing}
+              onValueChange={(value) => {
+                if (transition) {
+                  updateTransition({ ...transition, easing: value as TransitionEasing }, `Transition easing for ${item.asset.name}`)
+                }
+              }}
+              disabled={!transition}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRANSITION_EASINGS.map(easing => (
+                  <SelectItem key={easing.value} value={easing.value}>{easing.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div className="space-y-2">
+              <span className="text-xs text-muted-foreground">
+                Duration: {getValue('duration', duration).toFixed(1)}s
+              </span>
+              <Slider
+                {...sliderProps('duration', duration, (value) => {
+                  if (transition) {
+                    updateTransition({ ...transition, duration: value }, `Transition length for ${item.asset.name}`)
+                  }
+                })}
+                min={MIN_TRANSITION_DURATION}
+                max={maxDuration}
+                step={0.1}
+                disabled={!transition}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {item.slide && (
+        <SlideEditor item={item} slide={item.slide} backgrounds={backgrounds} onChange={onChange} />
+      )}
+
+      {item.visualizer && (
+        <VisualizerControls
+          settings={item.visualizer}
+          onChange={(settings, label) => {
+            // Keep the clip's icon in the visualizer's colour
+            const thumbnail = getVisualizerThumbnail(settings)
+            onChange({ ...item, visualizer: settings, asset: { ...item.asset, url: thumbnail, thumbnail } }, label)
+          }}
+        />
+      )}
+
+      {item.scene3d && (
+        <Scene3DControls
+          settings={item.scene3d}
+          onChange={(settings, label) => {
+            const thumbnail = getScene3DThumbnail(settings)
+            const name = SCENE3D_KINDS.find(kind => kind.value === settings.kind)?.label ?? item.asset.name
+            onChange({ ...item, scene3d: settings, asset: { ...item.asset, url: thumbnail, thumbnail, name } }, label)
+          }}
+        />
+      )}
+
+      {isStillAsset(item.asset) && (
+        <div className="space-y-3">
+          <Label>Motion</Label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Select value={motion ? 'custom' : 'none'} onValueChange={applyMotion}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None (still)</SelectItem>
+                <SelectItem value="auto">Auto Ken Burns</SelectItem>
+                {MOTION_PRESETS.map(preset => (
+                  <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+                ))}
+                {motion && <SelectItem value="custom">Custom</SelectItem>}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={motion?.easing ?? 'linear'}
+              onValueChange={(value) => {
+                if (motion) {
+                  onChange({ ...item, motion: { ...motion, easing: value as TransitionEasing } }, `Motion easing for ${item.asset.name}`)
+                }
+              }}
+              disabled={!motion}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRANSITION_EASINGS.map(easing => (
+                  <SelectItem key={easing.value} value={easing.value}>{easing.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {motion && (
+            <MotionEditor
+              imageUrl={item.asset.url}
+              motion={motion}
+              onChange={(next) => onChange({ ...item, motion: next }, `Adjust motion on ${item.asset.name}`)}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
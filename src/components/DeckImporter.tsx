@@ -0,0 +1,208 @@
+import { useEffect, useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Progress } from './ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Crosshair, FileUp, ListPlus, X } from 'lucide-react'
+import {
+  DECK_FILE_ACCEPT,
+  DeckPage,
+  formatTimestamp,
+  getEvenStartTimes,
+  importDeck,
+  parseTimestamp,
+  releaseDeckPages
+} from '../lib/deck-import'
+import { AudioRegion } from '../lib/audio-trim'
+
+interface DeckImporterProps {
+  // Pages are timed within the part of the audio that becomes the video
+  region: AudioRegion
+  // Read straight from the audio element, so "use playhead" matches what the user just heard
+  getCurrentTime: () => number
+  onAdd: (name: string, pages: DeckPage[], startTimes: number[]) => void
+}
+
+type DeckTiming = 'even' | 'timestamps'
+
+interface ImportedDeck {
+  name: string
+  pages: DeckPage[]
+}
+
+export function DeckImporter({ region, getCurrentTime, onAdd }: DeckImporterProps) {
+  const [deck, setDeck] = useState<ImportedDeck | null>(null)
+  const [progress, setProgress] = useState<{ done: number, total: number } | null>(null)
+  const [timing, setTiming] = useState<DeckTiming>('even')
+  const [timestamps, setTimestamps] = useState<string[]>([])
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  // Pages not yet on the timeline are freed if the editor goes away
+  const pendingRef = useRef<DeckPage[]>([])
+
+  useEffect(() => () => {
+    abortRef.current?.abort()
+    releaseDeckPages(pendingRef.current)
+  }, [])
+
+  const showDeck = (next: ImportedDeck | null) => {
+    pendingRef.current = next?.pages ?? []
+    setDeck(next)
+  }
+
+  const importFile = async (file: File) => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setProgress({ done: 0, total: 0 })
+
+    try {
+      const pages = await importDeck(file, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total })
+      })
+      if (deck) releaseDeckPages(deck.pages)
+      showDeck({ name: file.name, pages })
+      setTimestamps(getEvenStartTimes(pages.length, region.start, region.end).map(formatTimestamp))
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return
+      console.error('Error importing deck:', error)
+      toast.error(error instanceof Error ? error.message : 'Could not import the deck')
+    } finally {
+      abortRef.current = null
+      setProgress(null)
+    }
+  }
+
+  const discard = () => {
+    if (deck) releaseDeckPages(deck.pages)
+    showDeck(null)
+  }
+
+  const parsedTimes = timestamps.map(parseTimestamp)
+  const startTimes = deck && timing === 'even' ? getEvenStartTimes(deck.pages.length, region.start, region.end) : parsedTimes
+
+  // Pages are shown in deck order, so their times must rise through the audio
+  const timingError = timing === 'even'
+    ? null
+    : parsedTimes.some(time => time === null)
+      ? 'Enter each time as seconds or minutes:seconds.'
+      : parsedTimes.some((time, i) => i > 0 && time! <= parsedTimes[i - 1]!)
+        ? 'Each page must start after the one before it.'
+        : parsedTimes.some(time => time! < region.start || time! >= region.end)
+          ? `Times must be within the audio, from ${formatTimestamp(region.start)} to ${formatTimestamp(region.end)}.`
+          : null
+
+  const addToTimeline = () => {
+    if (!deck || timingError) return
+    onAdd(deck.name, deck.pages, startTimes as number[])
+    // The pages now belong to the timeline, so they must not be released
+    showDeck(null)
+  }
+
+  const setTimestamp = (index: number, value: string) => {
+    setTimestamps(timestamps.map((t, i) => i === index ? value : t))
+  }
+
+  if (progress) {
+    return (
+      <div className="rounded-lg border p-4 space-y-3">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">
+            {progress.total > 0 ? `Reading page ${progress.done} of ${progress.total}...` : 'Opening the deck...'}
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => abortRef.current?.abort()}>
+            <X className="w-4 h-4 mr-2" />
+            Cancel
+          </Button>
+        </div>
+        {progress.total > 0 && <Progress value={(progress.done / progress.total) * 100} />}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <FileUp className="w-4 h-4 mr-2" />
+          Import PDF / PPTX
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={DECK_FILE_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) importFile(file)
+            e.target.value = ''
+          }}
+        />
+        <span className="text-xs text-muted-foreground">
+          Export Keynote or Google Slides decks as PDF first. PowerPoint slides come in as editable text slides.
+        </span>
+      </div>
+
+      {deck && (
+        <div className="rounded-lg border p-4 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="text-sm font-medium truncate">
+              {deck.name} • {deck.pages.length} page{deck.pages.length !== 1 ? 's' : ''}
+            </span>
+            <Select value={timing} onValueChange={(value) => setTiming(value as DeckTiming)}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="even">Spread evenly over the audio</SelectItem>
+                <SelectItem value="timestamps">Start at set times</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto space-y-2">
+            {deck.pages.map((page, i) => (
+              <div key={page.asset.id} className="flex items-center gap-3">
+                <img src={page.asset.thumbnail} alt={page.asset.name} className="w-16 h-9 object-cover rounded border" />
+                <span className="flex-1 text-sm truncate">{page.asset.name}</span>
+                {timing === 'even' ? (
+                  <span className="text-sm text-muted-foreground font-mono">{formatTimestamp(startTimes[i]!)}</span>
+                ) : (
+                  <>
+                    <Input
+                      value={timestamps[i]}
+                      onChange={(e) => setTimestamp(i, e.target.value)}
+                      className="w-24 font-mono"
+                      aria-label={`Start of ${page.asset.name}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setTimestamp(i, formatTimestamp(getCurrentTime()))}
+                      title="Start at the playhead"
+                    >
+                      <Crosshair className="w-4 h-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {timingError && <p className="text-sm text-destructive">{timingError}</p>}
+
+          <div className="flex items-center gap-2">
+            <Button onClick={addToTimeline} disabled={!!timingError}>
+              <ListPlus className="w-4 h-4 mr-2" />
+              Add to Timeline
+            </Button>
+            <Button variant="ghost" onClick={discard}>
+              Discard
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,65 +1,131 @@
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { Button } from './ui/button'
 import { Card } from './ui/card'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Progress } from './ui/progress'
-import { Download, Settings, Video, FileVideo } from 'lucide-react'
+import { Switch } from './ui/switch'
+import { Download, Settings, Video, FileVideo, Film, AlertCircle, X, Captions, AudioWaveform } from 'lucide-react'
+import { saveAs } from 'file-saver'
+import { RenderProgress, RenderedVideo } from '../lib/video-renderer'
+import { SUBTITLE_FORMATS, SubtitleFormat } from '../lib/subtitles'
+import { DEFAULT_MASTERING, LoudnessReport, MasteringSettings } from '../lib/mastering'
+import { MasteringControls } from './MasteringControls'
+import {
+  CaptionExport,
+  EXPORT_FORMATS,
+  EXPORT_QUALITIES,
+  ExportFormat,
+  ExportFormatId,
+  ExportQuality,
+  ExportQualityId,
+  FormatSupport,
+  checkFormatSupport,
+  estimateFileSize
+} from '../lib/export-formats'
 
 interface ExportControlsProps {
-  onExport: (format: string, quality: string) => void
+  renderedVideo: RenderedVideo | null
+  duration: number
+  frameRate: number
+  hasCaptions: boolean
+  onExport: (
+    format: ExportFormat,
+    quality: ExportQuality,
+    captionExport: CaptionExport,
+    mastering: MasteringSettings,
+    options: { onProgress: (progress: RenderProgress) => void, signal: AbortSignal }
+  ) => Promise<LoudnessReport | null>
+  onMeasureLoudness: (mastering: MasteringSettings) => Promise<LoudnessReport | null>
 }
 
-export function ExportControls({ onExport }: ExportControlsProps) {
-  const [selectedFormat, setSelectedFormat] = useState('mp4')
-  const [selectedQuality, setSelectedQuality] = useState('1080p')
+export function ExportControls({
+  renderedVideo,
+  duration,
+  frameRate,
+  hasCaptions,
+  onExport,
+  onMeasureLoudness
+}: ExportControlsProps) {
+  const [selectedFormat, setSelectedFormat] = useState<ExportFormatId>('mp4')
+  const [selectedQuality, setSelectedQuality] = useState<ExportQualityId>('1080p')
+  const [captionExport, setCaptionExport] = useState<CaptionExport>({ burnIn: true, sidecar: null })
+  const [mastering, setMastering] = useState<MasteringSettings>(DEFAULT_MASTERING)
+  const [loudness, setLoudness] = useState<LoudnessReport | null>(null)
+  const [isMeasuring, setIsMeasuring] = useState(false)
   const [isExporting, setIsExporting] = useState(false)
   const [exportProgress, setExportProgress] = useState(0)
+  const [formatSupport, setFormatSupport] = useState<Partial<Record<ExportFormatId, FormatSupport>>>({})
+  const exportAbortRef = useRef<AbortController | null>(null)
 
-  const formats = [
-    { value: 'mp4', label: 'MP4 (Recommended)', description: 'Best compatibility' },
-    { value: 'mov', label: 'MOV', description: 'High quality' },
-    { value: 'avi', label: 'AVI', description: 'Universal format' },
-    { value: 'webm', label: 'WebM', description: 'Web optimized' }
-  ]
+  const format = EXPORT_FORMATS.find(f => f.value === selectedFormat)!
+  const quality = EXPORT_QUALITIES.find(q => q.value === selectedQuality)!
+  const support = formatSupport[selectedFormat]
 
-  const qualities = [
-    { value: '4k', label: '4K (3840x2160)', description: 'Ultra HD', size: '~500MB' },
-    { value: '1080p', label: '1080p (1920x1080)', description: 'Full HD', size: '~200MB' },
-    { value: '720p', label: '720p (1280x720)', description: 'HD', size: '~100MB' },
-    { value: '480p', label: '480p (854x480)', description: 'Standard', size: '~50MB' }
-  ]
+  useEffect(() => {
+    let cancelled = false
+
+    // isConfigSupported rejects configs it considers invalid rather than answering no
+    const check = (f: ExportFormat) => checkFormatSupport(f, quality, frameRate).catch((error): FormatSupport => {
+      console.error(`Error checking ${f.label} support:`, error)
+      return { supported: false, reason: `This browser cannot encode ${f.label} at ${quality.label}.` }
+    })
+
+    Promise.all(EXPORT_FORMATS.map(async (f) => [f.value, await check(f)] as const))
+      .then((results) => {
+        if (!cancelled) setFormatSupport(Object.fromEntries(results))
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [quality, frameRate])
 
   const handleExport = async () => {
+    const controller = new AbortController()
+    exportAbortRef.current = controller
     setIsExporting(true)
     setExportProgress(0)
 
-    // Simulate export progress
-    const progressInterval = setInterval(() => {
-      setExportProgress(prev => {
-        if (prev >= 100) {
-          clearInterval(progressInterval)
-          setIsExporting(false)
-          onExport(selectedFormat, selectedQuality)
-          return 100
+    try {
+      const report = await onExport(format, quality, captionExport, mastering, {
+        signal: controller.signal,
+        onProgress: ({ frame, totalFrames }) => {
+          setExportProgress(Math.round((frame / totalFrames) * 100))
         }
-        return prev + 5
       })
-    }, 200)
+      if (report) setLoudness(report)
+    } finally {
+      exportAbortRef.current = null
+      setIsExporting(false)
+    }
   }
 
-  const getEstimatedSize = () => {
-    const quality = qualities.find(q => q.value === selectedQuality)
-    return quality?.size || '~100MB'
+  // A measurement only describes the settings it was taken with
+  const changeMastering = (settings: MasteringSettings) => {
+    setMastering(settings)
+    setLoudness(null)
   }
 
-  const getEstimatedTime = () => {
-    const timeMap: Record<string, string> = {
-      '4k': '5-10 minutes',
-      '1080p': '2-5 minutes',
-      '720p': '1-3 minutes',
-      '480p': '30s-1 minute'
+  const measureLoudness = async () => {
+    setIsMeasuring(true)
+    try {
+      setLoudness(await onMeasureLoudness(mastering))
+    } finally {
+      setIsMeasuring(false)
     }
-    return timeMap[selectedQuality] || '2-5 minutes'
+  }
+
+  const cancelExport = () => {
+    exportAbortRef.current?.abort()
+  }
+
+  const getEstimatedSize = () => {
+    const megabytes = estimateFileSize(quality, duration)
+    return megabytes >= 1 ? `~${Math.round(megabytes)}MB` : '<1MB'
+  }
+
+  const getFrameCount = () => {
+    return Math.ceil(duration * frameRate).toLocaleString()
   }
 
   return (
@@ -78,6 +144,30 @@ export function ExportControls({ onExport }: ExportControlsProps) {
         </div>
       </div>
 
+      {/* Latest Render */}
+      {renderedVideo && (
+        <Card className="p-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Film className="w-5 h-5 text-primary" />
+              <div>
+                <h3 className="text-lg font-semibold">Latest Render</h3>
+                <p className="text-sm text-muted-foreground">
+                  WebM • {renderedVideo.width}x{renderedVideo.height} • {renderedVideo.fps} fps • {(renderedVideo.blob.size / (1024 * 1024)).toFixed(1)} MB
+                </p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => saveAs(renderedVideo.blob, 'video-preview.webm')}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </Button>
+          </div>
+        </Card>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {/* Format Selection */}
         <Card className="p-6">
@@ -86,27 +176,34 @@ export function ExportControls({ onExport }: ExportControlsProps) {
             <h3 className="text-lg font-semibold">Video Format</h3>
           </div>
           
-          <Select value={selectedFormat} onValueChange={setSelectedFormat}>
+          <Select value={selectedFormat} onValueChange={(value) => setSelectedFormat(value as ExportFormatId)}>
             <SelectTrigger className="w-full">
               <SelectValue placeholder="Select format" />
             </SelectTrigger>
             <SelectContent>
-              {formats.map((format) => (
-                <SelectItem key={format.value} value={format.value}>
+              {EXPORT_FORMATS.map((f) => (
+                <SelectItem key={f.value} value={f.value} disabled={formatSupport[f.value]?.supported === false}>
                   <div className="flex flex-col">
-                    <span className="font-medium">{format.label}</span>
-                    <span className="text-xs text-muted-foreground">{format.description}</span>
+                    <span className="font-medium">{f.label}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {formatSupport[f.value]?.supported === false ? 'Not available in this browser' : f.description}
+                    </span>
                   </div>
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
           
-          <div className="mt-3 p-3 bg-muted/50 rounded-lg">
-            <p className="text-sm text-muted-foreground">
-              {formats.find(f => f.value === selectedFormat)?.description}
-            </p>
-          </div>
+          {support?.supported === false ? (
+            <div className="mt-3 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-start space-x-2">
+              <AlertCircle className="w-4 h-4 text-amber-600 mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-amber-800">{support.reason}</p>
+            </div>
+          ) : (
+            <div className="mt-3 p-3 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">{format.description}</p>
+            </div>
+          )}
         </Card>
 
         {/* Quality Selection */}
@@ -116,17 +213,17 @@ export function ExportControls({ onExport }: ExportControlsProps) {
             <h3 className="text-lg font-semibold">Video Quality</h3>
           </div>
           
-          <Select value={selectedQuality} onValueChange={setSelectedQuality}>
+          <Select value={selectedQuality} onValueChange={(value) => setSelectedQuality(value as ExportQualityId)}>
             <SelectTrigger className="w-full">
               <SelectValue placeholder="Select quality" />
             </SelectTrigger>
             <SelectContent>
-              {qualities.map((quality) => (
-                <SelectItem key={quality.value} value={quality.value}>
+              {EXPORT_QUALITIES.map((q) => (
+                <SelectItem key={q.value} value={q.value}>
                   <div className="flex flex-col">
-                    <span className="font-medium">{quality.label}</span>
+                    <span className="font-medium">{q.label}</span>
                     <span className="text-xs text-muted-foreground">
-                      {quality.description} • {quality.size}
+                      {q.description} • {(q.videoBitrate / 1_000_000).toFixed(1)} Mbps
                     </span>
                   </div>
                 </SelectItem>
@@ -136,12 +233,65 @@ export function ExportControls({ onExport }: ExportControlsProps) {
           
           <div className="mt-3 p-3 bg-muted/50 rounded-lg">
             <p className="text-sm text-muted-foreground">
-              {qualities.find(q => q.value === selectedQuality)?.description}
+              {quality.description} • {quality.width}x{quality.height} at {frameRate} fps
             </p>
           </div>
         </Card>
       </div>
 
+      {/* Audio */}
+      <Card className="p-6">
+        <div className="flex items-center space-x-2 mb-4">
+          <AudioWaveform className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold">Audio Mastering</h3>
+        </div>
+        <MasteringControls
+          settings={mastering}
+          onChange={changeMastering}
+          report={loudness}
+          isMeasuring={isMeasuring}
+          onMeasure={measureLoudness}
+        />
+      </Card>
+
+      {/* Captions */}
+      {hasCaptions && (
+        <Card className="p-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <Captions className="w-5 h-5 text-primary" />
+            <h3 className="text-lg font-semibold">Captions</h3>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
+            <label className="flex items-center space-x-3">
+              <Switch
+                checked={captionExport.burnIn}
+                onCheckedChange={(burnIn) => setCaptionExport({ ...captionExport, burnIn })}
+              />
+              <span className="text-sm">Burn captions into the video</span>
+            </label>
+
+            <Select
+              value={captionExport.sidecar ?? 'none'}
+              onValueChange={(value) => setCaptionExport({
+                ...captionExport,
+                sidecar: value === 'none' ? null : value as SubtitleFormat
+              })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No subtitle file</SelectItem>
+                {SUBTITLE_FORMATS.map(f => (
+                  <SelectItem key={f.value} value={f.value}>Also save {f.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </Card>
+      )}
+
       {/* Export Summary */}
       <Card className="p-6">
         <h3 className="text-lg font-semibold mb-4">Export Summary</h3>
@@ -163,8 +313,8 @@ export function ExportControls({ onExport }: ExportControlsProps) {
           </div>
           
           <div className="text-center p-3 bg-muted/50 rounded-lg">
-            <p className="text-sm text-muted-foreground">Est. Time</p>
-            <p className="font-semibold">{getEstimatedTime()}</p>
+            <p className="text-sm text-muted-foreground">Frames</p>
+            <p className="font-semibold">{getFrameCount()}</p>
           </div>
         </div>
 
@@ -178,10 +328,15 @@ export function ExportControls({ onExport }: ExportControlsProps) {
             <p className="text-xs text-muted-foreground text-center">
               This may take a few minutes depending on your video length and quality settings
             </p>
+            <Button variant="outline" onClick={cancelExport} className="w-full">
+              <X className="w-4 h-4 mr-2" />
+              Cancel Export
+            </Button>
           </div>
         ) : (
           <Button 
             onClick={handleExport}
+            disabled={!support?.supported}
             size="lg" 
             className="w-full"
           >
@@ -196,6 +351,7 @@ export function ExportControls({ onExport }: ExportControlsProps) {
         <h4 className="font-semibold text-blue-900 mb-2">💡 Export Tips</h4>
         <ul className="text-sm text-blue-800 space-y-1">
           <li>• MP4 format is recommended for best compatibility</li>
+          <li>• Videos are encoded on your device, nothing is uploaded</li>
           <li>• 1080p quality provides the best balance of size and quality</li>
           <li>• Higher quality settings will take longer to export</li>
           <li>• Your video will be automatically downloaded when ready</li>
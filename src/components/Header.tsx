@@ -1,7 +1,11 @@
-import { Video, Sparkles } from 'lucide-react'
+import { Video, Sparkles, FolderOpen } from 'lucide-react'
 import { Button } from './ui/button'
 
-export function Header() {
+interface HeaderProps {
+  onOpenProjects: () => void
+}
+
+export function Header({ onOpenProjects }: HeaderProps) {
   return (
     <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-50">
       <div className="container mx-auto px-4 py-4 flex items-center justify-between">
@@ -16,6 +20,10 @@ export function Header() {
         </div>
         
         <div className="flex items-center space-x-4">
+          <Button variant="outline" size="sm" onClick={onOpenProjects}>
+            <FolderOpen className="w-4 h-4 mr-2" />
+            Projects
+          </Button>
           <Button variant="outline" size="sm">
             <Sparkles className="w-4 h-4 mr-2" />
             Templates
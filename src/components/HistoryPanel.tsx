@@ -0,0 +1,56 @@
+import { HistoryEntry } from '../hooks/use-project-history'
+import { Button } from './ui/button'
+import { ScrollArea } from './ui/scroll-area'
+import { History, Redo2, Undo2 } from 'lucide-react'
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[]
+  index: number
+  canUndo: boolean
+  canRedo: boolean
+  onUndo: () => void
+  onRedo: () => void
+  onJumpTo: (index: number) => void
+}
+
+export function HistoryPanel({ entries, index, canUndo, canRedo, onUndo, onRedo, onJumpTo }: HistoryPanelProps) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center">
+          <History className="w-5 h-5 mr-2" />
+          History
+        </h3>
+        <div className="flex items-center space-x-1">
+          <Button variant="ghost" size="sm" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="h-48">
+        <ol className="space-y-1 pr-3">
+          {entries.map((entry, i) => (
+            <li key={entry.id}>
+              <button
+                className={`w-full text-left text-sm px-2 py-1 rounded transition-colors ${
+                  i === index
+                    ? 'bg-primary/10 text-primary font-medium'
+                    : i > index
+                      ? 'text-muted-foreground/50 hover:bg-muted'
+                      : 'text-muted-foreground hover:bg-muted'
+                }`}
+                onClick={() => onJumpTo(i)}
+              >
+                {entry.label}
+              </button>
+            </li>
+          ))}
+        </ol>
+      </ScrollArea>
+    </div>
+  )
+}
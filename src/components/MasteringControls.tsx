@@ -0,0 +1,129 @@
+import { Button } from './ui/button'
+import { Slider } from './ui/slider'
+import { Switch } from './ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Gauge } from 'lucide-react'
+import {
+  LOUDNESS_TARGETS,
+  LoudnessReport,
+  LoudnessTarget,
+  MAX_EQ_GAIN,
+  MIN_TRUE_PEAK,
+  MasteringSettings,
+  formatLoudness,
+  formatTruePeak
+} from '../lib/mastering'
+
+interface MasteringControlsProps {
+  settings: MasteringSettings
+  onChange: (settings: MasteringSettings) => void
+  // The last measurement of the soundtrack, before and after mastering
+  report: LoudnessReport | null
+  isMeasuring: boolean
+  onMeasure: () => void
+}
+
+const EQ_BANDS: { key: 'low' | 'mid' | 'high', label: string }[] = [
+  { key: 'low', label: 'Bass' },
+  { key: 'mid', label: 'Presence' },
+  { key: 'high', label: 'Air' }
+]
+
+function formatGain(db: number) {
+  return `${db > 0 ? '+' : ''}${db.toFixed(1)} dB`
+}
+
+export function MasteringControls({ settings, onChange, report, isMeasuring, onMeasure }: MasteringControlsProps) {
+  const { eq } = settings
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <span className="text-xs text-muted-foreground">Loudness target</span>
+          <Select
+            value={settings.target}
+            onValueChange={(value) => onChange({ ...settings, target: value as LoudnessTarget })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LOUDNESS_TARGETS.map(target => (
+                <SelectItem key={target.value} value={target.value}>{target.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-xs text-muted-foreground">Peak ceiling: {formatTruePeak(settings.truePeak)}</span>
+          <Slider
+            value={[settings.truePeak]}
+            onValueChange={(value) => onChange({ ...settings, truePeak: value[0] })}
+            min={MIN_TRUE_PEAK}
+            max={0}
+            step={0.1}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-6">
+        <label className="flex items-center space-x-2">
+          <Switch
+            checked={settings.compressor}
+            onCheckedChange={(compressor) => onChange({ ...settings, compressor })}
+          />
+          <span className="text-sm">Compressor</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <Switch
+            checked={eq.enabled}
+            onCheckedChange={(enabled) => onChange({ ...settings, eq: { ...eq, enabled } })}
+          />
+          <span className="text-sm">EQ</span>
+        </label>
+      </div>
+
+      {eq.enabled && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {EQ_BANDS.map(({ key, label }) => (
+            <div key={key} className="space-y-2">
+              <span className="text-xs text-muted-foreground">{label}: {formatGain(eq[key])}</span>
+              <Slider
+                value={[eq[key]]}
+                onValueChange={(value) => onChange({ ...settings, eq: { ...eq, [key]: value[0] } })}
+                min={-MAX_EQ_GAIN}
+                max={MAX_EQ_GAIN}
+                step={0.5}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 p-3 bg-muted/50 rounded-lg">
+        <Button variant="outline" size="sm" onClick={onMeasure} disabled={isMeasuring}>
+          <Gauge className="w-4 h-4 mr-2" />
+          {isMeasuring ? 'Measuring...' : 'Measure Loudness'}
+        </Button>
+        {report ? (
+          <div className="text-sm font-mono space-y-1">
+            <p>
+              <span className="text-muted-foreground">Source </span>
+              {formatLoudness(report.input.integrated)} • {formatTruePeak(report.input.truePeak)}
+            </p>
+            <p>
+              <span className="text-muted-foreground">Export </span>
+              {formatLoudness(report.output.integrated)} • {formatTruePeak(report.output.truePeak)}
+            </p>
+          </div>
+        ) : (
+          <span className="text-sm text-muted-foreground">
+            Measure the mix to see how loud the export will be.
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -26,9 +26,10 @@ import {
   Save
 } from 'lucide-react'
 import { VisualAsset } from '../App'
+import { DEFAULT_TRANSITION, TRANSITION_TYPES, Transition, TransitionType } from '../lib/transitions'
 
 interface MediaCreatorProps {
-  onAssetCreated: (asset: VisualAsset) => void
+  onAssetCreated: (asset: VisualAsset, transition?: Transition) => void
 }
 
 interface ImageFilter {
@@ -51,18 +52,6 @@ const imageFilters: ImageFilter[] = [
   { name: 'Warm', filter: 'hue-rotate(30deg) saturate(130%) brightness(110%)' }
 ]
 
-const clipTransitions = [
-  'fade',
-  'slide-left',
-  'slide-right',
-  'slide-up',
-  'slide-down',
-  'zoom-in',
-  'zoom-out',
-  'rotate',
-  'flip'
-]
-
 export function MediaCreator({ onAssetCreated }: MediaCreatorProps) {
   const [activeTab, setActiveTab] = useState('import')
   const [importedImages, setImportedImages] = useState<File[]>([])
@@ -82,7 +71,7 @@ export function MediaCreator({ onAssetCreated }: MediaCreatorProps) {
   // Clip Creator State
   const [selectedImages, setSelectedImages] = useState<File[]>([])
   const [clipDuration, setClipDuration] = useState(3)
-  const [transition, setTransition] = useState('fade')
+  const [transition, setTransition] = useState<TransitionType>(DEFAULT_TRANSITION.type)
   const [isCreatingClip, setIsCreatingClip] = useState(false)
   const [clipPreview, setClipPreview] = useState<string>('')
   
@@ -223,7 +212,8 @@ export function MediaCreator({ onAssetCreated }: MediaCreatorProps) {
         duration: selectedImages.length * clipDuration
       }
 
-      onAssetCreated(asset)
+      // The chosen effect becomes the transition from the previous clip into this one
+      onAssetCreated(asset, { ...DEFAULT_TRANSITION, type: transition })
       
     } catch (error) {
       console.error('Error creating clip:', error)
@@ -609,14 +599,14 @@ export function MediaCreator({ onAssetCreated }: MediaCreatorProps) {
                     </div>
                     <div>
                       <Label>Transition Effect</Label>
-                      <Select value={transition} onValueChange={setTransition}>
+                      <Select value={transition} onValueChange={(value) => setTransition(value as TransitionType)}>
                         <SelectTrigger className="mt-2">
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          {clipTransitions.map((trans) => (
-                            <SelectItem key={trans} value={trans}>
-                              {trans.charAt(0).toUpperCase() + trans.slice(1).replace('-', ' ')}
+                          {TRANSITION_TYPES.map((trans) => (
+                            <SelectItem key={trans.value} value={trans.value}>
+                              {trans.label}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -0,0 +1,106 @@
+import { useRef, useState } from 'react'
+import { CropRect, Motion, clampRect, getZoom } from '../lib/motion'
+
+interface MotionEditorProps {
+  imageUrl: string
+  motion: Motion
+  onChange: (motion: Motion) => void
+}
+
+type BoxKey = 'start' | 'end'
+
+interface BoxDrag {
+  box: BoxKey
+  mode: 'move' | 'resize'
+  originX: number
+  originY: number
+  rect: CropRect
+}
+
+const BOX_STYLES: Record<BoxKey, { label: string, className: string }> = {
+  start: { label: 'Start', className: 'border-green-400 bg-green-400/10' },
+  end: { label: 'End', className: 'border-rose-400 bg-rose-400/10' }
+}
+
+export function MotionEditor({ imageUrl, motion, onChange }: MotionEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [drag, setDrag] = useState<BoxDrag | null>(null)
+  const [draft, setDraft] = useState<Motion | null>(null)
+  const shown = draft ?? motion
+
+  const startDrag = (e: React.PointerEvent, box: BoxKey, mode: BoxDrag['mode']) => {
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDrag({ box, mode, originX: e.clientX, originY: e.clientY, rect: motion[box] })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const container = containerRef.current
+    if (!drag || !container) return
+
+    const bounds = container.getBoundingClientRect()
+    const dx = (e.clientX - drag.originX) / bounds.width
+    const dy = (e.clientY - drag.originY) / bounds.height
+    const { rect } = drag
+
+    let next: CropRect
+    if (drag.mode === 'move') {
+      next = { ...rect, x: Math.min(1 - rect.width, Math.max(0, rect.x + dx)), y: Math.min(1 - rect.height, Math.max(0, rect.y + dy)) }
+    } else {
+      // Resizing from the corner keeps the frame's aspect ratio and the opposite corner in place
+      const size = Math.min(1 - rect.x, 1 - rect.y, rect.width + Math.max(dx, dy))
+      next = clampRect({ ...rect, width: size, height: size })
+    }
+    setDraft({ ...motion, [drag.box]: next })
+  }
+
+  const handlePointerUp = () => {
+    if (draft) onChange(draft)
+    setDrag(null)
+    setDraft(null)
+  }
+
+  // The box being dragged stays on top so it can't be lost under the other one
+  const order: BoxKey[] = drag?.box === 'start' ? ['end', 'start'] : ['start', 'end']
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={containerRef}
+        className="relative aspect-video rounded-lg overflow-hidden bg-slate-900 select-none touch-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <img src={imageUrl} alt="" className="absolute inset-0 w-full h-full object-cover opacity-70" draggable={false} />
+        {order.map((box) => {
+          const rect = shown[box]
+          return (
+            <div
+              key={box}
+              className={`absolute border-2 cursor-move ${BOX_STYLES[box].className}`}
+              style={{
+                left: `${rect.x * 100}%`,
+                top: `${rect.y * 100}%`,
+                width: `${rect.width * 100}%`,
+                height: `${rect.height * 100}%`
+              }}
+              onPointerDown={(e) => startDrag(e, box, 'move')}
+            >
+              <span className="absolute top-0 left-0 px-1 text-[10px] font-medium text-white bg-black/60">
+                {BOX_STYLES[box].label} {getZoom(rect).toFixed(2)}x
+              </span>
+              <div
+                className="absolute -bottom-1 -right-1 w-3 h-3 rounded-sm bg-white cursor-nwse-resize"
+                onPointerDown={(e) => startDrag(e, box, 'resize')}
+              />
+            </div>
+          )
+        })}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Drag the boxes to set where the shot starts and ends; drag a corner to zoom.
+      </p>
+    </div>
+  )
+}
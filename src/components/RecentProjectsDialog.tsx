@@ -0,0 +1,240 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Check, Copy, Download, FolderOpen, Pencil, Plus, Trash2, Upload, X } from 'lucide-react'
+import {
+  ProjectSummary,
+  deleteProject,
+  duplicateProject,
+  listProjects,
+  renameProject
+} from '../lib/project-store'
+import { PROJECT_FILE_EXTENSION } from '../lib/project-file'
+
+interface RecentProjectsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  currentProjectId: string
+  onOpenProject: (id: string) => void
+  onNewProject: () => void
+  onImportProject: (file: File) => void
+  onExportProject: () => void
+  canExport: boolean
+  onProjectRenamed: (id: string, name: string) => void
+  onProjectDeleted: (id: string) => void
+}
+
+function formatDuration(seconds: number) {
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(0).padStart(2, '0')}`
+}
+
+export function RecentProjectsDialog({
+  open,
+  onOpenChange,
+  currentProjectId,
+  onOpenProject,
+  onNewProject,
+  onImportProject,
+  onExportProject,
+  canExport,
+  onProjectRenamed,
+  onProjectDeleted
+}: RecentProjectsDialogProps) {
+  const [projects, setProjects] = useState<ProjectSummary[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setProjects(await listProjects())
+    } catch (error) {
+      console.error('Error listing projects:', error)
+      toast.error('Could not read saved projects from this browser')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (open) {
+      refresh()
+    } else {
+      setEditingId(null)
+      setConfirmDeleteId(null)
+    }
+  }, [open, refresh])
+
+  const startRename = (project: ProjectSummary) => {
+    setEditingId(project.id)
+    setEditingName(project.name)
+  }
+
+  const commitRename = async () => {
+    const name = editingName.trim()
+    if (!editingId || !name) return
+
+    try {
+      await renameProject(editingId, name)
+      onProjectRenamed(editingId, name)
+      setEditingId(null)
+      refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not rename the project')
+    }
+  }
+
+  const handleDuplicate = async (project: ProjectSummary) => {
+    try {
+      await duplicateProject(project.id)
+      refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not duplicate the project')
+    }
+  }
+
+  const handleDelete = async (project: ProjectSummary) => {
+    try {
+      await deleteProject(project.id)
+      onProjectDeleted(project.id)
+      setConfirmDeleteId(null)
+      refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not delete the project')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Recent Projects</DialogTitle>
+          <DialogDescription>
+            Projects are saved automatically in this browser, including their audio and imported images.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-2">
+          <Button variant="outline" onClick={onNewProject}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Project
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import File
+          </Button>
+          <Button variant="outline" onClick={onExportProject} disabled={!canExport}>
+            <Download className="w-4 h-4 mr-2" />
+            Export Current
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`.${PROJECT_FILE_EXTENSION}`}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) onImportProject(file)
+              e.target.value = ''
+            }}
+          />
+        </div>
+
+        <div className="max-h-96 overflow-y-auto">
+          {isLoading && projects.length === 0 ? (
+            <p className="text-center py-8 text-sm text-muted-foreground">Loading projects...</p>
+          ) : projects.length === 0 ? (
+            <p className="text-center py-8 text-sm text-muted-foreground">No saved projects yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {projects.map((project) => (
+                <div
+                  key={project.id}
+                  className={`flex items-center space-x-3 p-3 rounded-lg ${
+                    project.id === currentProjectId ? 'bg-primary/10' : 'bg-muted/50'
+                  }`}
+                >
+                  <div className="flex-1 min-w-0">
+                    {editingId === project.id ? (
+                      <div className="flex items-center space-x-2">
+                        <Input
+                          value={editingName}
+                          onChange={(e) => setEditingName(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitRename()
+                            if (e.key === 'Escape') setEditingId(null)
+                          }}
+                          autoFocus
+                          className="h-8"
+                        />
+                        <Button variant="ghost" size="sm" onClick={commitRename}>
+                          <Check className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <>
+                        <h4 className="font-medium truncate">
+                          {project.name}
+                          {project.id === currentProjectId && (
+                            <span className="ml-2 text-xs text-primary">Current</span>
+                          )}
+                        </h4>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDuration(project.duration)} • {project.itemCount} item{project.itemCount !== 1 ? 's' : ''} • Edited {new Date(project.updatedAt).toLocaleString()}
+                        </p>
+                      </>
+                    )}
+                  </div>
+
+                  {editingId !== project.id && (
+                    <div className="flex items-center space-x-1">
+                      {confirmDeleteId === project.id ? (
+                        <>
+                          <Button variant="destructive" size="sm" onClick={() => handleDelete(project)}>
+                            Delete
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setConfirmDeleteId(null)}>
+                            Keep
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onOpenProject(project.id)}
+                            disabled={project.id === currentProjectId}
+                          >
+                            <FolderOpen className="w-4 h-4 mr-1" />
+                            Open
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => startRename(project)} title="Rename">
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDuplicate(project)} title="Duplicate">
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setConfirmDeleteId(project.id)} title="Delete">
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
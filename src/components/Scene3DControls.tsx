@@ -0,0 +1,76 @@
+import { useState } from 'react'
+import { Label } from './ui/label'
+import { Input } from './ui/input'
+import { Slider } from './ui/slider'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { MAX_SCENE_INTENSITY, SCENE3D_KINDS, Scene3DKind, Scene3DSettings } from '../lib/scene3d'
+
+interface Scene3DControlsProps {
+  settings: Scene3DSettings
+  onChange: (settings: Scene3DSettings, label: string) => void
+}
+
+export function Scene3DControls({ settings, onChange }: Scene3DControlsProps) {
+  // Like the visualizer controls, drags and colour picks show locally until they are committed
+  const [draftColor, setDraftColor] = useState<string | null>(null)
+  const [draftIntensity, setDraftIntensity] = useState<number | null>(null)
+  const color = draftColor ?? settings.color
+  const intensity = draftIntensity ?? settings.intensity
+
+  return (
+    <div className="space-y-3">
+      <Label>3D Scene</Label>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Select
+          value={settings.kind}
+          onValueChange={(value) => {
+            const kind = SCENE3D_KINDS.find(k => k.value === value)
+            onChange({ ...settings, kind: value as Scene3DKind }, `3D scene: ${kind?.label ?? value}`)
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SCENE3D_KINDS.map(kind => (
+              <SelectItem key={kind.value} value={kind.value}>{kind.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center space-x-2">
+          <Input
+            type="color"
+            value={color}
+            onChange={(e) => setDraftColor(e.target.value)}
+            onBlur={() => {
+              if (draftColor && draftColor !== settings.color) {
+                onChange({ ...settings, color: draftColor }, '3D scene color')
+              }
+              setDraftColor(null)
+            }}
+            className="w-16 h-9 p-1"
+          />
+          <span className="text-sm text-muted-foreground font-mono">{color}</span>
+        </div>
+
+        <div className="space-y-2 md:col-span-2">
+          <span className="text-xs text-muted-foreground">
+            Audio reactivity: {Math.round(intensity * 100)}%
+          </span>
+          <Slider
+            value={[intensity]}
+            onValueChange={(value) => setDraftIntensity(value[0])}
+            onValueCommit={(value) => {
+              setDraftIntensity(null)
+              onChange({ ...settings, intensity: value[0] }, '3D scene reactivity')
+            }}
+            min={0}
+            max={MAX_SCENE_INTENSITY}
+            step={0.05}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
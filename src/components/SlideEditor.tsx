@@ -0,0 +1,230 @@
+import { useRef, useState } from 'react'
+import { TimelineItem, VisualAsset } from '../App'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { ImagePlus } from 'lucide-react'
+import { CAPTION_FONTS } from '../lib/captions'
+import { MIN_CLIP_DURATION } from '../lib/timeline-edit'
+import { SLIDE_LAYOUTS, Slide, SlideLayout, SlideTextField, getSlideName, getSlideThumbnail } from '../lib/slides'
+
+interface SlideEditorProps {
+  item: TimelineItem
+  slide: Slide
+  // Media already on the timeline that can sit behind the slide
+  backgrounds: VisualAsset[]
+  onChange: (item: TimelineItem, label: string) => void
+}
+
+const NO_BACKGROUND = 'none'
+
+type Draft = Partial<Record<SlideTextField | 'textColor' | 'backgroundColor', string>>
+
+export function SlideEditor({ item, slide, backgrounds, onChange }: SlideEditorProps) {
+  // Text and colours show locally and only become a history entry when the field loses focus
+  const [draft, setDraft] = useState<Draft>({})
+  const [draftDuration, setDraftDuration] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const layout = SLIDE_LAYOUTS.find(l => l.value === slide.layout) ?? SLIDE_LAYOUTS[0]
+  const hasBackground = item.asset.type !== 'slide'
+
+  const clearDraft = (key: keyof Draft) => {
+    setDraft((prev) => {
+      const next = { ...prev }
+      delete next[key]
+      return next
+    })
+  }
+
+  // Plain slides use a drawing of their layout as the clip's image, so it follows every change
+  const updateSlide = (next: Slide, label: string) => {
+    const name = getSlideName(next)
+    const thumbnail = getSlideThumbnail(next)
+    const asset = hasBackground ? { ...item.asset, name } : { ...item.asset, name, url: thumbnail, thumbnail }
+    onChange({ ...item, slide: next, asset }, label)
+  }
+
+  const commitDraft = (key: keyof Draft, label: string) => {
+    const value = draft[key]
+    if (value !== undefined && value !== slide[key]) {
+      updateSlide({ ...slide, [key]: value }, label)
+    }
+    clearDraft(key)
+  }
+
+  const setBackground = (background: VisualAsset | null) => {
+    const name = getSlideName(slide)
+    if (!background) {
+      const thumbnail = getSlideThumbnail(slide)
+      onChange(
+        { ...item, asset: { id: item.asset.id, type: 'slide', url: thumbnail, thumbnail, name }, motion: undefined },
+        'Remove slide background'
+      )
+      return
+    }
+    // The slide keeps its own asset id, so it never merges with the clip the background came from
+    onChange(
+      { ...item, asset: { id: item.asset.id, type: background.type, url: background.url, thumbnail: background.thumbnail, name } },
+      `Slide background: ${background.name}`
+    )
+  }
+
+  const uploadBackground = (file: File) => {
+    const url = URL.createObjectURL(file)
+    setBackground({ id: `upload-${Date.now()}`, type: 'image', url, thumbnail: url, name: file.name })
+  }
+
+  const commitDuration = () => {
+    const duration = Number(draftDuration)
+    setDraftDuration(null)
+    if (draftDuration === null || !Number.isFinite(duration) || duration < MIN_CLIP_DURATION || duration === item.duration) return
+    onChange({ ...item, duration }, `Slide duration: ${duration}s`)
+  }
+
+  const backgroundOptions = backgrounds.filter((asset, i) => backgrounds.findIndex(a => a.url === asset.url) === i)
+  const isListed = backgroundOptions.some(asset => asset.url === item.asset.url)
+
+  return (
+    <div className="space-y-3">
+      <Label>Slide</Label>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Select
+          value={slide.layout}
+          onValueChange={(value) => {
+            const next = SLIDE_LAYOUTS.find(l => l.value === value)
+            updateSlide({ ...slide, layout: value as SlideLayout }, `Slide layout: ${next?.label ?? value}`)
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SLIDE_LAYOUTS.map(l => (
+              <SelectItem key={l.value} value={l.value}>{l.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={slide.font}
+          onValueChange={(value) => {
+            const font = CAPTION_FONTS.find(f => f.value === value)
+            updateSlide({ ...slide, font: value }, `Slide font: ${font?.label ?? value}`)
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CAPTION_FONTS.map(font => (
+              <SelectItem key={font.value} value={font.value}>{font.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {layout.fields.map(field => (
+        <div key={field.key} className="space-y-1">
+          <span className="text-xs text-muted-foreground">{field.label}</span>
+          {field.multiline ? (
+            <Textarea
+              value={draft[field.key] ?? slide[field.key]}
+              onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+              onBlur={() => commitDraft(field.key, `Edit slide ${field.label.split(',')[0].toLowerCase()}`)}
+              rows={4}
+            />
+          ) : (
+            <Input
+              value={draft[field.key] ?? slide[field.key]}
+              onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+              onBlur={() => commitDraft(field.key, `Edit slide ${field.label.toLowerCase()}`)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur()
+              }}
+            />
+          )}
+        </div>
+      ))}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {(['textColor', 'backgroundColor'] as const).map(key => (
+          <div key={key} className="space-y-1">
+            <span className="text-xs text-muted-foreground">{key === 'textColor' ? 'Text color' : 'Slide color'}</span>
+            <div className="flex items-center space-x-2">
+              <Input
+                type="color"
+                value={draft[key] ?? slide[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                onBlur={() => commitDraft(key, key === 'textColor' ? 'Slide text color' : 'Slide color')}
+                className="w-16 h-9 p-1"
+              />
+              <span className="text-sm text-muted-foreground font-mono">{draft[key] ?? slide[key]}</span>
+            </div>
+          </div>
+        ))}
+
+        <div className="space-y-1">
+          <span className="text-xs text-muted-foreground">Duration (s)</span>
+          <Input
+            type="number"
+            min={MIN_CLIP_DURATION}
+            step={0.5}
+            value={draftDuration ?? item.duration.toFixed(2)}
+            onChange={(e) => setDraftDuration(e.target.value)}
+            onBlur={commitDuration}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur()
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-xs text-muted-foreground">
+          {slide.layout === 'image-caption' ? 'Image' : 'Background'}
+        </span>
+        <div className="flex items-center gap-2">
+          <Select
+            value={hasBackground ? item.asset.url : NO_BACKGROUND}
+            onValueChange={(value) => setBackground(value === NO_BACKGROUND ? null : backgroundOptions.find(a => a.url === value) ?? null)}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_BACKGROUND}>None (slide color)</SelectItem>
+              {hasBackground && !isListed && (
+                <SelectItem value={item.asset.url}>Uploaded image</SelectItem>
+              )}
+              {backgroundOptions.map(asset => (
+                <SelectItem key={asset.url} value={asset.url}>{asset.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <ImagePlus className="w-4 h-4 mr-2" />
+            Upload
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) uploadBackground(file)
+              e.target.value = ''
+            }}
+          />
+        </div>
+        {backgroundOptions.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            Upload an image, or add images and videos to the timeline to use them here.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,28 +3,102 @@ import { AudioFile, TimelineItem } from '../App'
 import { Button } from './ui/button'
 import { Card } from './ui/card'
 import { Slider } from './ui/slider'
-import { Play, Pause, SkipBack, SkipForward, Volume2, Wand2 } from 'lucide-react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Play, Pause, SkipBack, SkipForward, Volume2, Wand2, X, Activity, LayoutGrid, Move, AudioLines, Box, Presentation, Album } from 'lucide-react'
+import { FRAME_RATES } from '../lib/video-renderer'
+import { computePeaks, findSilenceGaps } from '../lib/audio'
+import { BeatAnalysis, getBeatCutTimes } from '../lib/beat-detection'
+import { ARRANGE_FITS, ARRANGE_SNAPS, ArrangeFit, ArrangeSnap, arrangeTimeline } from '../lib/auto-arrange'
+import { useDecodedAudio } from '../hooks/use-decoded-audio'
+import { createAutoMotion } from '../lib/motion'
+import { isStillAsset } from '../lib/compositor'
+import { TimelineTracks } from './TimelineTracks'
+import { CaptionEditor } from './CaptionEditor'
+import { DeckImporter } from './DeckImporter'
+import { AudioTrimControls } from './AudioTrimControls'
+import { AudioMixer } from './AudioMixer'
+import { DeckPage } from '../lib/deck-import'
+import { CaptionTrack } from '../lib/captions'
+import { AudioTrim, createTrim, getAudioRegion, getFadeGain } from '../lib/audio-trim'
+import { AudioMix } from '../lib/audio-mix'
 
 interface TimelineEditorProps {
   audioFile: AudioFile
   timelineItems: TimelineItem[]
-  onTimelineUpdate: (items: TimelineItem[]) => void
+  beatAnalysis: BeatAnalysis | null
+  isAnalyzingBeats: boolean
+  onTimelineUpdate: (items: TimelineItem[], label: string) => void
+  onAddVisualizer: () => void
+  onAddScene3D: () => void
+  onAddSlide: () => void
+  // Fills an empty timeline from the audio's cover art and tags
+  onCreateAudiogram: () => void
+  onImportDeck: (name: string, pages: DeckPage[], startTimes: number[]) => void
+  captions: CaptionTrack
+  onCaptionsUpdate: (captions: CaptionTrack, label: string) => void
   onGenerateVideo: () => void
+  onCancelGenerate: () => void
   isGenerating: boolean
+  renderProgress: number
+  frameRate: number
+  onFrameRateChange: (fps: number) => void
+  audioTrim: AudioTrim | null
+  onAudioTrimChange: (trim: AudioTrim | null, label: string) => void
+  audioMix: AudioMix
+  onAudioMixChange: (mix: AudioMix, label: string) => void
+}
+
+// How close, in screen pixels, a press must be to an in/out point to drag it
+const HANDLE_GRAB_DISTANCE = 6
+// A press that moves less than this is a click to seek, not a new selection
+const DRAG_THRESHOLD = 4
+
+interface WaveformDrag {
+  mode: 'select' | 'in' | 'out'
+  // The point that stays put while the other follows the pointer
+  anchor: number
+  startX: number
+  moved: boolean
 }
 
 export function TimelineEditor({ 
   audioFile, 
   timelineItems, 
-  onTimelineUpdate, 
+  beatAnalysis,
+  isAnalyzingBeats,
+  onTimelineUpdate,
+  onAddVisualizer,
+  onAddScene3D,
+  onAddSlide,
+  onCreateAudiogram,
+  onImportDeck,
+  captions,
+  onCaptionsUpdate,
   onGenerateVideo,
-  isGenerating 
+  onCancelGenerate,
+  isGenerating,
+  renderProgress,
+  frameRate,
+  onFrameRateChange,
+  audioTrim,
+  onAudioTrimChange,
+  audioMix,
+  onAudioMixChange
 }: TimelineEditorProps) {
   const [isPlaying, setIsPlaying] = useState(false)
   const [currentTime, setCurrentTime] = useState(0)
   const [volume, setVolume] = useState([75])
+  const [showBeats, setShowBeats] = useState(true)
+  const [arrangeFit, setArrangeFit] = useState<ArrangeFit>('stretch')
+  const [arrangeSnap, setArrangeSnap] = useState<ArrangeSnap>('none')
+  // The in/out points being dragged on the waveform, before they become a history entry
+  const [selection, setSelection] = useState<{ from: number, to: number } | null>(null)
+  const dragRef = useRef<WaveformDrag | null>(null)
   const audioRef = useRef<HTMLAudioElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null)
+  const { buffer: audioBuffer, error: decodeError, isDecoding } = useDecodedAudio(audioFile)
+  const region = getAudioRegion(audioTrim, audioFile.duration)
 
   useEffect(() => {
     const audio = audioRef.current
@@ -63,29 +137,87 @@ export function TimelineEditor({
 
     const width = canvas.width
     const height = canvas.height
+    const center = height / 2
 
     // Clear canvas
     ctx.clearRect(0, 0, width, height)
 
-    // Draw waveform background
-    ctx.fillStyle = '#e5e7eb'
-    ctx.fillRect(0, height / 2 - 20, width, 40)
+    // Draw center line while decoding, or if the audio could not be decoded
+    if (!audioBuffer) {
+      ctx.fillStyle = '#e5e7eb'
+      ctx.fillRect(0, center - 1, width, 2)
+      return
+    }
 
-    // Draw mock waveform
+    // Draw waveform from the decoded peaks, one column per pixel
+    const { min, max } = computePeaks(audioBuffer, width)
     ctx.fillStyle = '#6366f1'
-    const barWidth = 2
-    const barSpacing = 1
-    const numBars = Math.floor(width / (barWidth + barSpacing))
-
-    for (let i = 0; i < numBars; i++) {
-      const x = i * (barWidth + barSpacing)
-      const barHeight = Math.random() * 40 + 5
-      const y = height / 2 - barHeight / 2
-      
-      ctx.fillRect(x, y, barWidth, barHeight)
+    for (let x = 0; x < width; x++) {
+      const top = center - max[x] * center
+      const bottom = center - min[x] * center
+      ctx.fillRect(x, top, 1, Math.max(1, bottom - top))
+    }
+
+    // Draw beat markers, with downbeats emphasized
+    if (showBeats && beatAnalysis) {
+      const downbeats = new Set(beatAnalysis.downbeats)
+      for (const beat of beatAnalysis.beats) {
+        const x = Math.round((beat / audioFile.duration) * width) + 0.5
+        const isDownbeat = downbeats.has(beat)
+        ctx.strokeStyle = isDownbeat ? 'rgba(236, 72, 153, 0.8)' : 'rgba(236, 72, 153, 0.3)'
+        ctx.lineWidth = 1
+        ctx.beginPath()
+        ctx.moveTo(x, isDownbeat ? 0 : height * 0.8)
+        ctx.lineTo(x, height)
+        ctx.stroke()
+      }
+    }
+  }, [audioBuffer, audioFile, beatAnalysis, showBeats])
+
+  const drawOverlay = useCallback(() => {
+    const canvas = overlayCanvasRef.current
+    if (!canvas) return
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    const width = canvas.width
+    const height = canvas.height
+    ctx.clearRect(0, 0, width, height)
+
+    // Shade the audio outside the trim and draw its in/out points and fade envelope
+    const trim = selection ? createTrim(selection.from, selection.to, audioFile.duration, audioTrim) : audioTrim
+    if (trim) {
+      const toX = (time: number) => (time / audioFile.duration) * width
+      const inX = toX(trim.start)
+      const outX = toX(trim.end)
+      ctx.fillStyle = 'rgba(15, 23, 42, 0.45)'
+      ctx.fillRect(0, 0, inX, height)
+      ctx.fillRect(outX, 0, width - outX, height)
+
+      ctx.strokeStyle = '#10b981'
+      ctx.lineWidth = 2
+      for (const x of [inX, outX]) {
+        ctx.beginPath()
+        ctx.moveTo(x, 0)
+        ctx.lineTo(x, height)
+        ctx.stroke()
+      }
+
+      if (trim.fadeIn > 0 || trim.fadeOut > 0) {
+        ctx.strokeStyle = 'rgba(16, 185, 129, 0.9)'
+        ctx.lineWidth = 1.5
+        ctx.beginPath()
+        for (let x = Math.floor(inX); x <= Math.ceil(outX); x++) {
+          const gain = getFadeGain(trim, Math.min(trim.end, Math.max(trim.start, (x / width) * audioFile.duration)))
+          const y = height - gain * (height - 2) - 1
+          if (x === Math.floor(inX)) ctx.moveTo(x, y)
+          else ctx.lineTo(x, y)
+        }
+        ctx.stroke()
+      }
     }
 
-    // Draw playhead
     const playheadX = (currentTime / audioFile.duration) * width
     ctx.strokeStyle = '#f59e0b'
     ctx.lineWidth = 2
@@ -93,11 +225,15 @@ export function TimelineEditor({
     ctx.moveTo(playheadX, 0)
     ctx.lineTo(playheadX, height)
     ctx.stroke()
-  }, [audioFile, currentTime])
+  }, [audioFile, audioTrim, currentTime, selection])
 
   useEffect(() => {
     drawWaveform()
-  }, [audioFile, currentTime, drawWaveform])
+  }, [drawWaveform])
+
+  useEffect(() => {
+    drawOverlay()
+  }, [drawOverlay])
 
   const togglePlayPause = () => {
     const audio = audioRef.current
@@ -119,20 +255,115 @@ export function TimelineEditor({
     setCurrentTime(time)
   }
 
+  // Tapping captions always runs through the song from the top
+  const playFromStart = () => {
+    const audio = audioRef.current
+    if (!audio) return
+
+    seekTo(0)
+    audio.play().then(() => setIsPlaying(true)).catch((error) => {
+      console.error('Error starting playback:', error)
+      setIsPlaying(false)
+    })
+  }
+
+  const getSnapTimes = (snap: ArrangeSnap) => {
+    switch (snap) {
+      case 'beats':
+        return beatAnalysis?.beats ?? []
+      case 'bars':
+        return beatAnalysis ? getBeatCutTimes(beatAnalysis, 4) : []
+      case 'silence':
+        return audioBuffer ? findSilenceGaps(audioBuffer).map(gap => (gap.start + gap.end) / 2) : []
+      default:
+        return []
+    }
+  }
+
+  // Clips are arranged over the trimmed region, so they line up with what the video will play
+  const autoArrange = () => {
+    onTimelineUpdate(arrangeTimeline(timelineItems, {
+      fit: arrangeFit,
+      totalDuration: region.duration,
+      startTime: region.start,
+      snapTimes: getSnapTimes(arrangeSnap)
+    }), 'Auto-arrange')
+  }
+
+  const stillCount = timelineItems.filter(item => isStillAsset(item.asset)).length
+
+  const autoKenBurns = () => {
+    onTimelineUpdate(
+      timelineItems.map(item => isStillAsset(item.asset) ? { ...item, motion: createAutoMotion() } : item),
+      'Auto Ken Burns'
+    )
+  }
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
     const secs = Math.floor(seconds % 60)
     return `${mins}:${secs.toString().padStart(2, '0')}`
   }
 
-  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current
-    if (!canvas) return
+  const getPointerTime = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const x = Math.min(Math.max(0, e.clientX - rect.left), rect.width)
+    return (x / rect.width) * audioFile.duration
+  }
 
-    const rect = canvas.getBoundingClientRect()
+  // The in or out point under the pointer, if it is close enough to grab
+  const getHandleAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!audioTrim) return null
+    const rect = e.currentTarget.getBoundingClientRect()
     const x = e.clientX - rect.left
-    const clickTime = (x / canvas.width) * audioFile.duration
-    seekTo(clickTime)
+    const distance = (time: number) => Math.abs((time / audioFile.duration) * rect.width - x)
+    if (distance(audioTrim.start) <= HANDLE_GRAB_DISTANCE) return 'in'
+    if (distance(audioTrim.end) <= HANDLE_GRAB_DISTANCE) return 'out'
+    return null
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const handle = getHandleAt(e)
+    dragRef.current = {
+      mode: handle ?? 'select',
+      anchor: handle === 'in' ? region.end : handle === 'out' ? region.start : getPointerTime(e),
+      startX: e.clientX,
+      moved: handle !== null
+    }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current
+    if (!drag) {
+      e.currentTarget.style.cursor = getHandleAt(e) ? 'ew-resize' : ''
+      return
+    }
+    if (!drag.moved && Math.abs(e.clientX - drag.startX) < DRAG_THRESHOLD) return
+    drag.moved = true
+    setSelection({ from: drag.anchor, to: getPointerTime(e) })
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current
+    dragRef.current = null
+    if (!drag) return
+
+    if (!drag.moved) {
+      seekTo(getPointerTime(e))
+      return
+    }
+    setSelection(null)
+    const trim = createTrim(drag.anchor, getPointerTime(e), audioFile.duration, audioTrim)
+    if (audioTrim && trim.start === audioTrim.start && trim.end === audioTrim.end) return
+    const label = drag.mode === 'in' ? 'Move in point' : drag.mode === 'out' ? 'Move out point' : 'Select audio region'
+    onAudioTrimChange(trim, label)
+  }
+
+  const handlePointerCancel = () => {
+    dragRef.current = null
+    setSelection(null)
   }
 
   return (
@@ -145,24 +376,50 @@ export function TimelineEditor({
           </p>
         </div>
         
-        <Button 
-          onClick={onGenerateVideo}
-          disabled={isGenerating || timelineItems.length === 0}
-          size="lg"
-          className="px-6"
-        >
-          {isGenerating ? (
-            <>
-              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-              Generating...
-            </>
-          ) : (
-            <>
-              <Wand2 className="w-4 h-4 mr-2" />
-              Generate Video
-            </>
+        <div className="flex items-center space-x-2">
+          <Select
+            value={frameRate.toString()}
+            onValueChange={(value) => onFrameRateChange(Number(value))}
+            disabled={isGenerating}
+          >
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FRAME_RATES.map((fps) => (
+                <SelectItem key={fps} value={fps.toString()}>
+                  {fps} fps
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Button 
+            onClick={onGenerateVideo}
+            disabled={isGenerating || (timelineItems.length === 0 && captions.lines.length === 0)}
+            size="lg"
+            className="px-6"
+          >
+            {isGenerating ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                Rendering {renderProgress}%
+              </>
+            ) : (
+              <>
+                <Wand2 className="w-4 h-4 mr-2" />
+                Generate Video
+              </>
+            )}
+          </Button>
+
+          {isGenerating && (
+            <Button variant="outline" size="lg" onClick={onCancelGenerate}>
+              <X className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
           )}
-        </Button>
+        </div>
       </div>
 
       {/* Audio Controls */}
@@ -211,62 +468,175 @@ export function TimelineEditor({
 
       {/* Waveform */}
       <Card className="p-4">
-        <canvas
-          ref={canvasRef}
-          width={800}
-          height={100}
-          className="w-full h-24 cursor-pointer border rounded"
-          onClick={handleCanvasClick}
+        <div className="relative h-24">
+          <canvas
+            ref={canvasRef}
+            width={800}
+            height={100}
+            className="absolute inset-0 w-full h-full border rounded"
+          />
+          <canvas
+            ref={overlayCanvasRef}
+            width={800}
+            height={100}
+            className="absolute inset-0 w-full h-full cursor-pointer touch-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerCancel}
+          />
+        </div>
+        <div className="mt-2 flex items-center justify-between text-sm text-muted-foreground">
+          <span className="flex items-center">
+            <Activity className="w-4 h-4 mr-2" />
+            {isAnalyzingBeats
+              ? 'Detecting beats...'
+              : beatAnalysis && beatAnalysis.bpm > 0
+                ? `${Math.round(beatAnalysis.bpm)} BPM • ${beatAnalysis.beats.length} beats`
+                : 'No beat detected'}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowBeats(!showBeats)}
+            disabled={!beatAnalysis || beatAnalysis.beats.length === 0}
+          >
+            {showBeats ? 'Hide Beats' : 'Show Beats'}
+          </Button>
+        </div>
+        {(isDecoding || decodeError) && (
+          <p className="mt-2 text-sm text-muted-foreground">
+            {decodeError ? 'Could not decode this audio file, the waveform is unavailable.' : 'Analyzing audio...'}
+          </p>
+        )}
+      </Card>
+
+      {/* Trim & Fades */}
+      <Card className="p-4">
+        <h3 className="text-lg font-semibold mb-4">Trim &amp; Fades</h3>
+        <AudioTrimControls
+          trim={audioTrim}
+          audioDuration={audioFile.duration}
+          getCurrentTime={() => audioRef.current?.currentTime ?? currentTime}
+          onChange={onAudioTrimChange}
+        />
+      </Card>
+
+      {/* Audio Mix */}
+      <Card className="p-4">
+        <h3 className="text-lg font-semibold mb-1">Audio Mix</h3>
+        <p className="text-sm text-muted-foreground mb-4">Heard in the preview and the export.</p>
+        <AudioMixer
+          audioFile={audioFile}
+          mix={audioMix}
+          getCurrentTime={() => audioRef.current?.currentTime ?? currentTime}
+          onChange={onAudioMixChange}
         />
       </Card>
 
       {/* Timeline Items */}
       <Card className="p-4">
-        <h3 className="text-lg font-semibold mb-4">Visual Timeline</h3>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h3 className="text-lg font-semibold">Visual Timeline</h3>
+
+          <div className="flex items-center space-x-2">
+            <Select value={arrangeFit} onValueChange={(value) => setArrangeFit(value as ArrangeFit)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ARRANGE_FITS.map((fit) => (
+                  <SelectItem key={fit.value} value={fit.value}>{fit.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={arrangeSnap} onValueChange={(value) => setArrangeSnap(value as ArrangeSnap)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ARRANGE_SNAPS.map((snap) => (
+                  <SelectItem
+                    key={snap.value}
+                    value={snap.value}
+                    disabled={snap.value === 'silence' ? !audioBuffer : (snap.value !== 'none' && !beatAnalysis?.beats.length)}
+                  >
+                    {snap.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={autoArrange} disabled={timelineItems.length === 0}>
+              <LayoutGrid className="w-4 h-4 mr-2" />
+              Auto-arrange
+            </Button>
+            <Button variant="outline" onClick={autoKenBurns} disabled={stillCount === 0}>
+              <Move className="w-4 h-4 mr-2" />
+              Ken Burns
+            </Button>
+            <Button variant="outline" onClick={onAddVisualizer}>
+              <AudioLines className="w-4 h-4 mr-2" />
+              Visualizer
+            </Button>
+            <Button variant="outline" onClick={onAddScene3D}>
+              <Box className="w-4 h-4 mr-2" />
+              3D Scene
+            </Button>
+            <Button variant="outline" onClick={onAddSlide}>
+              <Presentation className="w-4 h-4 mr-2" />
+              Slide
+            </Button>
+          </div>
+        </div>
         
-        {timelineItems.length === 0 ? (
+        {timelineItems.length === 0 && captions.lines.length === 0 ? (
           <div className="text-center py-8 text-muted-foreground">
             <p>No visual elements added yet.</p>
-            <p className="text-sm">Add images, videos, or clipart from the library above.</p>
+            <p className="text-sm">Add images, videos, or clipart from the library above, or add a slide.</p>
+            <Button variant="outline" className="mt-4" onClick={onCreateAudiogram}>
+              <Album className="w-4 h-4 mr-2" />
+              Create Audiogram
+            </Button>
           </div>
         ) : (
-          <div className="space-y-3">
-            {timelineItems.map((item, index) => (
-              <div
-                key={item.id}
-                className="flex items-center space-x-4 p-3 bg-muted/50 rounded-lg"
-              >
-                <img
-                  src={item.asset.thumbnail}
-                  alt={item.asset.name}
-                  className="w-12 h-12 object-cover rounded"
-                />
-                
-                <div className="flex-1">
-                  <h4 className="font-medium">{item.asset.name}</h4>
-                  <p className="text-sm text-muted-foreground">
-                    {formatTime(item.startTime)} - {formatTime(item.startTime + item.duration)}
-                  </p>
-                </div>
-                
-                <div className="flex items-center space-x-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => {
-                      const newItems = timelineItems.filter(t => t.id !== item.id)
-                      onTimelineUpdate(newItems)
-                    }}
-                  >
-                    Remove
-                  </Button>
-                </div>
-              </div>
-            ))}
-          </div>
+          <TimelineTracks
+            items={timelineItems}
+            captions={captions.lines}
+            duration={audioFile.duration}
+            trimRegion={audioTrim ? region : null}
+            currentTime={currentTime}
+            beats={beatAnalysis?.beats ?? []}
+            onItemsChange={onTimelineUpdate}
+            onCaptionsChange={(lines, label) => onCaptionsUpdate({ ...captions, lines }, label)}
+            onSeek={seekTo}
+          />
         )}
       </Card>
 
+      {/* Slide Deck */}
+      <Card className="p-4">
+        <h3 className="text-lg font-semibold mb-4">Slide Deck</h3>
+        <DeckImporter
+          region={region}
+          getCurrentTime={() => audioRef.current?.currentTime ?? currentTime}
+          onAdd={onImportDeck}
+        />
+      </Card>
+
+      {/* Captions */}
+      <Card className="p-4">
+        <h3 className="text-lg font-semibold mb-4">Captions &amp; Lyrics</h3>
+        <CaptionEditor
+          captions={captions}
+          duration={audioFile.duration}
+          audioBuffer={audioBuffer}
+          fileBaseName={audioFile.name.replace(/\.[^.]+$/, '')}
+          getCurrentTime={() => audioRef.current?.currentTime ?? currentTime}
+          onStartTapping={playFromStart}
+          onChange={onCaptionsUpdate}
+        />
+      </Card>
+
       <audio ref={audioRef} src={audioFile.url} preload="metadata" />
     </div>
   )
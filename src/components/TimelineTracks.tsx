@@ -0,0 +1,498 @@
+import { useMemo, useState } from 'react'
+import {
+  DndContext,
+  DragEndEvent,
+  DragMoveEvent,
+  DragStartEvent,
+  PointerSensor,
+  pointerWithin,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors
+} from '@dnd-kit/core'
+import { TimelineItem } from '../App'
+import { Button } from './ui/button'
+import { Slider } from './ui/slider'
+import { Blend, Magnet, X, ZoomIn } from 'lucide-react'
+import { ClipEdge, ClipGeometry, applyClipDrag, compactTracks, getSnapTimes } from '../lib/timeline-edit'
+import { findPreviousClip, getTransitionWindow } from '../lib/transitions'
+import { ClipInspector } from './ClipInspector'
+import { CaptionInspector } from './CaptionInspector'
+import { Caption } from '../lib/captions'
+import { AudioRegion } from '../lib/audio-trim'
+
+interface TimelineTracksProps {
+  items: TimelineItem[]
+  captions: Caption[]
+  duration: number
+  // The trimmed part of the audio, when it is trimmed; the rest is shaded as outside the video
+  trimRegion: AudioRegion | null
+  currentTime: number
+  beats: number[]
+  onItemsChange: (items: TimelineItem[], label: string) => void
+  onCaptionsChange: (captions: Caption[], label: string) => void
+  onSeek: (time: number) => void
+}
+
+// Drag payload shared by clips, caption lines and their edge handles
+interface DragData {
+  itemId: string
+  edge: ClipEdge
+  isCaption: boolean
+}
+
+interface ActiveDrag {
+  itemId: string
+  edge: ClipEdge
+  isCaption: boolean
+  deltaX: number
+  overTrack: number | null
+}
+
+const TRACK_HEIGHT = 56
+const LABEL_WIDTH = 80
+const SNAP_DISTANCE_PX = 8
+const RULER_STEPS = [0.5, 1, 2, 5, 10, 15, 30, 60]
+const MIN_TICK_SPACING_PX = 60
+
+function formatTime(seconds: number) {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+function TrackLane({ track, label, children }: { track: number, label: string, children?: React.ReactNode }) {
+  const { setNodeRef, isOver } = useDroppable({ id: `track-${track}`, data: { track } })
+
+  return (
+    <div className="flex border-b last:border-b-0" style={{ height: TRACK_HEIGHT }}>
+      <div className="sticky left-0 z-20 w-20 flex-shrink-0 flex items-center px-2 text-xs text-muted-foreground bg-card border-r">
+        {label}
+      </div>
+      <div
+        ref={setNodeRef}
+        className={`relative flex-1 transition-colors ${isOver ? 'bg-primary/10' : ''}`}
+      >
+        {children}
+      </div>
+    </div>
+  )
+}
+
+function ClipHandle({ itemId, edge, isCaption = false }: { itemId: string, edge: 'start' | 'end', isCaption?: boolean }) {
+  const data: DragData = { itemId, edge, isCaption }
+  const { setNodeRef, listeners, attributes } = useDraggable({ id: `${itemId}:${edge}`, data })
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      // Keep the pointer from also starting a move on the clip underneath
+      onPointerDown={(e) => {
+        e.stopPropagation()
+        listeners?.onPointerDown?.(e)
+      }}
+      className={`absolute top-0 bottom-0 w-2 z-10 cursor-ew-resize bg-white/40 opacity-0 group-hover:opacity-100 ${
+        edge === 'start' ? 'left-0 rounded-l' : 'right-0 rounded-r'
+      }`}
+    />
+  )
+}
+
+interface TimelineClipProps {
+  item: TimelineItem
+  geometry: ClipGeometry
+  pixelsPerSecond: number
+  // Seconds of this clip covered by the transition in from the previous clip
+  transitionLength: number
+  isSelected: boolean
+  isDragging: boolean
+  onSelect: () => void
+  onRemove: () => void
+}
+
+function TimelineClip({
+  item,
+  geometry,
+  pixelsPerSecond,
+  transitionLength,
+  isSelected,
+  isDragging,
+  onSelect,
+  onRemove
+}: TimelineClipProps) {
+  const data: DragData = { itemId: item.id, edge: 'move', isCaption: false }
+  const { setNodeRef, listeners, attributes } = useDraggable({ id: item.id, data })
+  const trackOffset = (item.track - geometry.track) * TRACK_HEIGHT
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      onClick={onSelect}
+      className={`group absolute top-1 bottom-1 rounded overflow-hidden border-2 bg-muted cursor-grab select-none ${
+        isSelected ? 'border-primary' : 'border-transparent'
+      } ${isDragging ? 'z-30 opacity-80 shadow-lg cursor-grabbing' : 'z-0'}`}
+      style={{
+        left: geometry.startTime * pixelsPerSecond,
+        width: Math.max(4, geometry.duration * pixelsPerSecond),
+        transform: trackOffset ? `translateY(${trackOffset}px)` : undefined
+      }}
+    >
+      <img
+        src={item.asset.thumbnail}
+        alt={item.asset.name}
+        className="absolute inset-0 w-full h-full object-cover opacity-60 pointer-events-none"
+        draggable={false}
+      />
+      {transitionLength > 0 && (
+        <div
+          className="absolute inset-y-0 left-0 bg-gradient-to-r from-primary/70 to-transparent pointer-events-none"
+          style={{ width: transitionLength * pixelsPerSecond }}
+        >
+          <Blend className="absolute bottom-1 left-1 w-3 h-3 text-white" />
+        </div>
+      )}
+      <div className="relative px-2 py-1 text-xs text-white drop-shadow">
+        <p className="font-medium truncate">{item.asset.name}</p>
+        <p className="opacity-80">{geometry.duration.toFixed(1)}s</p>
+      </div>
+      <button
+        className="absolute top-1 right-2 z-10 w-4 h-4 rounded-full bg-black/60 text-white flex items-center justify-center opacity-0 group-hover:opacity-100"
+        onPointerDown={(e) => e.stopPropagation()}
+        onClick={(e) => {
+          e.stopPropagation()
+          onRemove()
+        }}
+        aria-label={`Remove ${item.asset.name}`}
+      >
+        <X className="w-3 h-3" />
+      </button>
+      <ClipHandle itemId={item.id} edge="start" />
+      <ClipHandle itemId={item.id} edge="end" />
+    </div>
+  )
+}
+
+interface CaptionClipProps {
+  caption: Caption
+  geometry: ClipGeometry
+  pixelsPerSecond: number
+  isSelected: boolean
+  isDragging: boolean
+  onSelect: () => void
+}
+
+function CaptionClip({ caption, geometry, pixelsPerSecond, isSelected, isDragging, onSelect }: CaptionClipProps) {
+  const data: DragData = { itemId: caption.id, edge: 'move', isCaption: true }
+  const { setNodeRef, listeners, attributes } = useDraggable({ id: caption.id, data })
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      onClick={onSelect}
+      className={`group absolute top-1 bottom-1 rounded overflow-hidden border-2 bg-amber-500/20 cursor-grab select-none ${
+        isSelected ? 'border-primary' : 'border-amber-500/40'
+      } ${isDragging ? 'z-30 opacity-80 shadow-lg cursor-grabbing' : 'z-0'}`}
+      style={{
+        left: geometry.startTime * pixelsPerSecond,
+        width: Math.max(4, geometry.duration * pixelsPerSecond)
+      }}
+    >
+      <p className="px-2 py-1 text-xs truncate">{caption.text}</p>
+      <ClipHandle itemId={caption.id} edge="start" isCaption />
+      <ClipHandle itemId={caption.id} edge="end" isCaption />
+    </div>
+  )
+}
+
+export function TimelineTracks({
+  items,
+  captions,
+  duration,
+  trimRegion,
+  currentTime,
+  beats,
+  onItemsChange,
+  onCaptionsChange,
+  onSeek
+}: TimelineTracksProps) {
+  const [pixelsPerSecond, setPixelsPerSecond] = useState(40)
+  const [snapEnabled, setSnapEnabled] = useState(true)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [activeDrag, setActiveDrag] = useState<ActiveDrag | null>(null)
+
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 4 } }))
+
+  const trackCount = items.reduce((count, item) => Math.max(count, item.track + 1), 1)
+  const timelineEnd = Math.max(duration, ...[...items, ...captions].map(span => span.startTime + span.duration))
+  const contentWidth = LABEL_WIDTH + Math.ceil(timelineEnd * pixelsPerSecond) + 80
+  const tickStep = RULER_STEPS.find(step => step * pixelsPerSecond >= MIN_TICK_SPACING_PX) ?? 60
+
+  const draggingId = activeDrag?.itemId ?? null
+  const snapTimes = useMemo(() => {
+    if (!draggingId || !snapEnabled) return []
+    return getSnapTimes([...items, ...captions], draggingId, currentTime, beats)
+  }, [draggingId, snapEnabled, items, captions, currentTime, beats])
+
+  // Caption lines have no track of their own; they always stay on the caption lane
+  const getCaptionGeometry = (caption: Caption): ClipGeometry => ({ startTime: caption.startTime, duration: caption.duration, track: 0 })
+
+  const getGeometry = (item: TimelineItem | Caption): ClipGeometry => {
+    const current = 'track' in item ? { startTime: item.startTime, duration: item.duration, track: item.track } : getCaptionGeometry(item)
+    if (!activeDrag || activeDrag.itemId !== item.id) {
+      return current
+    }
+    return applyClipDrag(
+      current,
+      activeDrag.edge,
+      activeDrag.deltaX / pixelsPerSecond,
+      activeDrag.overTrack ?? current.track,
+      snapTimes,
+      SNAP_DISTANCE_PX / pixelsPerSecond
+    )
+  }
+
+  const getOverTrack = (event: DragMoveEvent | DragEndEvent) => {
+    const track = event.over?.data.current?.track
+    return typeof track === 'number' ? track : null
+  }
+
+  const handleDragStart = (event: DragStartEvent) => {
+    const { itemId, edge, isCaption } = event.active.data.current as DragData
+    setSelectedId(itemId)
+    setActiveDrag({ itemId, edge, isCaption, deltaX: 0, overTrack: null })
+  }
+
+  const handleDragMove = (event: DragMoveEvent) => {
+    setActiveDrag(prev => prev && {
+      ...prev,
+      deltaX: event.delta.x,
+      overTrack: prev.edge === 'move' && !prev.isCaption ? getOverTrack(event) : null
+    })
+  }
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const drag = activeDrag && {
+      ...activeDrag,
+      deltaX: event.delta.x,
+      overTrack: activeDrag.edge === 'move' && !activeDrag.isCaption ? getOverTrack(event) : null
+    }
+    setActiveDrag(null)
+    if (!drag) return
+
+    if (drag.isCaption) {
+      const caption = captions.find(c => c.id === drag.itemId)
+      if (!caption) return
+      const { startTime, duration } = applyClipDrag(
+        getCaptionGeometry(caption),
+        drag.edge,
+        drag.deltaX / pixelsPerSecond,
+        0,
+        snapTimes,
+        SNAP_DISTANCE_PX / pixelsPerSecond
+      )
+      if (startTime === caption.startTime && duration === caption.duration) return
+      onCaptionsChange(
+        captions.map(c => c.id === caption.id ? { ...c, startTime, duration } : c),
+        drag.edge === 'move' ? 'Move caption' : 'Trim caption'
+      )
+      return
+    }
+
+    const item = items.find(i => i.id === drag.itemId)
+    if (!item) return
+
+    const geometry = applyClipDrag(
+      item,
+      drag.edge,
+      drag.deltaX / pixelsPerSecond,
+      drag.overTrack ?? item.track,
+      snapTimes,
+      SNAP_DISTANCE_PX / pixelsPerSecond
+    )
+    if (geometry.startTime === item.startTime && geometry.duration === item.duration && geometry.track === item.track) {
+      return
+    }
+
+    const updated = items.map(i => i.id === item.id ? { ...i, ...geometry } : i)
+    onItemsChange(compactTracks(updated), drag.edge === 'move' ? `Move ${item.asset.name}` : `Trim ${item.asset.name}`)
+  }
+
+  const removeItem = (item: TimelineItem) => {
+    onItemsChange(compactTracks(items.filter(i => i.id !== item.id)), `Remove ${item.asset.name}`)
+    if (selectedId === item.id) setSelectedId(null)
+  }
+
+  const getTransitionLength = (item: TimelineItem) => {
+    if (!item.transition) return 0
+    const previous = findPreviousClip(items, item)
+    if (!previous) return 0
+    const window = getTransitionWindow(previous, item, item.transition)
+    return window.end - item.startTime
+  }
+
+  const selectedItem = items.find(item => item.id === selectedId) ?? null
+  const selectedCaption = captions.find(caption => caption.id === selectedId) ?? null
+
+  const handleRulerClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    onSeek(Math.min(duration, Math.max(0, (e.clientX - rect.left) / pixelsPerSecond)))
+  }
+
+  // Higher tracks draw on top, so list them first like an NLE; one spare lane accepts new tracks
+  const lanes = Array.from({ length: trackCount + 1 }, (_, i) => trackCount - i)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Button
+          variant={snapEnabled ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => setSnapEnabled(!snapEnabled)}
+        >
+          <Magnet className="w-4 h-4 mr-2" />
+          Snapping {snapEnabled ? 'On' : 'Off'}
+        </Button>
+
+        <div className="flex items-center space-x-2 w-48">
+          <ZoomIn className="w-4 h-4 text-muted-foreground" />
+          <Slider
+            value={[pixelsPerSecond]}
+            onValueChange={(value) => setPixelsPerSecond(value[0])}
+            min={10}
+            max={200}
+            step={5}
+          />
+        </div>
+      </div>
+
+      <div className="border rounded-lg overflow-x-auto">
+        <DndContext
+          sensors={sensors}
+          collisionDetection={pointerWithin}
+          onDragStart={handleDragStart}
+          onDragMove={handleDragMove}
+          onDragEnd={handleDragEnd}
+          onDragCancel={() => setActiveDrag(null)}
+        >
+          <div className="relative" style={{ width: contentWidth }}>
+            {/* Ruler */}
+            <div className="flex border-b h-6">
+              <div className="sticky left-0 z-20 w-20 flex-shrink-0 bg-card border-r" />
+              <div className="relative flex-1 cursor-pointer" onClick={handleRulerClick}>
+                {Array.from({ length: Math.floor(timelineEnd / tickStep) + 1 }, (_, i) => (
+                  <div
+                    key={i}
+                    className="absolute top-0 h-full border-l border-muted-foreground/30 pl-1 text-[10px] text-muted-foreground"
+                    style={{ left: i * tickStep * pixelsPerSecond }}
+                  >
+                    {formatTime(i * tickStep)}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {captions.length > 0 && (
+              <div className="flex border-b" style={{ height: TRACK_HEIGHT }}>
+                <div className="sticky left-0 z-20 w-20 flex-shrink-0 flex items-center px-2 text-xs text-muted-foreground bg-card border-r">
+                  Captions
+                </div>
+                <div className="relative flex-1">
+                  {captions.map(caption => (
+                    <CaptionClip
+                      key={caption.id}
+                      caption={caption}
+                      geometry={getGeometry(caption)}
+                      pixelsPerSecond={pixelsPerSecond}
+                      isSelected={selectedId === caption.id}
+                      isDragging={activeDrag?.itemId === caption.id}
+                      onSelect={() => setSelectedId(caption.id)}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {lanes.map(track => (
+              <TrackLane
+                key={track}
+                track={track}
+                label={track === trackCount ? 'New track' : `Track ${track + 1}`}
+              >
+                {items.filter(item => item.track === track).map(item => (
+                  <TimelineClip
+                    key={item.id}
+                    item={item}
+                    geometry={getGeometry(item)}
+                    pixelsPerSecond={pixelsPerSecond}
+                    transitionLength={activeDrag?.itemId === item.id ? 0 : getTransitionLength(item)}
+                    isSelected={selectedId === item.id}
+                    isDragging={activeDrag?.itemId === item.id}
+                    onSelect={() => setSelectedId(item.id)}
+                    onRemove={() => removeItem(item)}
+                  />
+                ))}
+              </TrackLane>
+            ))}
+
+            {trimRegion && (
+              <>
+                <div
+                  className="absolute top-0 bottom-0 bg-muted-foreground/15 z-30 pointer-events-none"
+                  style={{ left: LABEL_WIDTH, width: trimRegion.start * pixelsPerSecond }}
+                />
+                <div
+                  className="absolute top-0 bottom-0 right-0 bg-muted-foreground/15 z-30 pointer-events-none"
+                  style={{ left: LABEL_WIDTH + trimRegion.end * pixelsPerSecond }}
+                />
+              </>
+            )}
+
+            {/* Audio end and playhead */}
+            <div
+              className="absolute top-0 bottom-0 border-l border-dashed border-muted-foreground/50 pointer-events-none"
+              style={{ left: LABEL_WIDTH + duration * pixelsPerSecond }}
+            />
+            <div
+              className="absolute top-0 bottom-0 w-0.5 bg-amber-500 z-40 pointer-events-none"
+              style={{ left: LABEL_WIDTH + currentTime * pixelsPerSecond }}
+            />
+          </div>
+        </DndContext>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Drag clips to move them, drag their edges to trim, and drop them on another track to layer them.
+        Select a clip to edit the transition into it, or a caption to edit its text and timing.
+      </p>
+
+      {selectedItem && (
+        <ClipInspector
+          key={selectedItem.id}
+          item={selectedItem}
+          previous={findPreviousClip(items, selectedItem)}
+          backgrounds={items.filter(i => !i.slide && ['image', 'video', 'clipart'].includes(i.asset.type)).map(i => i.asset)}
+          onChange={(updated, label) => onItemsChange(items.map(i => i.id === updated.id ? updated : i), label)}
+        />
+      )}
+
+      {selectedCaption && (
+        <CaptionInspector
+          // Remount when the line is dragged so the time fields show the new timing
+          key={`${selectedCaption.id}-${selectedCaption.startTime}-${selectedCaption.duration}`}
+          caption={selectedCaption}
+          onChange={(updated, label) => onCaptionsChange(captions.map(c => c.id === updated.id ? updated : c), label)}
+          onRemove={() => {
+            onCaptionsChange(captions.filter(c => c.id !== selectedCaption.id), 'Remove caption')
+            setSelectedId(null)
+          }}
+        />
+      )}
+    </div>
+  )
+}
@@ -1,18 +1,129 @@
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
+import toast from 'react-hot-toast'
 import { AudioFile, TimelineItem, VideoStyle } from '../App'
 import { Button } from './ui/button'
 import { Card } from './ui/card'
-import { Play, Pause, RotateCcw, Maximize } from 'lucide-react'
+import { Play, Pause, RotateCcw, Maximize, Film } from 'lucide-react'
+import { PREVIEW_RENDER, RenderedVideo } from '../lib/video-renderer'
+import { MediaCache, drawTimelineFrame, loadTimelineMedia, prepareFrame, syncVideos } from '../lib/compositor'
+import { SceneRenderer } from '../lib/scene-renderer'
+import { CaptionTrack } from '../lib/captions'
+import { AudioTrim, getAudioRegion } from '../lib/audio-trim'
+import { AudioMix } from '../lib/audio-mix'
+import { usePlaybackClock } from '../hooks/use-playback-clock'
 
 interface VideoPreviewProps {
   audioFile: AudioFile | null
+  audioTrim: AudioTrim | null
+  audioMix: AudioMix
+  audioBuffer: AudioBuffer | null
+  beats: number[]
   timelineItems: TimelineItem[]
+  captions: CaptionTrack
   selectedStyle: VideoStyle | null
+  renderedVideo: RenderedVideo | null
 }
 
-export function VideoPreview({ audioFile, timelineItems, selectedStyle }: VideoPreviewProps) {
-  const [isPlaying, setIsPlaying] = useState(false)
-  const [currentTime, setCurrentTime] = useState(0)
+function formatTime(seconds: number) {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+export function VideoPreview({
+  audioFile,
+  audioTrim,
+  audioMix,
+  audioBuffer,
+  beats,
+  timelineItems,
+  captions,
+  selectedStyle,
+  renderedVideo
+}: VideoPreviewProps) {
+  const { currentTime, isPlaying, play, pause, seek } = usePlaybackClock(audioFile, audioTrim, audioMix)
+  const [media, setMedia] = useState<MediaCache | null>(null)
+  const [scenes, setScenes] = useState<SceneRenderer | null>(null)
+  const mediaRef = useRef<MediaCache | null>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const drawTokenRef = useRef(0)
+
+  useEffect(() => {
+    let cancelled = false
+
+    loadTimelineMedia(timelineItems, mediaRef.current ?? undefined)
+      .then((loaded) => {
+        if (cancelled) return
+        mediaRef.current = loaded
+        setMedia(loaded)
+      })
+      .catch((error) => {
+        console.error('Error loading preview media:', error)
+        if (!cancelled) toast.error('Some visuals could not be loaded for the preview')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [timelineItems])
+
+  // three.js is only loaded once the timeline has a 3D scene
+  const hasScenes = timelineItems.some(item => item.scene3d)
+  useEffect(() => {
+    if (!hasScenes) return
+    let cancelled = false
+    let renderer: SceneRenderer | null = null
+
+    import('../lib/scene-renderer')
+      .then(({ createSceneRenderer }) => createSceneRenderer(PREVIEW_RENDER.width, PREVIEW_RENDER.height))
+      .then((created) => {
+        if (cancelled) {
+          created.dispose()
+          return
+        }
+        renderer = created
+        setScenes(created)
+      })
+      .catch((error) => {
+        console.error('Error starting the 3D scene renderer:', error)
+        if (!cancelled) toast.error('3D scenes could not be shown in the preview')
+      })
+
+    return () => {
+      cancelled = true
+      renderer?.dispose()
+      setScenes(null)
+    }
+  }, [hasScenes])
+
+  useEffect(() => {
+    return () => {
+      mediaRef.current?.forEach(element => {
+        if (element instanceof HTMLVideoElement) element.pause()
+      })
+    }
+  }, [])
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d')
+    if (!ctx || !media) return
+
+    const sources = { media, audio: audioBuffer, beats, scenes, captions }
+    syncVideos(timelineItems, media, currentTime, isPlaying)
+    if (isPlaying) {
+      drawTimelineFrame(ctx, timelineItems, sources, currentTime)
+      return
+    }
+
+    // Paused frames wait for their videos to seek; only the latest request gets drawn
+    const token = ++drawTokenRef.current
+    prepareFrame(timelineItems, media, currentTime).then(() => {
+      if (token === drawTokenRef.current) {
+        drawTimelineFrame(ctx, timelineItems, sources, currentTime)
+      }
+    })
+  }, [media, timelineItems, currentTime, isPlaying, audioBuffer, beats, scenes, captions])
 
   if (!audioFile || !selectedStyle) {
     return (
@@ -28,13 +139,36 @@ export function VideoPreview({ audioFile, timelineItems, selectedStyle }: VideoP
     )
   }
 
+  // Times shown here are in the video, which starts at the trim's in point
+  const region = getAudioRegion(audioTrim, audioFile.duration)
+  const videoTime = Math.max(0, currentTime - region.start)
+
   const togglePlayPause = () => {
-    setIsPlaying(!isPlaying)
+    if (isPlaying) {
+      pause()
+    } else {
+      play()
+    }
   }
 
   const resetPreview = () => {
-    setIsPlaying(false)
-    setCurrentTime(0)
+    pause()
+    seek(region.start)
+  }
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen()
+    } else {
+      containerRef.current?.requestFullscreen().catch((error) => {
+        console.error('Error entering fullscreen:', error)
+      })
+    }
+  }
+
+  const seekFromPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    seek(region.start + ((e.clientX - rect.left) / rect.width) * region.duration)
   }
 
   return (
@@ -52,7 +186,7 @@ export function VideoPreview({ audioFile, timelineItems, selectedStyle }: VideoP
             <RotateCcw className="w-4 h-4 mr-2" />
             Reset
           </Button>
-          <Button variant="outline">
+          <Button variant="outline" onClick={toggleFullscreen}>
             <Maximize className="w-4 h-4 mr-2" />
             Fullscreen
           </Button>
@@ -61,52 +195,25 @@ export function VideoPreview({ audioFile, timelineItems, selectedStyle }: VideoP
 
       {/* Video Preview Area */}
       <Card className="p-0 overflow-hidden">
-        <div className="relative aspect-video bg-gradient-to-br from-slate-900 to-slate-800">
-          {/* Mock Video Content */}
-          <div className="absolute inset-0 flex items-center justify-center">
-            {timelineItems.length > 0 ? (
-              <div className="relative w-full h-full">
-                {/* Background */}
-                <div className="absolute inset-0 bg-gradient-to-br from-primary/20 to-accent/20" />
-                
-                {/* Current Visual Asset */}
-                {timelineItems[0] && (
-                  <img
-                    src={timelineItems[0].asset.thumbnail}
-                    alt="Current visual"
-                    className="absolute inset-0 w-full h-full object-cover opacity-80"
-                  />
-                )}
-                
-                {/* Overlay Effects based on style */}
-                {selectedStyle.type === 'music' && (
-                  <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent animate-pulse" />
-                )}
-                
-                {selectedStyle.type === 'presentation' && (
-                  <div className="absolute bottom-8 left-8 right-8 bg-black/70 text-white p-4 rounded-lg">
-                    <h3 className="text-xl font-bold mb-2">Sample Slide Title</h3>
-                    <p className="text-sm opacity-90">This is how your presentation content will appear</p>
-                  </div>
-                )}
-                
-                {/* Audio Visualization */}
-                <div className="absolute bottom-4 left-4 right-4">
-                  <div className="flex items-center space-x-1 h-8">
-                    {Array.from({ length: 50 }).map((_, i) => (
-                      <div
-                        key={i}
-                        className="bg-white/60 rounded-full flex-1"
-                        style={{
-                          height: `${Math.random() * 100}%`,
-                          animation: isPlaying ? `pulse ${Math.random() * 2 + 1}s infinite` : 'none'
-                        }}
-                      />
-                    ))}
-                  </div>
-                </div>
-              </div>
-            ) : (
+        <div ref={containerRef} className="relative aspect-video bg-gradient-to-br from-slate-900 to-slate-800">
+          {timelineItems.length > 0 || captions.lines.length > 0 ? (
+            <div className="absolute inset-0">
+              {/* Same compositor as the renderer, so the preview matches the export */}
+              <canvas
+                ref={canvasRef}
+                width={PREVIEW_RENDER.width}
+                height={PREVIEW_RENDER.height}
+                className="absolute inset-0 w-full h-full"
+              />
+
+              {/* Overlay Effects based on style */}
+              {selectedStyle.type === 'music' && (
+                <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent animate-pulse" />
+              )}
+
+            </div>
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center">
               <div className="text-center text-white/70">
                 <div className="w-24 h-24 bg-white/10 rounded-full flex items-center justify-center mx-auto mb-4">
                   <Play className="w-12 h-12" />
@@ -114,8 +221,8 @@ export function VideoPreview({ audioFile, timelineItems, selectedStyle }: VideoP
                 <h3 className="text-lg font-semibold mb-2">Add Visual Elements</h3>
                 <p className="text-sm">Add images, videos, or clipart to see the preview</p>
               </div>
-            )}
-          </div>
+            </div>
+          )}
 
           {/* Play/Pause Overlay */}
           <div className="absolute inset-0 flex items-center justify-center opacity-0 hover:opacity-100 transition-opacity bg-black/20">
@@ -126,18 +233,53 @@ export function VideoPreview({ audioFile, timelineItems, selectedStyle }: VideoP
             >
               {isPlaying ? <Pause className="w-8 h-8" /> : <Play className="w-8 h-8" />}
             </Button>
+            <span className="absolute top-3 right-3 px-2 py-1 rounded bg-black/60 text-xs text-white font-mono">
+              {formatTime(videoTime)} / {formatTime(region.duration)}
+            </span>
           </div>
 
           {/* Progress Bar */}
-          <div className="absolute bottom-0 left-0 right-0 h-1 bg-black/30">
-            <div 
-              className="h-full bg-primary transition-all duration-300"
-              style={{ width: `${(currentTime / (audioFile?.duration || 1)) * 100}%` }}
-            />
+          <div
+            className="group absolute bottom-0 left-0 right-0 h-3 flex items-end cursor-pointer"
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId)
+              seekFromPointer(e)
+            }}
+            onPointerMove={(e) => {
+              if (e.currentTarget.hasPointerCapture(e.pointerId)) seekFromPointer(e)
+            }}
+          >
+            <div className="w-full h-1 group-hover:h-2 bg-black/30 transition-all">
+              <div
+                className="h-full bg-primary"
+                style={{ width: `${(videoTime / (region.duration || 1)) * 100}%` }}
+              />
+            </div>
           </div>
         </div>
       </Card>
 
+      {/* Rendered Output */}
+      {renderedVideo && (
+        <Card className="p-4">
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="font-semibold flex items-center">
+              <Film className="w-4 h-4 mr-2 text-primary" />
+              Rendered Video
+            </h4>
+            <span className="text-sm text-muted-foreground">
+              {renderedVideo.width}x{renderedVideo.height} • {renderedVideo.fps} fps • {(renderedVideo.blob.size / (1024 * 1024)).toFixed(1)} MB
+            </span>
+          </div>
+          <video
+            key={renderedVideo.url}
+            src={renderedVideo.url}
+            controls
+            className="w-full rounded-lg bg-black aspect-video"
+          />
+        </Card>
+      )}
+
       {/* Preview Info */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card className="p-4">
@@ -151,7 +293,8 @@ export function VideoPreview({ audioFile, timelineItems, selectedStyle }: VideoP
         <Card className="p-4">
           <h4 className="font-semibold mb-2">Duration</h4>
           <p className="text-sm text-muted-foreground">
-            {Math.floor(audioFile.duration / 60)}:{(audioFile.duration % 60).toFixed(0).padStart(2, '0')}
+            {formatTime(region.duration)}
+            {audioTrim && ` (from ${formatTime(region.start)} in ${audioFile.name})`}
           </p>
         </Card>
         
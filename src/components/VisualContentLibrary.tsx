@@ -6,9 +6,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
 import { Input } from './ui/input'
 import { Image, Video, Palette, Search, Plus, Sparkles } from 'lucide-react'
 import { MediaCreator } from './MediaCreator'
+import { Transition } from '../lib/transitions'
 
 interface VisualContentLibraryProps {
-  onAssetSelect: (asset: VisualAsset) => void
+  onAssetSelect: (asset: VisualAsset, transition?: Transition) => void
 }
 
 // Mock data for demonstration
@@ -0,0 +1,84 @@
+import { useState } from 'react'
+import { Label } from './ui/label'
+import { Input } from './ui/input'
+import { Slider } from './ui/slider'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { MAX_SMOOTHING, VISUALIZER_STYLES, VisualizerSettings, VisualizerStyle } from '../lib/visualizer'
+import { useSliderDraft } from '../hooks/use-slider-draft'
+
+interface VisualizerControlsProps {
+  settings: VisualizerSettings
+  onChange: (settings: VisualizerSettings, label: string) => void
+}
+
+type NumericSetting = 'x' | 'y' | 'width' | 'height' | 'smoothing'
+
+const SLIDERS: { key: NumericSetting, label: string, min: number, max: number }[] = [
+  { key: 'x', label: 'Horizontal position', min: 0, max: 1 },
+  { key: 'y', label: 'Vertical position', min: 0, max: 1 },
+  { key: 'width', label: 'Width', min: 0.05, max: 1 },
+  { key: 'height', label: 'Height', min: 0.05, max: 1 },
+  { key: 'smoothing', label: 'Smoothing', min: 0, max: MAX_SMOOTHING }
+]
+
+export function VisualizerControls({ settings, onChange }: VisualizerControlsProps) {
+  const { getValue, sliderProps } = useSliderDraft<NumericSetting>()
+  const [draftColor, setDraftColor] = useState<string | null>(null)
+  const color = draftColor ?? settings.color
+
+  return (
+    <div className="space-y-3">
+      <Label>Visualizer</Label>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Select
+          value={settings.style}
+          onValueChange={(value) => {
+            const style = VISUALIZER_STYLES.find(s => s.value === value)
+            onChange({ ...settings, style: value as VisualizerStyle }, `Visualizer style: ${style?.label ?? value}`)
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {VISUALIZER_STYLES.map(style => (
+              <SelectItem key={style.value} value={style.value}>{style.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center space-x-2">
+          <Input
+            type="color"
+            value={color}
+            onChange={(e) => setDraftColor(e.target.value)}
+            onBlur={() => {
+              if (draftColor && draftColor !== settings.color) {
+                onChange({ ...settings, color: draftColor }, 'Visualizer color')
+              }
+              setDraftColor(null)
+            }}
+            className="w-16 h-9 p-1"
+          />
+          <span className="text-sm text-muted-foreground font-mono">{color}</span>
+        </div>
+
+        {SLIDERS.map(({ key, label, min, max }) => (
+          <div key={key} className="space-y-2">
+            <span className="text-xs text-muted-foreground">
+              {label}: {Math.round(getValue(key, settings[key]) * 100)}%
+            </span>
+            <Slider
+              {...sliderProps(key, settings[key], (value) => {
+                onChange({ ...settings, [key]: value }, `Visualizer ${label.toLowerCase()}`)
+              })}
+              min={min}
+              max={max}
+              step={0.01}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
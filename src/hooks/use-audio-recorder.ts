@@ -0,0 +1,244 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { MAX_AUDIO_DURATION } from '../lib/audio-import'
+import {
+  createRecordingFile,
+  getRecordingType,
+  isRecordingSupported,
+  listMicrophones,
+  openMicrophone,
+  playCountInTick,
+  readPeakLevel,
+  toRecordingError
+} from '../lib/recording'
+
+export type RecorderStatus = 'idle' | 'counting' | 'recording' | 'paused' | 'stopped'
+
+export interface Microphone {
+  id: string
+  label: string
+}
+
+// Recorded chunks are handed over this often, so a long take doesn't sit in one buffer
+const CHUNK_INTERVAL = 1000
+
+interface RecordingClock {
+  recorded: number
+  runStart: number | null
+}
+
+function readClock({ recorded, runStart }: RecordingClock) {
+  return runStart === null ? recorded : recorded + (performance.now() - runStart) / 1000
+}
+
+// The microphone stays open while the recorder is shown, so the meter works before recording starts
+export function useAudioRecorder() {
+  const [devices, setDevices] = useState<Microphone[]>([])
+  const [deviceId, setDeviceId] = useState<string | null>(null)
+  const [status, setStatus] = useState<RecorderStatus>('idle')
+  const [level, setLevel] = useState(0)
+  const [countdown, setCountdown] = useState(0)
+  const [elapsed, setElapsed] = useState(0)
+  const [recording, setRecording] = useState<File | null>(null)
+  const [error, setError] = useState<string | null>(
+    isRecordingSupported() ? null : 'This browser can\'t record audio. Upload a file instead.'
+  )
+  const streamRef = useRef<MediaStream | null>(null)
+  const contextRef = useRef<AudioContext | null>(null)
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const countInRef = useRef<number | null>(null)
+  // Seconds recorded before the current run, and when the current run started; paused time doesn't count
+  const clockRef = useRef<RecordingClock>({ recorded: 0, runStart: null })
+
+  useEffect(() => {
+    if (!isRecordingSupported()) return
+    let cancelled = false
+    let frame = 0
+    let stream: MediaStream | null = null
+    let context: AudioContext | null = null
+
+    const open = async () => {
+      stream = await openMicrophone(deviceId)
+      if (cancelled) {
+        stream.getTracks().forEach(track => track.stop())
+        return
+      }
+      context = new AudioContext()
+      const analyser = context.createAnalyser()
+      analyser.fftSize = 2048
+      context.createMediaStreamSource(stream).connect(analyser)
+      streamRef.current = stream
+      contextRef.current = context
+      setError(null)
+
+      const samples = new Float32Array(analyser.fftSize)
+      frame = requestAnimationFrame(function tick() {
+        setLevel(readPeakLevel(analyser, samples))
+        frame = requestAnimationFrame(tick)
+      })
+      const microphones = await listMicrophones()
+      if (!cancelled) setDevices(microphones)
+    }
+
+    open().catch((error) => {
+      console.error('Error opening microphone:', error)
+      if (!cancelled) setError(toRecordingError(error).message)
+    })
+
+    return () => {
+      cancelled = true
+      cancelAnimationFrame(frame)
+      stream?.getTracks().forEach(track => track.stop())
+      context?.close()
+      streamRef.current = null
+      contextRef.current = null
+      setLevel(0)
+    }
+  }, [deviceId])
+
+  // Plugging a microphone in or out updates the list without reopening the current one
+  useEffect(() => {
+    if (!isRecordingSupported()) return
+    const refresh = () => {
+      listMicrophones().then(setDevices).catch(error => console.error('Error listing microphones:', error))
+    }
+    navigator.mediaDevices.addEventListener('devicechange', refresh)
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh)
+  }, [])
+
+  const clearCountIn = useCallback(() => {
+    if (countInRef.current !== null) {
+      clearInterval(countInRef.current)
+      countInRef.current = null
+    }
+  }, [])
+
+  // Forgets the current take; a recorder that is still running stops without producing a file
+  const discard = useCallback(() => {
+    clearCountIn()
+    const recorder = recorderRef.current
+    recorderRef.current = null
+    if (recorder && recorder.state !== 'inactive') recorder.stop()
+    clockRef.current = { recorded: 0, runStart: null }
+    setRecording(null)
+    setElapsed(0)
+    setStatus('idle')
+  }, [clearCountIn])
+
+  useEffect(() => discard, [discard])
+
+  const begin = useCallback(() => {
+    const stream = streamRef.current
+    if (!stream) return
+    const type = getRecordingType()
+    const recorder = new MediaRecorder(stream, type ? { mimeType: type } : undefined)
+    const chunks: Blob[] = []
+    const recordedAt = new Date()
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data)
+    }
+    recorder.onstop = () => {
+      if (recorderRef.current !== recorder) return
+      recorderRef.current = null
+      setRecording(createRecordingFile(chunks, recorder.mimeType || type, recordedAt))
+      setStatus('stopped')
+    }
+    recorder.onerror = (event) => {
+      console.error('Recording failed:', (event as ErrorEvent).error ?? event)
+      discard()
+      setError('Recording stopped unexpectedly. Try again.')
+    }
+
+    recorder.start(CHUNK_INTERVAL)
+    recorderRef.current = recorder
+    clockRef.current = { recorded: 0, runStart: performance.now() }
+    setStatus('recording')
+  }, [discard])
+
+  const start = useCallback((countIn: number) => {
+    const context = contextRef.current
+    if (!context || !streamRef.current) return
+    setRecording(null)
+    setElapsed(0)
+    setError(null)
+    context.resume()
+
+    if (countIn <= 0) {
+      begin()
+      return
+    }
+
+    let remaining = countIn
+    setCountdown(remaining)
+    setStatus('counting')
+    playCountInTick(context, true)
+    countInRef.current = window.setInterval(() => {
+      remaining--
+      if (remaining > 0) {
+        setCountdown(remaining)
+        playCountInTick(context, false)
+        return
+      }
+      clearCountIn()
+      begin()
+    }, 1000)
+  }, [begin, clearCountIn])
+
+  const pause = useCallback(() => {
+    const recorder = recorderRef.current
+    if (recorder?.state !== 'recording') return
+    recorder.pause()
+    clockRef.current = { recorded: readClock(clockRef.current), runStart: null }
+    setElapsed(clockRef.current.recorded)
+    setStatus('paused')
+  }, [])
+
+  const resume = useCallback(() => {
+    const recorder = recorderRef.current
+    if (recorder?.state !== 'paused') return
+    recorder.resume()
+    clockRef.current = { ...clockRef.current, runStart: performance.now() }
+    setStatus('recording')
+  }, [])
+
+  const stop = useCallback(() => {
+    if (countInRef.current !== null) {
+      discard()
+      return
+    }
+    const recorder = recorderRef.current
+    if (!recorder || recorder.state === 'inactive') return
+    clockRef.current = { recorded: readClock(clockRef.current), runStart: null }
+    setElapsed(clockRef.current.recorded)
+    recorder.stop()
+  }, [discard])
+
+  // The timer runs while recording, and a take that reaches the import limit is stopped there
+  useEffect(() => {
+    if (status !== 'recording') return
+    const timer = setInterval(() => {
+      const seconds = readClock(clockRef.current)
+      setElapsed(seconds)
+      if (seconds >= MAX_AUDIO_DURATION) stop()
+    }, 100)
+    return () => clearInterval(timer)
+  }, [status, stop])
+
+  return {
+    devices,
+    deviceId,
+    setDeviceId,
+    status,
+    level,
+    countdown,
+    elapsed,
+    recording,
+    error,
+    isReady: !error && devices.length > 0,
+    start,
+    pause,
+    resume,
+    stop,
+    discard
+  }
+}
@@ -0,0 +1,37 @@
+import { useEffect, useRef, useState } from 'react'
+import { ProjectState } from '../App'
+import { ProjectSettings, saveProject } from '../lib/project-store'
+
+const AUTOSAVE_DELAY_MS = 1000
+
+export function useAutosave(projectId: string, name: string, project: ProjectState, settings: ProjectSettings) {
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+  const savingRef = useRef(Promise.resolve())
+
+  useEffect(() => {
+    // Nothing worth keeping until there is audio or something on the timeline
+    if (!project.audioFile && project.timelineItems.length === 0) return
+
+    const timeout = setTimeout(() => {
+      setIsSaving(true)
+      // Chain saves so an older snapshot can never land after a newer one
+      savingRef.current = savingRef.current
+        .then(() => saveProject(projectId, name, project, settings))
+        .then((summary) => {
+          setLastSavedAt(summary.updatedAt)
+          setError(null)
+        })
+        .catch((saveError) => {
+          console.error('Error saving project:', saveError)
+          setError(saveError)
+        })
+        .finally(() => setIsSaving(false))
+    }, AUTOSAVE_DELAY_MS)
+
+    return () => clearTimeout(timeout)
+  }, [projectId, name, project, settings])
+
+  return { lastSavedAt, isSaving, error }
+}
@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react'
+import { BeatAnalysis, analyzeBeats } from '../lib/beat-detection'
+
+// What a failed analysis leaves behind, so the editor carries on without beats instead of waiting forever
+const NO_BEATS: BeatAnalysis = { bpm: 0, beats: [], downbeats: [] }
+
+export function useBeatAnalysis(buffer: AudioBuffer | null) {
+  const [result, setResult] = useState<{ buffer: AudioBuffer, analysis: BeatAnalysis } | null>(null)
+
+  useEffect(() => {
+    if (!buffer) return
+    let cancelled = false
+
+    analyzeBeats(buffer)
+      .then((analysis) => {
+        if (!cancelled) setResult({ buffer, analysis })
+      })
+      .catch((error) => {
+        console.error('Error analyzing beats:', error)
+        if (!cancelled) setResult({ buffer, analysis: NO_BEATS })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [buffer])
+
+  const isCurrent = !!buffer && result?.buffer === buffer
+  return {
+    analysis: isCurrent ? result.analysis : null,
+    isAnalyzing: !!buffer && !isCurrent
+  }
+}
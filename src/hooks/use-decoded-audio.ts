@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react'
+import { AudioFile } from '../App'
+import { decodeAudioFile } from '../lib/audio'
+
+interface DecodedAudioState {
+  file: File | null
+  buffer: AudioBuffer | null
+  error: Error | null
+}
+
+export function useDecodedAudio(audioFile: AudioFile | null) {
+  const [state, setState] = useState<DecodedAudioState>({
+    file: null,
+    buffer: null,
+    error: null
+  })
+
+  useEffect(() => {
+    if (!audioFile) return
+    let cancelled = false
+
+    decodeAudioFile(audioFile)
+      .then((buffer) => {
+        if (!cancelled) setState({ buffer, error: null, file: audioFile.file })
+      })
+      .catch((error) => {
+        console.error('Error decoding audio file:', error)
+        if (!cancelled) setState({ buffer: null, error, file: audioFile.file })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [audioFile])
+
+  // Ignore results left over from a previously selected file
+  const isCurrent = !!audioFile && state.file === audioFile.file
+  return {
+    buffer: isCurrent ? state.buffer : null,
+    error: isCurrent ? state.error : null,
+    isDecoding: !!audioFile && !isCurrent
+  }
+}
@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { AudioFile } from '../App'
+import { AudioTrim, getAudioRegion } from '../lib/audio-trim'
+import { AudioMix, DEFAULT_AUDIO_MIX, loadMixBuffers, scheduleMix } from '../lib/audio-mix'
+
+// Head start given to the audio graph so its first samples aren't cut off
+const START_LATENCY = 0.05
+
+interface Playback {
+  // File time playback started from, and the context time it was heard there
+  from: number
+  startedAt: number
+  stop: () => void
+}
+
+// The audio context is the master clock; a frame loop publishes its time while it plays.
+// Playback runs the same mix as the export, inside the trimmed region and with its fades.
+export function usePlaybackClock(
+  audioFile: AudioFile | null,
+  audioTrim: AudioTrim | null = null,
+  audioMix: AudioMix = DEFAULT_AUDIO_MIX
+) {
+  const [currentTime, setCurrentTime] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const contextRef = useRef<AudioContext | null>(null)
+  const playbackRef = useRef<Playback | null>(null)
+  // Where the playhead rests while paused
+  const positionRef = useRef(0)
+  // Bumped on every start and stop, so a start still waiting on decoding can tell it is stale
+  const requestRef = useRef(0)
+  const mixRef = useRef({ audioTrim, audioMix })
+  mixRef.current = { audioTrim, audioMix }
+
+  const getRegion = useCallback(() => getAudioRegion(mixRef.current.audioTrim, audioFile?.duration ?? 0), [audioFile])
+
+  const getPosition = useCallback(() => {
+    const playback = playbackRef.current
+    const context = contextRef.current
+    if (!playback || !context) return positionRef.current
+    return playback.from + Math.max(0, context.currentTime - playback.startedAt)
+  }, [])
+
+  const halt = useCallback(() => {
+    requestRef.current++
+    positionRef.current = getPosition()
+    playbackRef.current?.stop()
+    playbackRef.current = null
+  }, [getPosition])
+
+  const startAt = useCallback(async (from: number) => {
+    if (!audioFile) return
+    const request = ++requestRef.current
+    const { audioTrim: trim, audioMix: mix } = mixRef.current
+    const buffers = await loadMixBuffers(audioFile, mix)
+    contextRef.current ??= new AudioContext()
+    const context = contextRef.current
+    await context.resume()
+    if (request !== requestRef.current) return
+
+    playbackRef.current?.stop()
+    const startedAt = context.currentTime + START_LATENCY
+    const stop = scheduleMix(context, buffers, mix, trim, from, getRegion().end, startedAt)
+    playbackRef.current = { from, startedAt, stop }
+    setIsPlaying(true)
+  }, [audioFile, getRegion])
+
+  const restart = useCallback((from: number) => {
+    startAt(from).catch((error) => {
+      console.error('Error starting playback:', error)
+      halt()
+      setIsPlaying(false)
+    })
+  }, [startAt, halt])
+
+  useEffect(() => {
+    const { start } = getRegion()
+    positionRef.current = start
+    setCurrentTime(start)
+    setIsPlaying(false)
+    return () => {
+      halt()
+    }
+  }, [audioFile, getRegion, halt])
+
+  useEffect(() => () => {
+    contextRef.current?.close()
+    contextRef.current = null
+  }, [])
+
+  // Mix and trim changes are heard straight away; a paused playhead is kept inside the region
+  useEffect(() => {
+    const { start, end } = getAudioRegion(audioTrim, audioFile?.duration ?? 0)
+    const position = getPosition()
+    const inside = position >= start && position <= end ? position : start
+    if (playbackRef.current) {
+      restart(inside)
+    } else if (inside !== positionRef.current) {
+      positionRef.current = inside
+      setCurrentTime(inside)
+    }
+  }, [audioFile, audioTrim, audioMix, getPosition, restart])
+
+  useEffect(() => {
+    if (!isPlaying) return
+
+    let frame = requestAnimationFrame(function tick() {
+      const { end } = getRegion()
+      const position = getPosition()
+      if (position >= end) {
+        halt()
+        positionRef.current = end
+        setCurrentTime(end)
+        setIsPlaying(false)
+        return
+      }
+      setCurrentTime(position)
+      frame = requestAnimationFrame(tick)
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [isPlaying, getRegion, getPosition, halt])
+
+  const play = useCallback(() => {
+    const { start, end } = getRegion()
+    const position = positionRef.current
+    restart(position >= end || position < start ? start : position)
+  }, [getRegion, restart])
+
+  const pause = useCallback(() => {
+    halt()
+    setIsPlaying(false)
+    setCurrentTime(positionRef.current)
+  }, [halt])
+
+  const seek = useCallback((time: number) => {
+    const { start, end } = getRegion()
+    const clamped = Math.min(Math.max(start, time), end)
+    if (playbackRef.current) {
+      restart(clamped)
+    } else {
+      positionRef.current = clamped
+    }
+    setCurrentTime(clamped)
+  }, [getRegion, restart])
+
+  return { currentTime, isPlaying, play, pause, seek }
+}
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from 'react'
+import { ProjectState } from '../App'
+import { ProjectCommand } from '../lib/project-commands'
+
+export interface HistoryEntry {
+  id: number
+  label: string
+  state: ProjectState
+}
+
+interface History {
+  entries: HistoryEntry[]
+  index: number
+}
+
+const HISTORY_LIMIT = 100
+
+let nextEntryId = 0
+
+function createEntry(label: string, state: ProjectState): HistoryEntry {
+  return { id: nextEntryId++, label, state }
+}
+
+function isEditableTarget(target: EventTarget | null) {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+}
+
+export function useProjectHistory(initialState: ProjectState) {
+  const [history, setHistory] = useState<History>(() => ({
+    entries: [createEntry('New project', initialState)],
+    index: 0
+  }))
+
+  const execute = useCallback((command: ProjectCommand) => {
+    setHistory((prev) => {
+      const current = prev.entries[prev.index].state
+      const next = command.apply(current)
+      if (next === current) return prev
+
+      // A new edit discards anything that was undone
+      const entries = [...prev.entries.slice(0, prev.index + 1), createEntry(command.label, next)]
+      const trimmed = entries.slice(Math.max(0, entries.length - HISTORY_LIMIT))
+      return { entries: trimmed, index: trimmed.length - 1 }
+    })
+  }, [])
+
+  const jumpTo = useCallback((index: number) => {
+    setHistory(prev => ({ ...prev, index: Math.min(Math.max(0, index), prev.entries.length - 1) }))
+  }, [])
+
+  const undo = useCallback(() => {
+    setHistory(prev => ({ ...prev, index: Math.max(0, prev.index - 1) }))
+  }, [])
+
+  const redo = useCallback(() => {
+    setHistory(prev => ({ ...prev, index: Math.min(prev.entries.length - 1, prev.index + 1) }))
+  }, [])
+
+  // Start a fresh history, e.g. after opening another project
+  const reset = useCallback((state: ProjectState, label = 'New project') => {
+    setHistory({ entries: [createEntry(label, state)], index: 0 })
+  }, [])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  return {
+    project: history.entries[history.index].state,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    execute,
+    undo,
+    redo,
+    jumpTo,
+    reset
+  }
+}
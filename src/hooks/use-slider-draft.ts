@@ -0,0 +1,29 @@
+import { useState } from 'react'
+
+// Slider drags show locally and only become a history entry once released
+export function useSliderDraft<K extends string = string>() {
+  const [draft, setDraft] = useState<Partial<Record<K, number>>>({})
+
+  const clearDraft = (key: K) => {
+    setDraft((prev) => {
+      const next = { ...prev }
+      delete next[key]
+      return next
+    })
+  }
+
+  // The value to show: the one being dragged, otherwise the committed one
+  const getValue = (key: K, value: number) => draft[key] ?? value
+
+  // Props for a single-thumb Slider; `commit` gets the value it was released at
+  const sliderProps = (key: K, value: number, commit: (value: number) => void) => ({
+    value: [getValue(key, value)],
+    onValueChange: ([next]: number[]) => setDraft(prev => ({ ...prev, [key]: next })),
+    onValueCommit: ([next]: number[]) => {
+      clearDraft(key)
+      commit(next)
+    }
+  })
+
+  return { getValue, sliderProps }
+}
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  Transcriber,
+  TranscriptionModelId,
+  TranscriptionProgress,
+  getLocalTranscriber
+} from '../lib/transcription'
+
+// `transcriber` defaults to the in-browser model; pass another to use a remote service or a mock
+export function useTranscription(transcriber?: Transcriber) {
+  const [progress, setProgress] = useState<TranscriptionProgress | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const transcribe = useCallback(async (audio: AudioBuffer, model: TranscriptionModelId) => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setProgress({ stage: 'loading-model', progress: null })
+
+    try {
+      return await (transcriber ?? getLocalTranscriber()).transcribe(audio, {
+        model,
+        signal: controller.signal,
+        onProgress: setProgress
+      })
+    } finally {
+      abortRef.current = null
+      setProgress(null)
+    }
+  }, [transcriber])
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort()
+  }, [])
+
+  // Don't leave the model running for an editor that has gone away
+  useEffect(() => cancel, [cancel])
+
+  return { transcribe, cancel, progress, isTranscribing: progress !== null }
+}
@@ -0,0 +1,107 @@
+import { AudioFile } from '../App'
+import { decodeAudioFile } from './audio'
+import { AUDIO_FORMATS, FORMAT_HEADER_BYTES, readAudioTags, sniffAudioFormat } from './audio-tags'
+
+export const MAX_AUDIO_FILE_SIZE = 500 * 1024 * 1024
+export const MIN_AUDIO_DURATION = 1
+// Decoded audio is 48 kHz float PCM, and playback, mixing and mastering each hold another copy of it.
+// Half an hour of stereo is about 700 MB per copy, which is as much as a browser tab can be trusted with
+export const MAX_AUDIO_DURATION = 30 * 60
+
+export type AudioImportStage = 'checking' | 'decoding' | 'reading-tags'
+
+export class AudioImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AudioImportError'
+  }
+}
+
+function formatMegabytes(bytes: number) {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function formatMinutes(seconds: number) {
+  return seconds >= 60 ? `${Math.round(seconds / 60)} minutes` : `${seconds} second${seconds === 1 ? '' : 's'}`
+}
+
+function checkDuration(name: string, duration: number) {
+  if (duration < MIN_AUDIO_DURATION) {
+    throw new AudioImportError(`"${name}" is too short. Audio needs to be at least ${formatMinutes(MIN_AUDIO_DURATION)} long.`)
+  }
+  if (duration > MAX_AUDIO_DURATION) {
+    throw new AudioImportError(`"${name}" is too long. Audio can be up to ${formatMinutes(MAX_AUDIO_DURATION)}.`)
+  }
+}
+
+// The length from the container's headers, read without decoding; null when the headers don't say,
+// as with fresh MediaRecorder output
+function probeDuration(url: string): Promise<number | null> {
+  return new Promise((resolve, reject) => {
+    const audio = new Audio()
+    const release = () => {
+      audio.removeAttribute('src')
+      audio.load()
+    }
+    audio.preload = 'metadata'
+    audio.onloadedmetadata = () => {
+      const { duration } = audio
+      release()
+      resolve(Number.isFinite(duration) ? duration : null)
+    }
+    audio.onerror = () => {
+      release()
+      reject(new Error(`Could not read audio metadata: ${audio.error?.message ?? 'unknown error'}`))
+    }
+    audio.src = url
+  })
+}
+
+// Validates a picked or dropped file and turns it into an AudioFile with its exact duration and tags.
+// Every rejection is an AudioImportError whose message can be shown to the user as is.
+export async function importAudioFile(file: File, onStage?: (stage: AudioImportStage) => void): Promise<AudioFile> {
+  onStage?.('checking')
+  if (file.size === 0) {
+    throw new AudioImportError(`"${file.name}" is empty.`)
+  }
+  if (file.size > MAX_AUDIO_FILE_SIZE) {
+    throw new AudioImportError(
+      `"${file.name}" is ${formatMegabytes(file.size)}. Audio files can be up to ${formatMegabytes(MAX_AUDIO_FILE_SIZE)}.`
+    )
+  }
+
+  // The container is recognised from its bytes; the browser's MIME type is only a fallback
+  const header = new Uint8Array(await file.slice(0, FORMAT_HEADER_BYTES).arrayBuffer())
+  const format = sniffAudioFormat(header)
+  if (!format && !file.type.startsWith('audio/')) {
+    throw new AudioImportError(`"${file.name}" is not an audio file. Choose an MP3, WAV, M4A, FLAC or Ogg file.`)
+  }
+  if (format && new Audio().canPlayType(AUDIO_FORMATS[format].mimeType) === '') {
+    throw new AudioImportError(
+      `This browser can't play ${AUDIO_FORMATS[format].label} audio. Convert "${file.name}" to MP3 or WAV and try again.`
+    )
+  }
+
+  const url = URL.createObjectURL(file)
+  const audioFile: AudioFile = { file, url, duration: 0, name: file.name, metadata: {} }
+  try {
+    // Decoding a file that is too long can exhaust memory, so the limits are checked on the headers first
+    const probed = await probeDuration(url)
+    if (probed !== null) checkDuration(file.name, probed)
+
+    onStage?.('decoding')
+    const buffer = await decodeAudioFile(audioFile)
+    checkDuration(file.name, buffer.duration)
+
+    onStage?.('reading-tags')
+    const metadata = await readAudioTags(file, format)
+    return { ...audioFile, duration: buffer.duration, metadata }
+  } catch (error) {
+    URL.revokeObjectURL(url)
+    if (error instanceof AudioImportError) throw error
+    console.error('Error decoding audio file:', error)
+    throw new AudioImportError(
+      `"${file.name}" could not be decoded. It may be damaged, or use a codec this browser doesn't support.`
+    )
+  }
+}
@@ -0,0 +1,258 @@
+import { AudioFile } from '../App'
+import { AUDIO_SAMPLE_RATE, decodeAudioFile, getMonoSamples } from './audio'
+import { AudioRegion, AudioTrim, getFadeGain } from './audio-trim'
+
+export type AudioTrackRole = 'music' | 'voice' | 'effects'
+
+// Level settings shared by the main audio and every track laid over it
+export interface TrackMix {
+  role: AudioTrackRole
+  // Linear gain, 1 plays the file as recorded
+  volume: number
+  // -1 is hard left, 1 hard right
+  pan: number
+  muted: boolean
+  solo: boolean
+}
+
+// An extra audio file placed on the main audio's clock, like timeline items and captions
+export interface AudioTrack extends TrackMix {
+  id: string
+  name: string
+  audioFile: AudioFile
+  startTime: number
+  fadeIn: number
+  fadeOut: number
+}
+
+// Music drops by `amount` dB while a voice track is speaking, and recovers over `release` seconds
+export interface DuckingSettings {
+  enabled: boolean
+  amount: number
+  release: number
+}
+
+export interface AudioMix {
+  main: TrackMix
+  tracks: AudioTrack[]
+  ducking: DuckingSettings
+}
+
+export interface MixBuffers {
+  main: AudioBuffer
+  tracks: Map<string, AudioBuffer>
+}
+
+export const AUDIO_TRACK_ROLES: { value: AudioTrackRole, label: string }[] = [
+  { value: 'music', label: 'Music' },
+  { value: 'voice', label: 'Voice' },
+  { value: 'effects', label: 'Effects' }
+]
+
+export const MAX_TRACK_VOLUME = 2
+export const MAX_DUCKING_AMOUNT = 30
+export const MAX_DUCKING_RELEASE = 3
+
+export const DEFAULT_TRACK_MIX: TrackMix = {
+  role: 'music',
+  volume: 1,
+  pan: 0,
+  muted: false,
+  solo: false
+}
+
+export const DEFAULT_AUDIO_MIX: AudioMix = {
+  main: DEFAULT_TRACK_MIX,
+  tracks: [],
+  ducking: { enabled: true, amount: 12, release: 0.6 }
+}
+
+// Gain curves and voice detection are worked out in 10 ms steps
+const ENVELOPE_RATE = 100
+const VOICE_THRESHOLD = Math.pow(10, -40 / 20)
+const DUCKING_ATTACK = 0.08
+// Short pauses between words shouldn't let the music swell back up
+const DUCKING_HOLD = 0.3
+// Fades on added tracks always use the smooth curve; the trim's curve is the user's choice
+const TRACK_FADE_CURVE = 'equal-power'
+
+export function createAudioTrack(audioFile: AudioFile, role: AudioTrackRole, startTime: number): AudioTrack {
+  return {
+    ...DEFAULT_TRACK_MIX,
+    id: `audio-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: audioFile.name.replace(/\.[^.]+$/, ''),
+    audioFile,
+    role,
+    startTime,
+    fadeIn: 0,
+    fadeOut: 0
+  }
+}
+
+export function isTrackAudible(track: TrackMix, mix: AudioMix) {
+  const hasSolo = mix.main.solo || mix.tracks.some(t => t.solo)
+  return !track.muted && (!hasSolo || track.solo)
+}
+
+export async function loadMixBuffers(audioFile: AudioFile, mix: AudioMix): Promise<MixBuffers> {
+  const [main, ...tracks] = await Promise.all([
+    decodeAudioFile(audioFile),
+    ...mix.tracks.map(track => decodeAudioFile(track.audioFile))
+  ])
+  return { main, tracks: new Map(mix.tracks.map((track, i) => [track.id, tracks[i]])) }
+}
+
+// A mono main audio with nothing else in the mix stays mono, like before tracks existed
+export function getMixChannelCount(buffers: MixBuffers, mix: AudioMix) {
+  return mix.tracks.length === 0 && mix.main.pan === 0 ? Math.min(buffers.main.numberOfChannels, 2) : 2
+}
+
+interface MixSource {
+  settings: TrackMix
+  buffer: AudioBuffer
+  startTime: number
+  // Expressed as a trim over the source's own span so it can share the trim's fade maths
+  fades: AudioTrim | null
+}
+
+function getMixSources(buffers: MixBuffers, mix: AudioMix): MixSource[] {
+  const sources: MixSource[] = [{ settings: mix.main, buffer: buffers.main, startTime: 0, fades: null }]
+  for (const track of mix.tracks) {
+    const buffer = buffers.tracks.get(track.id)
+    if (!buffer) continue
+    sources.push({
+      settings: track,
+      buffer,
+      startTime: track.startTime,
+      fades: {
+        start: track.startTime,
+        end: track.startTime + buffer.duration,
+        fadeIn: track.fadeIn,
+        fadeOut: track.fadeOut,
+        fadeCurve: TRACK_FADE_CURVE
+      }
+    })
+  }
+  return sources.filter(source => isTrackAudible(source.settings, mix))
+}
+
+const levelCache = new WeakMap<AudioBuffer, Float32Array>()
+
+// RMS level of each envelope step of the buffer
+function getLevels(buffer: AudioBuffer): Float32Array {
+  const cached = levelCache.get(buffer)
+  if (cached) return cached
+
+  const samples = getMonoSamples(buffer)
+  const step = buffer.sampleRate / ENVELOPE_RATE
+  const levels = new Float32Array(Math.ceil(samples.length / step))
+  for (let i = 0; i < levels.length; i++) {
+    const start = Math.floor(i * step)
+    const end = Math.min(samples.length, Math.floor((i + 1) * step))
+    let sum = 0
+    for (let j = start; j < end; j++) sum += samples[j] * samples[j]
+    levels[i] = Math.sqrt(sum / Math.max(1, end - start))
+  }
+  levelCache.set(buffer, levels)
+  return levels
+}
+
+// Gain for music at each step from 0 to `to`, dipping wherever an audible voice is above the threshold
+function getDuckingEnvelope(sources: MixSource[], ducking: DuckingSettings, to: number): Float32Array {
+  const steps = Math.ceil(to * ENVELOPE_RATE) + 1
+  const envelope = new Float32Array(steps).fill(1)
+  const voices = sources.filter(source => source.settings.role === 'voice')
+  if (!ducking.enabled || ducking.amount <= 0 || voices.length === 0) return envelope
+
+  const floor = Math.pow(10, -ducking.amount / 20)
+  const attackStep = (1 - floor) / (DUCKING_ATTACK * ENVELOPE_RATE)
+  const releaseStep = ducking.release > 0 ? (1 - floor) / (ducking.release * ENVELOPE_RATE) : 1
+  const holdSteps = Math.round(DUCKING_HOLD * ENVELOPE_RATE)
+  const voiceLevels = voices.map(voice => ({ voice, levels: getLevels(voice.buffer) }))
+
+  let gain = 1
+  let lastVoice = -Infinity
+  for (let i = 0; i < steps; i++) {
+    const isSpeaking = voiceLevels.some(({ voice, levels }) => {
+      const level = levels[i - Math.round(voice.startTime * ENVELOPE_RATE)]
+      return level !== undefined && level * voice.settings.volume > VOICE_THRESHOLD
+    })
+    if (isSpeaking) lastVoice = i
+    const target = i - lastVoice <= holdSteps ? floor : 1
+    gain = target < gain ? Math.max(target, gain - attackStep) : Math.min(target, gain + releaseStep)
+    envelope[i] = gain
+  }
+  return envelope
+}
+
+// Plays the mix of file time `from` to `to` into `context`, starting at `when` on its clock.
+// The same graph renders the export offline and plays the preview live, so they sound the same.
+export function scheduleMix(
+  context: BaseAudioContext,
+  buffers: MixBuffers,
+  mix: AudioMix,
+  trim: AudioTrim | null,
+  from: number,
+  to: number,
+  when: number
+): () => void {
+  const sources = getMixSources(buffers, mix)
+  const ducking = getDuckingEnvelope(sources, mix.ducking, to)
+  const nodes: AudioScheduledSourceNode[] = []
+  const connected: AudioNode[] = []
+
+  for (const source of sources) {
+    const start = Math.max(from, source.startTime)
+    const end = Math.min(to, source.startTime + source.buffer.duration)
+    if (end - start <= 0) continue
+
+    const { settings } = source
+    const isDucked = settings.role === 'music'
+    const curve = new Float32Array(Math.max(2, Math.ceil((end - start) * ENVELOPE_RATE) + 1))
+    for (let i = 0; i < curve.length; i++) {
+      const time = start + ((end - start) * i) / (curve.length - 1)
+      curve[i] = settings.volume
+        * getFadeGain(trim, time)
+        * getFadeGain(source.fades, time)
+        * (isDucked ? ducking[Math.min(ducking.length - 1, Math.round(time * ENVELOPE_RATE))] : 1)
+    }
+
+    const node = context.createBufferSource()
+    node.buffer = source.buffer
+    const gain = context.createGain()
+    gain.gain.setValueCurveAtTime(curve, when + start - from, end - start)
+    node.connect(gain)
+    // Panning a mono source at centre would drop it 3 dB, so centred tracks skip the panner
+    if (settings.pan !== 0) {
+      const panner = context.createStereoPanner()
+      panner.pan.value = settings.pan
+      gain.connect(panner)
+      panner.connect(context.destination)
+      connected.push(panner)
+    } else {
+      gain.connect(context.destination)
+    }
+    node.start(when + start - from, start - source.startTime, end - start)
+    nodes.push(node)
+    connected.push(node, gain)
+  }
+
+  return () => {
+    for (const node of nodes) node.stop()
+    for (const node of connected) node.disconnect()
+  }
+}
+
+// The export's soundtrack: the trimmed region of the whole mix, starting at zero
+export function renderMix(
+  buffers: MixBuffers,
+  mix: AudioMix,
+  trim: AudioTrim | null,
+  region: AudioRegion,
+  numberOfChannels: number
+): Promise<AudioBuffer> {
+  const length = Math.max(1, Math.round(region.duration * AUDIO_SAMPLE_RATE))
+  const context = new OfflineAudioContext(numberOfChannels, length, AUDIO_SAMPLE_RATE)
+  scheduleMix(context, buffers, mix, trim, region.start, region.end, 0)
+  return context.startRendering()
+}
@@ -0,0 +1,475 @@
+export type AudioFormat = 'mp3' | 'aac' | 'wav' | 'flac' | 'ogg' | 'm4a' | 'webm' | 'aiff'
+
+export interface CoverArt {
+  url: string
+  mimeType: string
+}
+
+// Whatever the file's tags say about itself; every field is optional because most files only carry some
+export interface AudioMetadata {
+  title?: string
+  artist?: string
+  album?: string
+  coverArt?: CoverArt
+}
+
+export const AUDIO_FORMATS: Record<AudioFormat, { label: string, mimeType: string }> = {
+  mp3: { label: 'MP3', mimeType: 'audio/mpeg' },
+  aac: { label: 'AAC', mimeType: 'audio/aac' },
+  wav: { label: 'WAV', mimeType: 'audio/wav' },
+  flac: { label: 'FLAC', mimeType: 'audio/flac' },
+  ogg: { label: 'Ogg', mimeType: 'audio/ogg' },
+  m4a: { label: 'M4A', mimeType: 'audio/mp4' },
+  webm: { label: 'WebM', mimeType: 'audio/webm' },
+  aiff: { label: 'AIFF', mimeType: 'audio/aiff' }
+}
+
+// Enough of the file to recognise every container we know
+export const FORMAT_HEADER_BYTES = 12
+// Ogg tags sit in the first few pages; cover art larger than this is skipped
+const OGG_SCAN_BYTES = 4 * 1024 * 1024
+const ID3V1_SIZE = 128
+
+interface RawPicture {
+  data: Uint8Array
+  mimeType: string
+  isFrontCover: boolean
+}
+
+interface RawTags {
+  title?: string
+  artist?: string
+  album?: string
+  picture?: RawPicture
+}
+
+const latin1 = new TextDecoder('latin1')
+const utf8 = new TextDecoder('utf-8')
+
+function ascii(bytes: Uint8Array, offset: number, length: number) {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length))
+}
+
+function u32be(bytes: Uint8Array, offset: number) {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0
+}
+
+function u32le(bytes: Uint8Array, offset: number) {
+  return ((bytes[offset + 3] << 24) | (bytes[offset + 2] << 16) | (bytes[offset + 1] << 8) | bytes[offset]) >>> 0
+}
+
+// ID3v2 sizes keep the top bit of every byte clear
+function syncsafe(bytes: Uint8Array, offset: number) {
+  return (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3]
+}
+
+async function readBytes(file: Blob, start: number, length: number) {
+  return new Uint8Array(await file.slice(start, start + length).arrayBuffer())
+}
+
+function clean(text: string) {
+  const value = text.split('\0')[0].trim()
+  return value || undefined
+}
+
+function addText(tags: RawTags, key: 'title' | 'artist' | 'album', value: string | undefined) {
+  if (value && !tags[key]) tags[key] = value
+}
+
+// Front covers win over other embedded pictures, otherwise the first picture is kept
+function addPicture(tags: RawTags, picture: RawPicture) {
+  if (picture.data.length === 0) return
+  if (!tags.picture || (picture.isFrontCover && !tags.picture.isFrontCover)) tags.picture = picture
+}
+
+function getImageType(data: Uint8Array, declared: string) {
+  if (data[0] === 0xff && data[1] === 0xd8) return 'image/jpeg'
+  if (data[0] === 0x89 && data[1] === 0x50) return 'image/png'
+  if (declared.includes('/')) return declared.toLowerCase()
+  return declared.toUpperCase() === 'PNG' ? 'image/png' : 'image/jpeg'
+}
+
+export function sniffAudioFormat(header: Uint8Array): AudioFormat | null {
+  const tag = ascii(header, 0, 4)
+  if (tag.startsWith('ID3')) return 'mp3'
+  if (header[0] === 0xff && (header[1] & 0xf0) === 0xf0 && (header[1] & 0x06) === 0) return 'aac'
+  if (header[0] === 0xff && (header[1] & 0xe0) === 0xe0) return 'mp3'
+  if (tag === 'RIFF' && ascii(header, 8, 4) === 'WAVE') return 'wav'
+  if (tag === 'fLaC') return 'flac'
+  if (tag === 'OggS') return 'ogg'
+  if (ascii(header, 4, 4) === 'ftyp') return 'm4a'
+  if (header[0] === 0x1a && header[1] === 0x45 && header[2] === 0xdf && header[3] === 0xa3) return 'webm'
+  if (tag === 'FORM' && ['AIFF', 'AIFC'].includes(ascii(header, 8, 4))) return 'aiff'
+  return null
+}
+
+// Unsynchronisation stuffs a zero after every 0xFF; take them back out
+function removeUnsync(data: Uint8Array) {
+  const out = new Uint8Array(data.length)
+  let length = 0
+  for (let i = 0; i < data.length; i++) {
+    out[length++] = data[i]
+    if (data[i] === 0xff && data[i + 1] === 0x00) i++
+  }
+  return out.subarray(0, length)
+}
+
+function decodeId3Text(bytes: Uint8Array, encoding: number) {
+  switch (encoding) {
+    case 1:
+      return bytes[0] === 0xfe && bytes[1] === 0xff
+        ? new TextDecoder('utf-16be').decode(bytes.subarray(2))
+        : new TextDecoder('utf-16le').decode(bytes)
+    case 2:
+      return new TextDecoder('utf-16be').decode(bytes)
+    case 3:
+      return utf8.decode(bytes)
+    default:
+      return latin1.decode(bytes)
+  }
+}
+
+// End of a null-terminated string in the frame's encoding; UTF-16 ends on an aligned double zero
+function findTerminator(bytes: Uint8Array, start: number, encoding: number) {
+  const wide = encoding === 1 || encoding === 2
+  for (let i = start; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i
+  }
+  return bytes.length
+}
+
+function parseId3Picture(body: Uint8Array, version: number, tags: RawTags) {
+  const encoding = body[0]
+  let offset = 1
+  let mimeType: string
+  if (version === 2) {
+    mimeType = ascii(body, 1, 3)
+    offset = 4
+  } else {
+    const end = findTerminator(body, 1, 0)
+    mimeType = latin1.decode(body.subarray(1, end))
+    offset = end + 1
+  }
+  const pictureType = body[offset]
+  const descriptionEnd = findTerminator(body, offset + 1, encoding)
+  const data = body.subarray(descriptionEnd + (encoding === 1 || encoding === 2 ? 2 : 1))
+  addPicture(tags, { data, mimeType: getImageType(data, mimeType), isFrontCover: pictureType === 3 })
+}
+
+function parseId3v2(tag: Uint8Array, tags: RawTags) {
+  const version = tag[3]
+  const flags = tag[5]
+  let data = tag.subarray(10)
+  if (flags & 0x80 && version < 4) data = removeUnsync(data)
+
+  let offset = 0
+  if (flags & 0x40 && version >= 3) {
+    offset = version === 3 ? u32be(data, 0) + 4 : syncsafe(data, 0)
+  }
+
+  const idLength = version === 2 ? 3 : 4
+  const headerLength = version === 2 ? 6 : 10
+  while (offset + headerLength <= data.length) {
+    const id = ascii(data, offset, idLength)
+    if (!/^[A-Z0-9]+$/.test(id)) break
+
+    const size = version === 2
+      ? (data[offset + 3] << 16) | (data[offset + 4] << 8) | data[offset + 5]
+      : version === 4 ? syncsafe(data, offset + 4) : u32be(data, offset + 4)
+    let body = data.subarray(offset + headerLength, offset + headerLength + size)
+    offset += headerLength + size
+
+    if (version === 4) {
+      const formatFlags = data[offset - size - 1]
+      if (formatFlags & 0x01) body = body.subarray(4)
+      if (formatFlags & 0x02) body = removeUnsync(body)
+    }
+    if (body.length === 0) continue
+
+    switch (id) {
+      case 'TIT2':
+      case 'TT2':
+        addText(tags, 'title', clean(decodeId3Text(body.subarray(1), body[0])))
+        break
+      case 'TPE1':
+      case 'TP1':
+        addText(tags, 'artist', clean(decodeId3Text(body.subarray(1), body[0])))
+        break
+      case 'TALB':
+      case 'TAL':
+        addText(tags, 'album', clean(decodeId3Text(body.subarray(1), body[0])))
+        break
+      case 'APIC':
+      case 'PIC':
+        parseId3Picture(body, version, tags)
+        break
+    }
+  }
+}
+
+async function readId3v2(file: Blob, offset: number, tags: RawTags) {
+  const header = await readBytes(file, offset, 10)
+  if (ascii(header, 0, 3) !== 'ID3' || header.length < 10) return
+  const tag = await readBytes(file, offset, 10 + syncsafe(header, 6))
+  parseId3v2(tag, tags)
+}
+
+async function readId3v1(file: Blob, tags: RawTags) {
+  if (file.size < ID3V1_SIZE) return
+  const tag = await readBytes(file, file.size - ID3V1_SIZE, ID3V1_SIZE)
+  if (ascii(tag, 0, 3) !== 'TAG') return
+  addText(tags, 'title', clean(latin1.decode(tag.subarray(3, 33))))
+  addText(tags, 'artist', clean(latin1.decode(tag.subarray(33, 63))))
+  addText(tags, 'album', clean(latin1.decode(tag.subarray(63, 93))))
+}
+
+// The FLAC picture block, also found base64-encoded in Ogg comments
+function parseFlacPicture(body: Uint8Array, tags: RawTags) {
+  const pictureType = u32be(body, 0)
+  const mimeLength = u32be(body, 4)
+  const mimeType = latin1.decode(body.subarray(8, 8 + mimeLength))
+  let offset = 8 + mimeLength
+  offset += 4 + u32be(body, offset)
+  // Width, height, colour depth and palette size
+  offset += 16
+  const length = u32be(body, offset)
+  const data = body.subarray(offset + 4, offset + 4 + length)
+  addPicture(tags, { data, mimeType: getImageType(data, mimeType), isFrontCover: pictureType === 3 })
+}
+
+function decodeBase64(value: string) {
+  try {
+    return Uint8Array.from(atob(value), c => c.charCodeAt(0))
+  } catch {
+    return null
+  }
+}
+
+function parseVorbisComments(bytes: Uint8Array, tags: RawTags) {
+  let offset = 4 + u32le(bytes, 0)
+  const count = u32le(bytes, offset)
+  offset += 4
+  let legacyCover: string | null = null
+  let legacyCoverType = ''
+
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = u32le(bytes, offset)
+    const comment = utf8.decode(bytes.subarray(offset + 4, offset + 4 + length))
+    offset += 4 + length
+
+    const split = comment.indexOf('=')
+    if (split < 0) continue
+    const key = comment.slice(0, split).toUpperCase()
+    const value = comment.slice(split + 1)
+    if (key === 'TITLE') addText(tags, 'title', clean(value))
+    else if (key === 'ARTIST') addText(tags, 'artist', clean(value))
+    else if (key === 'ALBUM') addText(tags, 'album', clean(value))
+    else if (key === 'METADATA_BLOCK_PICTURE') {
+      const picture = decodeBase64(value)
+      if (picture) parseFlacPicture(picture, tags)
+    } else if (key === 'COVERART') legacyCover = value
+    else if (key === 'COVERARTMIME') legacyCoverType = value
+  }
+
+  const legacy = legacyCover && decodeBase64(legacyCover)
+  if (legacy) addPicture(tags, { data: legacy, mimeType: getImageType(legacy, legacyCoverType), isFrontCover: false })
+}
+
+async function readFlacTags(file: Blob, tags: RawTags) {
+  let offset = 4
+  while (offset + 4 <= file.size) {
+    const header = await readBytes(file, offset, 4)
+    const isLast = (header[0] & 0x80) !== 0
+    const type = header[0] & 0x7f
+    const length = (header[1] << 16) | (header[2] << 8) | header[3]
+    if (type === 4) parseVorbisComments(await readBytes(file, offset + 4, length), tags)
+    if (type === 6) parseFlacPicture(await readBytes(file, offset + 4, length), tags)
+    if (isLast) break
+    offset += 4 + length
+  }
+}
+
+// Comment packets are the second packet of the first stream, reassembled from its pages
+async function readOggTags(file: Blob, tags: RawTags) {
+  const data = await readBytes(file, 0, OGG_SCAN_BYTES)
+  const packets: Uint8Array[] = []
+  let current: number[] = []
+  let offset = 0
+
+  while (packets.length < 2 && offset + 27 <= data.length && ascii(data, offset, 4) === 'OggS') {
+    const segmentCount = data[offset + 26]
+    const table = data.subarray(offset + 27, offset + 27 + segmentCount)
+    let bodyOffset = offset + 27 + segmentCount
+    for (const size of table) {
+      for (let i = 0; i < size; i++) current.push(data[bodyOffset + i])
+      bodyOffset += size
+      // A segment shorter than 255 bytes ends the packet
+      if (size < 255) {
+        packets.push(Uint8Array.from(current))
+        current = []
+        if (packets.length === 2) break
+      }
+    }
+    offset = bodyOffset
+  }
+
+  const comments = packets[1]
+  if (!comments) return
+  if (comments[0] === 3 && ascii(comments, 1, 6) === 'vorbis') parseVorbisComments(comments.subarray(7), tags)
+  else if (ascii(comments, 0, 8) === 'OpusTags') parseVorbisComments(comments.subarray(8), tags)
+}
+
+interface Mp4Atom {
+  type: string
+  start: number
+  end: number
+}
+
+// Child atoms laid out between `start` and `end`
+function listAtoms(bytes: Uint8Array, start: number, end: number): Mp4Atom[] {
+  const atoms: Mp4Atom[] = []
+  let offset = start
+  while (offset + 8 <= end) {
+    let size = u32be(bytes, offset)
+    let headerSize = 8
+    if (size === 1) {
+      size = u32be(bytes, offset + 8) * 2 ** 32 + u32be(bytes, offset + 12)
+      headerSize = 16
+    } else if (size === 0) {
+      size = end - offset
+    }
+    if (size < headerSize) break
+    atoms.push({ type: ascii(bytes, offset + 4, 4), start: offset + headerSize, end: Math.min(end, offset + size) })
+    offset += size
+  }
+  return atoms
+}
+
+function parseMp4Metadata(moov: Uint8Array, tags: RawTags) {
+  const find = (atoms: Mp4Atom[], type: string) => atoms.find(atom => atom.type === type)
+  const udta = find(listAtoms(moov, 0, moov.length), 'udta')
+  const meta = udta && find(listAtoms(moov, udta.start, udta.end), 'meta')
+  if (!meta) return
+  // meta is a full box in MP4 files, but QuickTime writes it without the version and flags
+  const metaStart = ascii(moov, meta.start + 4, 4) === 'hdlr' ? meta.start : meta.start + 4
+  const ilst = find(listAtoms(moov, metaStart, meta.end), 'ilst')
+  if (!ilst) return
+
+  for (const item of listAtoms(moov, ilst.start, ilst.end)) {
+    const data = find(listAtoms(moov, item.start, item.end), 'data')
+    if (!data) continue
+    const kind = u32be(moov, data.start) & 0xffffff
+    const payload = moov.subarray(data.start + 8, data.end)
+    switch (item.type) {
+      case '©nam':
+        addText(tags, 'title', clean(utf8.decode(payload)))
+        break
+      case '©ART':
+      case 'aART':
+        addText(tags, 'artist', clean(utf8.decode(payload)))
+        break
+      case '©alb':
+        addText(tags, 'album', clean(utf8.decode(payload)))
+        break
+      case 'covr':
+        addPicture(tags, {
+          data: payload,
+          mimeType: getImageType(payload, kind === 14 ? 'image/png' : 'image/jpeg'),
+          isFrontCover: true
+        })
+        break
+    }
+  }
+}
+
+async function readMp4Tags(file: Blob, tags: RawTags) {
+  let offset = 0
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, 16)
+    let size = u32be(header, 0)
+    if (size === 1) size = u32be(header, 8) * 2 ** 32 + u32be(header, 12)
+    else if (size === 0) size = file.size - offset
+    if (size < 8) return
+
+    if (ascii(header, 4, 4) === 'moov') {
+      const headerSize = u32be(header, 0) === 1 ? 16 : 8
+      parseMp4Metadata(await readBytes(file, offset + headerSize, size - headerSize), tags)
+      return
+    }
+    offset += size
+  }
+}
+
+// RIFF (WAV) chunks are little-endian, IFF (AIFF) ones big-endian; both may carry an ID3 chunk
+async function readChunkTags(file: Blob, littleEndian: boolean, tags: RawTags) {
+  let offset = 12
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, 8)
+    const id = ascii(header, 0, 4)
+    const size = littleEndian ? u32le(header, 4) : u32be(header, 4)
+    const body = offset + 8
+
+    if (id === 'id3 ' || id === 'ID3 ') {
+      await readId3v2(file, body, tags)
+    } else if (id === 'LIST' && littleEndian) {
+      const list = await readBytes(file, body, size)
+      if (ascii(list, 0, 4) === 'INFO') {
+        let sub = 4
+        while (sub + 8 <= list.length) {
+          const subId = ascii(list, sub, 4)
+          const subSize = u32le(list, sub + 4)
+          const value = clean(latin1.decode(list.subarray(sub + 8, sub + 8 + subSize)))
+          if (subId === 'INAM') addText(tags, 'title', value)
+          else if (subId === 'IART') addText(tags, 'artist', value)
+          else if (subId === 'IPRD') addText(tags, 'album', value)
+          sub += 8 + subSize + (subSize % 2)
+        }
+      }
+    } else if (id === 'NAME' && !littleEndian) {
+      addText(tags, 'title', clean(latin1.decode(await readBytes(file, body, size))))
+    }
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2)
+  }
+}
+
+// Best effort: a file with damaged or unknown tags simply comes back without metadata
+export async function readAudioTags(file: Blob, format: AudioFormat | null): Promise<AudioMetadata> {
+  const tags: RawTags = {}
+  try {
+    switch (format) {
+      case 'mp3':
+      case 'aac':
+        await readId3v2(file, 0, tags)
+        await readId3v1(file, tags)
+        break
+      case 'flac':
+        await readFlacTags(file, tags)
+        break
+      case 'ogg':
+        await readOggTags(file, tags)
+        break
+      case 'm4a':
+        await readMp4Tags(file, tags)
+        break
+      case 'wav':
+        await readChunkTags(file, true, tags)
+        break
+      case 'aiff':
+        await readChunkTags(file, false, tags)
+        break
+    }
+  } catch (error) {
+    console.warn('Could not read audio tags:', error)
+  }
+
+  const { picture, ...text } = tags
+  if (!picture) return text
+  const blob = new Blob([picture.data as Uint8Array<ArrayBuffer>], { type: picture.mimeType })
+  return { ...text, coverArt: { url: URL.createObjectURL(blob), mimeType: picture.mimeType } }
+}
+
+// For files that come back from storage, where only the bytes were kept
+export async function readAudioFileTags(file: Blob): Promise<AudioMetadata> {
+  return readAudioTags(file, sniffAudioFormat(await readBytes(file, 0, FORMAT_HEADER_BYTES)))
+}
@@ -0,0 +1,93 @@
+export type FadeCurve = 'linear' | 'equal-power' | 'exponential'
+
+// The part of the audio that becomes the video, in seconds of the original file.
+// The timeline and captions stay in file time, so trimming never moves anything out of sync.
+export interface AudioTrim {
+  start: number
+  end: number
+  fadeIn: number
+  fadeOut: number
+  fadeCurve: FadeCurve
+}
+
+export interface AudioRegion {
+  start: number
+  end: number
+  duration: number
+}
+
+export const FADE_CURVES: { value: FadeCurve, label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'equal-power', label: 'Equal power' },
+  { value: 'exponential', label: 'Exponential' }
+]
+
+export const MIN_TRIM_DURATION = 1
+export const MAX_FADE_DURATION = 10
+
+// The whole file when nothing is trimmed
+export function getAudioRegion(trim: AudioTrim | null, audioDuration: number): AudioRegion {
+  const start = trim ? Math.min(trim.start, audioDuration) : 0
+  const end = trim ? Math.min(trim.end, audioDuration) : audioDuration
+  return { start, end, duration: Math.max(0, end - start) }
+}
+
+// Fades never overlap, so each is held to half the region
+function clampFade(fade: number, duration: number) {
+  return Math.min(Math.max(0, fade), MAX_FADE_DURATION, duration / 2)
+}
+
+// In and out points can be given either way round; fades shrink to fit a shorter region
+export function createTrim(
+  from: number,
+  to: number,
+  audioDuration: number,
+  previous: AudioTrim | null
+): AudioTrim {
+  let start = Math.max(0, Math.min(from, to))
+  let end = Math.min(audioDuration, Math.max(from, to))
+  if (end - start < MIN_TRIM_DURATION) {
+    end = Math.min(audioDuration, start + MIN_TRIM_DURATION)
+    start = Math.max(0, end - MIN_TRIM_DURATION)
+  }
+  const duration = end - start
+  return {
+    start,
+    end,
+    fadeIn: clampFade(previous?.fadeIn ?? 0, duration),
+    fadeOut: clampFade(previous?.fadeOut ?? 0, duration),
+    fadeCurve: previous?.fadeCurve ?? 'equal-power'
+  }
+}
+
+export function setFades(trim: AudioTrim, fadeIn: number, fadeOut: number): AudioTrim {
+  const duration = trim.end - trim.start
+  return { ...trim, fadeIn: clampFade(fadeIn, duration), fadeOut: clampFade(fadeOut, duration) }
+}
+
+// Gain for a fade that is `progress` of the way in, from 0 (silent) to 1 (full)
+function applyCurve(curve: FadeCurve, progress: number) {
+  const x = Math.min(1, Math.max(0, progress))
+  switch (curve) {
+    case 'equal-power':
+      return Math.sin((x * Math.PI) / 2)
+    case 'exponential':
+      return x * x
+    default:
+      return x
+  }
+}
+
+// Volume at `time` (file time) once the fades are applied
+export function getFadeGain(trim: AudioTrim | null, time: number): number {
+  if (!trim) return 1
+
+  let gain = 1
+  if (trim.fadeIn > 0 && time < trim.start + trim.fadeIn) {
+    gain *= applyCurve(trim.fadeCurve, (time - trim.start) / trim.fadeIn)
+  }
+  if (trim.fadeOut > 0 && time > trim.end - trim.fadeOut) {
+    gain *= applyCurve(trim.fadeCurve, (trim.end - time) / trim.fadeOut)
+  }
+  return gain
+}
@@ -0,0 +1,163 @@
+import { AudioFile } from '../App'
+import { magnitudeSpectrum } from './fft'
+
+// Everything downstream (encoders, analysis) works at a single rate
+export const AUDIO_SAMPLE_RATE = 48000
+
+const decodedAudio = new WeakMap<File, Promise<AudioBuffer>>()
+
+// Decode an uploaded audio file once and share the buffer between callers
+export function decodeAudioFile(audioFile: AudioFile): Promise<AudioBuffer> {
+  const cached = decodedAudio.get(audioFile.file)
+  if (cached) return cached
+
+  const pending = audioFile.file.arrayBuffer().then((data) => {
+    const context = new OfflineAudioContext(1, 1, AUDIO_SAMPLE_RATE)
+    return context.decodeAudioData(data)
+  })
+
+  // Allow a retry after a failed decode instead of caching the rejection
+  pending.catch(() => decodedAudio.delete(audioFile.file))
+  decodedAudio.set(audioFile.file, pending)
+  return pending
+}
+
+export interface WaveformPeaks {
+  min: Float32Array
+  max: Float32Array
+}
+
+const peaksCache = new WeakMap<AudioBuffer, Map<number, WaveformPeaks>>()
+
+// Min/max sample per bucket across all channels, cached per buffer and bucket count
+export function computePeaks(buffer: AudioBuffer, buckets: number): WaveformPeaks {
+  let byBucketCount = peaksCache.get(buffer)
+  if (!byBucketCount) {
+    byBucketCount = new Map()
+    peaksCache.set(buffer, byBucketCount)
+  }
+
+  const cached = byBucketCount.get(buckets)
+  if (cached) return cached
+
+  const min = new Float32Array(buckets)
+  const max = new Float32Array(buckets)
+  const samplesPerBucket = buffer.length / buckets
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel)
+    for (let bucket = 0; bucket < buckets; bucket++) {
+      const start = Math.floor(bucket * samplesPerBucket)
+      const end = Math.min(data.length, Math.max(start + 1, Math.floor((bucket + 1) * samplesPerBucket)))
+      let low = min[bucket]
+      let high = max[bucket]
+      for (let i = start; i < end; i++) {
+        const sample = data[i]
+        if (sample < low) low = sample
+        if (sample > high) high = sample
+      }
+      min[bucket] = low
+      max[bucket] = high
+    }
+  }
+
+  const peaks = { min, max }
+  byBucketCount.set(buckets, peaks)
+  return peaks
+}
+
+const monoCache = new WeakMap<AudioBuffer, Float32Array>()
+
+// Average of all channels, the input every analysis pass works from
+export function getMonoSamples(buffer: AudioBuffer): Float32Array {
+  const cached = monoCache.get(buffer)
+  if (cached) return cached
+
+  const mono = new Float32Array(buffer.length)
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel)
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels
+    }
+  }
+
+  monoCache.set(buffer, mono)
+  return mono
+}
+
+// Mono samples at another rate, e.g. the 16 kHz speech models expect
+export async function resampleMono(buffer: AudioBuffer, sampleRate: number): Promise<Float32Array> {
+  const context = new OfflineAudioContext(1, Math.max(1, Math.ceil(buffer.duration * sampleRate)), sampleRate)
+  const source = context.createBufferSource()
+  source.buffer = buffer
+  source.connect(context.destination)
+  source.start()
+  const rendered = await context.startRendering()
+  return rendered.getChannelData(0)
+}
+
+const SPECTRUM_SIZE = 2048
+const SPECTRUM_FLOOR_DB = -70
+const SPECTRUM_MIN_HZ = 40
+const SPECTRUM_MAX_HZ = 16000
+
+// Loudness of `count` log-spaced frequency bands around `time`, each scaled to 0..1
+export function getSpectrumBands(buffer: AudioBuffer, time: number, count: number): Float32Array {
+  const samples = getMonoSamples(buffer)
+  const offset = Math.round(time * buffer.sampleRate) - SPECTRUM_SIZE / 2
+  const magnitudes = magnitudeSpectrum(samples, offset, SPECTRUM_SIZE)
+  const binWidth = buffer.sampleRate / SPECTRUM_SIZE
+  // A full-scale sine peaks at a quarter of the window length under a Hann window
+  const reference = SPECTRUM_SIZE / 4
+
+  const bands = new Float32Array(count)
+  for (let band = 0; band < count; band++) {
+    const low = SPECTRUM_MIN_HZ * Math.pow(SPECTRUM_MAX_HZ / SPECTRUM_MIN_HZ, band / count)
+    const high = SPECTRUM_MIN_HZ * Math.pow(SPECTRUM_MAX_HZ / SPECTRUM_MIN_HZ, (band + 1) / count)
+    const first = Math.floor(low / binWidth)
+    const last = Math.max(first, Math.min(magnitudes.length - 1, Math.ceil(high / binWidth) - 1))
+
+    let peak = 0
+    for (let bin = first; bin <= last; bin++) {
+      peak = Math.max(peak, magnitudes[bin])
+    }
+    const db = 20 * Math.log10(peak / reference + 1e-10)
+    bands[band] = Math.min(1, Math.max(0, 1 - db / SPECTRUM_FLOOR_DB))
+  }
+  return bands
+}
+
+export interface SilenceGap {
+  start: number
+  end: number
+}
+
+const SILENCE_WINDOW_SECONDS = 0.05
+
+// Stretches where the RMS level stays under `thresholdDb` for at least `minDuration` seconds
+export function findSilenceGaps(buffer: AudioBuffer, thresholdDb = -40, minDuration = 0.3): SilenceGap[] {
+  const samples = getMonoSamples(buffer)
+  const windowSize = Math.round(SILENCE_WINDOW_SECONDS * buffer.sampleRate)
+  const threshold = Math.pow(10, thresholdDb / 20)
+  const gaps: SilenceGap[] = []
+  let gapStart: number | null = null
+
+  for (let offset = 0; offset < samples.length; offset += windowSize) {
+    const end = Math.min(samples.length, offset + windowSize)
+    let sum = 0
+    for (let i = offset; i < end; i++) sum += samples[i] * samples[i]
+    const isSilent = Math.sqrt(sum / (end - offset)) < threshold
+
+    if (isSilent && gapStart === null) {
+      gapStart = offset
+    } else if (!isSilent && gapStart !== null) {
+      gaps.push({ start: gapStart / buffer.sampleRate, end: offset / buffer.sampleRate })
+      gapStart = null
+    }
+  }
+  if (gapStart !== null) {
+    gaps.push({ start: gapStart / buffer.sampleRate, end: samples.length / buffer.sampleRate })
+  }
+
+  return gaps.filter(gap => gap.end - gap.start >= minDuration)
+}
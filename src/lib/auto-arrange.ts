@@ -0,0 +1,104 @@
+import { TimelineItem } from '../App'
+import { findNearestTime } from './beat-detection'
+
+export type ArrangeFit = 'sequence' | 'stretch' | 'distribute'
+export type ArrangeSnap = 'none' | 'beats' | 'bars' | 'silence'
+
+export interface ArrangeOptions {
+  fit: ArrangeFit
+  totalDuration: number
+  // Where the arrangement begins, such as the in point of trimmed audio
+  startTime?: number
+  // Sorted candidate cut times for the chosen snap mode
+  snapTimes?: number[]
+}
+
+export const ARRANGE_FITS: { value: ArrangeFit, label: string }[] = [
+  { value: 'sequence', label: 'End to end' },
+  { value: 'stretch', label: 'Stretch to audio' },
+  { value: 'distribute', label: 'Distribute evenly' }
+]
+
+export const ARRANGE_SNAPS: { value: ArrangeSnap, label: string }[] = [
+  { value: 'none', label: 'No snapping' },
+  { value: 'beats', label: 'Snap to beats' },
+  { value: 'bars', label: 'Snap to bars' },
+  { value: 'silence', label: 'Snap to silences' }
+]
+
+const MIN_ITEM_DURATION = 0.5
+
+function getDurations(items: TimelineItem[], fit: ArrangeFit, totalDuration: number): number[] {
+  if (fit === 'distribute') {
+    return items.map(() => totalDuration / items.length)
+  }
+
+  const durations = items.map(item => item.duration)
+  if (fit === 'stretch') {
+    const sum = durations.reduce((total, duration) => total + duration, 0)
+    return durations.map(duration => (duration / sum) * totalDuration)
+  }
+  return durations
+}
+
+// Move each cut to the nearest candidate while keeping every item at least MIN_ITEM_DURATION long
+function snapCuts(cuts: number[], snapTimes: number[], totalDuration: number): number[] {
+  const snapped: number[] = []
+  let previous = 0
+
+  cuts.forEach((cut, i) => {
+    const remaining = cuts.length - i
+    const latest = totalDuration - remaining * MIN_ITEM_DURATION
+    const target = findNearestTime(snapTimes, cut) ?? cut
+    const next = target > previous + MIN_ITEM_DURATION && target <= latest ? target : cut
+    previous = Math.min(Math.max(next, previous + MIN_ITEM_DURATION), Math.max(latest, previous + MIN_ITEM_DURATION))
+    snapped.push(previous)
+  })
+
+  return snapped
+}
+
+function arrangeTrack(items: TimelineItem[], options: ArrangeOptions): TimelineItem[] {
+  const { fit, totalDuration, snapTimes } = options
+  const ordered = [...items].sort((a, b) => a.startTime - b.startTime || a.position - b.position)
+  const durations = getDurations(ordered, fit, totalDuration)
+
+  let cuts: number[] = []
+  let time = 0
+  for (const duration of durations.slice(0, -1)) {
+    time += duration
+    cuts.push(time)
+  }
+
+  const lastDuration = durations[durations.length - 1]
+  if (snapTimes && snapTimes.length > 0) {
+    const limit = fit === 'sequence' ? Math.max(time + lastDuration, totalDuration) : totalDuration
+    cuts = snapCuts(cuts, snapTimes, limit)
+  }
+
+  const lastStart = cuts[cuts.length - 1] ?? 0
+  const bounds = [0, ...cuts, fit === 'sequence' ? lastStart + lastDuration : totalDuration]
+  return ordered.map((item, i) => ({
+    ...item,
+    startTime: bounds[i],
+    duration: bounds[i + 1] - bounds[i]
+  }))
+}
+
+// Lay each track's items end to end in their current order, optionally filling the audio and snapping cuts
+export function arrangeTimeline(items: TimelineItem[], options: ArrangeOptions): TimelineItem[] {
+  // Tracks are arranged from zero, then moved to the start
+  const offset = options.startTime ?? 0
+  const snapTimes = options.snapTimes?.map(time => time - offset).filter(time => time > 0)
+  const tracks = [...new Set(items.map(item => item.track))]
+  const arranged = tracks.flatMap(track => arrangeTrack(items.filter(item => item.track === track), { ...options, snapTimes }))
+  return items.map((item) => {
+    const placed = arranged.find(a => a.id === item.id)!
+    return { ...placed, startTime: placed.startTime + offset }
+  })
+}
+
+// Where a newly added item should start so it doesn't overlap what is already there
+export function getTimelineEnd(items: TimelineItem[]): number {
+  return items.reduce((end, item) => Math.max(end, item.startTime + item.duration), 0)
+}
@@ -0,0 +1,247 @@
+import { getMonoSamples } from './audio'
+import { magnitudeSpectrum } from './fft'
+
+export interface BeatAnalysis {
+  bpm: number
+  beats: number[]
+  downbeats: number[]
+}
+
+const FRAME_SIZE = 1024
+const HOP_SIZE = 512
+const MIN_BPM = 60
+const MAX_BPM = 200
+// Prior over tempo: centred on 120 BPM with a spread of about one octave
+const PREFERRED_BPM = 120
+const TEMPO_SPREAD_OCTAVES = 1
+// How strongly beat spacing is held to the estimated period
+const TIGHTNESS = 100
+const BEATS_PER_BAR = 4
+
+// Spectral flux: how much louder each frequency bin got since the previous frame
+function getOnsetEnvelope(samples: Float32Array): Float32Array {
+  const frames = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1)
+  const envelope = new Float32Array(frames)
+  let previous: Float32Array | null = null
+
+  for (let frame = 0; frame < frames; frame++) {
+    const spectrum = magnitudeSpectrum(samples, frame * HOP_SIZE, FRAME_SIZE)
+    for (let i = 0; i < spectrum.length; i++) {
+      spectrum[i] = Math.log1p(100 * spectrum[i])
+    }
+
+    if (previous) {
+      let flux = 0
+      for (let i = 0; i < spectrum.length; i++) {
+        const rise = spectrum[i] - previous[i]
+        if (rise > 0) flux += rise
+      }
+      envelope[frame] = flux
+    }
+    previous = spectrum
+  }
+
+  return normalizeEnvelope(envelope)
+}
+
+// Remove the slow-moving loudness trend and scale to unit deviation
+function normalizeEnvelope(envelope: Float32Array): Float32Array {
+  const radius = 16
+  const result = new Float32Array(envelope.length)
+
+  for (let i = 0; i < envelope.length; i++) {
+    let sum = 0
+    let count = 0
+    for (let j = Math.max(0, i - radius); j <= Math.min(envelope.length - 1, i + radius); j++) {
+      sum += envelope[j]
+      count++
+    }
+    result[i] = Math.max(0, envelope[i] - sum / count)
+  }
+
+  let variance = 0
+  for (const value of result) variance += value * value
+  const deviation = Math.sqrt(variance / Math.max(1, result.length))
+  if (deviation > 0) {
+    for (let i = 0; i < result.length; i++) result[i] /= deviation
+  }
+
+  return result
+}
+
+// Beat period in envelope frames, from the tempo-weighted autocorrelation peak
+function estimatePeriod(envelope: Float32Array, framesPerSecond: number): number {
+  const minLag = Math.floor((60 / MAX_BPM) * framesPerSecond)
+  const maxLag = Math.min(envelope.length - 1, Math.ceil((60 / MIN_BPM) * framesPerSecond))
+  const preferredLag = (60 / PREFERRED_BPM) * framesPerSecond
+  const scores = new Float32Array(maxLag + 2)
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0
+    for (let i = lag; i < envelope.length; i++) {
+      sum += envelope[i] * envelope[i - lag]
+    }
+    const octaves = Math.log2(lag / preferredLag) / TEMPO_SPREAD_OCTAVES
+    scores[lag] = (sum / (envelope.length - lag)) * Math.exp(-0.5 * octaves * octaves)
+  }
+
+  let best = minLag
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (scores[lag] > scores[best]) best = lag
+  }
+
+  // Parabolic interpolation between neighbouring lags for a sub-frame period
+  const left = scores[best - 1] ?? 0
+  const right = scores[best + 1] ?? 0
+  const curvature = left - 2 * scores[best] + right
+  return curvature < 0 ? best + (0.5 * (left - right)) / curvature : best
+}
+
+// Dynamic-programming beat tracker (Ellis, 2007): onsets as rewards, off-tempo gaps as penalties
+function trackBeats(envelope: Float32Array, period: number): number[] {
+  const scores = new Float32Array(envelope.length)
+  const backlinks = new Int32Array(envelope.length).fill(-1)
+  const minGap = Math.max(1, Math.round(period / 2))
+  const maxGap = Math.round(period * 2)
+
+  for (let t = 0; t < envelope.length; t++) {
+    let bestScore = 0
+    let bestPrevious = -1
+
+    for (let previous = Math.max(0, t - maxGap); previous <= t - minGap; previous++) {
+      const ratio = Math.log((t - previous) / period)
+      const score = scores[previous] - TIGHTNESS * ratio * ratio
+      if (bestPrevious === -1 || score > bestScore) {
+        bestScore = score
+        bestPrevious = previous
+      }
+    }
+
+    scores[t] = envelope[t] + (bestPrevious === -1 ? 0 : bestScore)
+    backlinks[t] = bestPrevious
+  }
+
+  let last = Math.max(0, envelope.length - Math.ceil(period))
+  for (let t = last; t < envelope.length; t++) {
+    if (scores[t] > scores[last]) last = t
+  }
+
+  const beats: number[] = []
+  for (let t = last; t >= 0; t = backlinks[t]) {
+    beats.push(t)
+  }
+  beats.reverse()
+
+  // The tracker extrapolates into silent intros and outros; drop beats with no onset behind them
+  const threshold = 0.5 * beats.reduce((sum, t) => sum + envelope[t], 0) / Math.max(1, beats.length)
+  let first = 0
+  let end = beats.length
+  while (first < end && envelope[beats[first]] < threshold) first++
+  while (end > first && envelope[beats[end - 1]] < threshold) end--
+  return beats.slice(first, end)
+}
+
+// Bars are assumed to be in 4/4; the phase with the strongest onsets starts each bar
+function findDownbeats(beatFrames: number[], envelope: Float32Array): number[] {
+  let bestPhase = 0
+  let bestStrength = -Infinity
+
+  for (let phase = 0; phase < BEATS_PER_BAR; phase++) {
+    let strength = 0
+    for (let i = phase; i < beatFrames.length; i += BEATS_PER_BAR) {
+      strength += envelope[beatFrames[i]]
+    }
+    if (strength > bestStrength) {
+      bestStrength = strength
+      bestPhase = phase
+    }
+  }
+
+  return beatFrames.filter((_, i) => i % BEATS_PER_BAR === bestPhase)
+}
+
+// The pure analysis, run inside the beat detection worker
+export function detectBeats(samples: Float32Array, sampleRate: number): BeatAnalysis {
+  const framesPerSecond = sampleRate / HOP_SIZE
+  const envelope = getOnsetEnvelope(samples)
+  // Onsets register around the middle of the analysis window
+  const toSeconds = (frame: number) => (frame * HOP_SIZE + FRAME_SIZE / 2) / sampleRate
+
+  if (!envelope.some(value => value > 0)) return { bpm: 0, beats: [], downbeats: [] }
+
+  const period = estimatePeriod(envelope, framesPerSecond)
+  const beatFrames = trackBeats(envelope, period)
+  return {
+    bpm: Math.round((60 * framesPerSecond) / period * 10) / 10,
+    beats: beatFrames.map(toSeconds),
+    downbeats: findDownbeats(beatFrames, envelope).map(toSeconds)
+  }
+}
+
+// Messages between the page and the beat detection worker
+export type BeatDetectionRequest = {
+  samples: Float32Array
+  sampleRate: number
+}
+
+export type BeatDetectionResponse =
+  | { type: 'result', analysis: BeatAnalysis }
+  | { type: 'error', message: string }
+
+const analysisCache = new WeakMap<AudioBuffer, Promise<BeatAnalysis>>()
+
+// A full song takes seconds of FFTs, so each analysis gets a worker of its own; results are shared per buffer
+export function analyzeBeats(buffer: AudioBuffer): Promise<BeatAnalysis> {
+  const cached = analysisCache.get(buffer)
+  if (cached) return cached
+
+  const pending = new Promise<BeatAnalysis>((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/beat-detection.worker.ts', import.meta.url), { type: 'module' })
+    worker.addEventListener('message', (event: MessageEvent<BeatDetectionResponse>) => {
+      worker.terminate()
+      const message = event.data
+      if (message.type === 'result') resolve(message.analysis)
+      else reject(new Error(message.message))
+    })
+    worker.addEventListener('error', (event) => {
+      worker.terminate()
+      reject(new Error(event.message || 'Beat detection stopped unexpectedly.'))
+    })
+
+    // The mono mix is cached for other users, so the worker gets a copy it can own
+    const samples = getMonoSamples(buffer).slice()
+    const request: BeatDetectionRequest = { samples, sampleRate: buffer.sampleRate }
+    worker.postMessage(request, [samples.buffer])
+  })
+
+  // Allow a retry after a failure instead of caching the rejection
+  pending.catch(() => analysisCache.delete(buffer))
+  analysisCache.set(buffer, pending)
+  return pending
+}
+
+// Closest entry of a sorted time list, or null when the list is empty
+export function findNearestTime(times: number[], time: number): number | null {
+  if (times.length === 0) return null
+
+  let low = 0
+  let high = times.length - 1
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (times[mid] < time) low = mid + 1
+    else high = mid
+  }
+
+  const after = times[low]
+  const before = times[low - 1]
+  return before !== undefined && time - before < after - time ? before : after
+}
+
+// Cut points every `beatsPerCut` beats, starting on the first downbeat when cutting by bars
+export function getBeatCutTimes(analysis: BeatAnalysis, beatsPerCut: number): number[] {
+  if (beatsPerCut % BEATS_PER_BAR === 0 && analysis.downbeats.length > 0) {
+    const barsPerCut = beatsPerCut / BEATS_PER_BAR
+    return analysis.downbeats.filter((_, i) => i % barsPerCut === 0)
+  }
+  return analysis.beats.filter((_, i) => i % beatsPerCut === 0)
+}
@@ -0,0 +1,199 @@
+export interface CaptionWord {
+  text: string
+  // When karaoke colours the word in, in seconds from the start of the line
+  offset: number
+}
+
+export interface Caption {
+  id: string
+  text: string
+  startTime: number
+  duration: number
+  // Word timing from transcription; without it karaoke paces the words by their length
+  words?: CaptionWord[]
+}
+
+export type CaptionPosition = 'top' | 'middle' | 'bottom'
+
+// Sizes are fractions of the frame height, so captions look the same at every export resolution
+export interface CaptionStyle {
+  font: string
+  size: number
+  color: string
+  outlineColor: string
+  // Outline thickness as a fraction of the font size
+  outlineWidth: number
+  position: CaptionPosition
+  // Colour words in as they are sung, karaoke-style
+  karaoke: boolean
+  highlightColor: string
+}
+
+export interface CaptionTrack {
+  lines: Caption[]
+  style: CaptionStyle
+}
+
+export const CAPTION_FONTS: { value: string, label: string }[] = [
+  { value: 'system-ui, sans-serif', label: 'Sans' },
+  { value: 'Georgia, serif', label: 'Serif' },
+  { value: 'Impact, "Arial Black", sans-serif', label: 'Impact' },
+  { value: 'ui-monospace, monospace', label: 'Mono' },
+  { value: '"Comic Sans MS", "Comic Neue", cursive', label: 'Handwritten' }
+]
+
+export const CAPTION_POSITIONS: { value: CaptionPosition, label: string }[] = [
+  { value: 'top', label: 'Top' },
+  { value: 'middle', label: 'Middle' },
+  { value: 'bottom', label: 'Bottom' }
+]
+
+export const MIN_CAPTION_SIZE = 0.03
+export const MAX_CAPTION_SIZE = 0.12
+export const MAX_OUTLINE_WIDTH = 0.3
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  font: CAPTION_FONTS[0].value,
+  size: 0.06,
+  color: '#ffffff',
+  outlineColor: '#000000',
+  outlineWidth: 0.12,
+  position: 'bottom',
+  karaoke: false,
+  highlightColor: '#facc15'
+}
+
+export const EMPTY_CAPTIONS: CaptionTrack = { lines: [], style: DEFAULT_CAPTION_STYLE }
+
+export const MIN_CAPTION_DURATION = 0.25
+// How long the last tapped line stays up when nothing follows it
+export const LAST_LINE_SECONDS = 3
+const MAX_WIDTH = 0.9
+const LINE_HEIGHT = 1.25
+const EDGE_MARGIN = 0.08
+
+export function createCaptionId() {
+  return `caption-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+// One caption per non-empty line, spread evenly over `duration` until they are timed properly
+export function parseCaptionLines(text: string, duration: number): Caption[] {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+  const slot = lines.length > 0 ? duration / lines.length : 0
+  return lines.map((line, i) => ({
+    id: createCaptionId(),
+    text: line,
+    startTime: i * slot,
+    duration: Math.max(MIN_CAPTION_DURATION, slot)
+  }))
+}
+
+// Each tap starts the next line and ends the one before it; lines not yet tapped keep their timing
+export function applyTapTimes(lines: Caption[], taps: number[], audioDuration: number): Caption[] {
+  return lines.map((line, i) => {
+    if (i >= taps.length) return line
+    const startTime = taps[i]
+    const end = i + 1 < taps.length ? taps[i + 1] : Math.min(audioDuration, startTime + LAST_LINE_SECONDS)
+    return { ...line, startTime, duration: Math.max(MIN_CAPTION_DURATION, end - startTime) }
+  })
+}
+
+export function getActiveCaption(lines: Caption[], time: number): Caption | null {
+  // Later lines win where two overlap, so a line can be cut short by starting the next one early
+  let active: Caption | null = null
+  for (const line of lines) {
+    if (time >= line.startTime && time < line.startTime + line.duration) {
+      if (!active || line.startTime >= active.startTime) active = line
+    }
+  }
+  return active
+}
+
+// Lines that show between `start` and `end`, cut to fit and retimed so `start` becomes zero
+export function clipCaptions(lines: Caption[], start: number, end: number): Caption[] {
+  return lines.flatMap((line) => {
+    const lineStart = Math.max(line.startTime, start)
+    const lineEnd = Math.min(line.startTime + line.duration, end)
+    if (lineEnd - lineStart < MIN_CAPTION_DURATION) return []
+    const cut = lineStart - line.startTime
+    return [{
+      ...line,
+      startTime: lineStart - start,
+      duration: lineEnd - lineStart,
+      ...(line.words ? { words: line.words.map(word => ({ ...word, offset: Math.max(0, word.offset - cut) })) } : {})
+    }]
+  })
+}
+
+function getWords(caption: Caption): CaptionWord[] {
+  if (caption.words) return caption.words
+
+  const words = caption.text.split(/\s+/).filter(Boolean)
+  const total = words.reduce((sum, word) => sum + word.length, 0)
+  let before = 0
+  return words.map((text) => {
+    const offset = total > 0 ? (before / total) * caption.duration : 0
+    before += text.length
+    return { text, offset }
+  })
+}
+
+function wrapWords(ctx: CanvasRenderingContext2D, words: CaptionWord[], maxWidth: number): CaptionWord[][] {
+  const rows: CaptionWord[][] = []
+  let row: CaptionWord[] = []
+  for (const word of words) {
+    const candidate = [...row, word].map(w => w.text).join(' ')
+    if (row.length > 0 && ctx.measureText(candidate).width > maxWidth) {
+      rows.push(row)
+      row = [word]
+    } else {
+      row.push(word)
+    }
+  }
+  if (row.length > 0) rows.push(row)
+  return rows
+}
+
+export function drawCaptions(ctx: CanvasRenderingContext2D, track: CaptionTrack, time: number) {
+  const caption = getActiveCaption(track.lines, time)
+  if (!caption) return
+
+  const { style } = track
+  const { width, height } = ctx.canvas
+  const fontSize = style.size * height
+  const rowHeight = fontSize * LINE_HEIGHT
+
+  ctx.save()
+  ctx.font = `bold ${fontSize}px ${style.font}`
+  ctx.textBaseline = 'middle'
+  ctx.textAlign = 'left'
+  ctx.lineJoin = 'round'
+  ctx.lineWidth = style.outlineWidth * fontSize
+  ctx.strokeStyle = style.outlineColor
+
+  const rows = wrapWords(ctx, getWords(caption), width * MAX_WIDTH)
+  const blockHeight = rows.length * rowHeight
+  const top = style.position === 'top'
+    ? height * EDGE_MARGIN
+    : style.position === 'middle'
+      ? (height - blockHeight) / 2
+      : height * (1 - EDGE_MARGIN) - blockHeight
+  const spaceWidth = ctx.measureText(' ').width
+  const elapsed = time - caption.startTime
+
+  rows.forEach((row, r) => {
+    const widths = row.map(word => ctx.measureText(word.text).width)
+    const rowWidth = widths.reduce((sum, w) => sum + w, 0) + spaceWidth * (row.length - 1)
+    const y = top + r * rowHeight + rowHeight / 2
+    let x = (width - rowWidth) / 2
+
+    row.forEach((word, i) => {
+      if (style.outlineWidth > 0) ctx.strokeText(word.text, x, y)
+      ctx.fillStyle = style.karaoke && elapsed >= word.offset ? style.highlightColor : style.color
+      ctx.fillText(word.text, x, y)
+      x += widths[i] + spaceWidth
+    })
+  })
+
+  ctx.restore()
+}
@@ -0,0 +1,313 @@
+import { TimelineItem, VisualAsset } from '../App'
+import {
+  IDENTITY_TRANSFORM,
+  LayerTransform,
+  findPreviousClip,
+  getTransitionLayers,
+  getTransitionWindow
+} from './transitions'
+import { getMotionRect } from './motion'
+import { drawVisualizer } from './visualizer'
+import { getAudioFeatures } from './scene3d'
+import { SceneRenderer } from './scene-renderer'
+import { CaptionTrack, drawCaptions } from './captions'
+import { Slide, drawSlide } from './slides'
+
+export type MediaElement = HTMLImageElement | HTMLVideoElement
+
+// Loaded media keyed by asset url, shared by every frame of a render
+export type MediaCache = Map<string, MediaElement>
+
+// Everything besides the timeline that a frame is drawn from
+export interface FrameSources {
+  media: MediaCache
+  audio: AudioBuffer | null
+  beats: number[]
+  // Needed only when the timeline holds 3D scenes
+  scenes: SceneRenderer | null
+  captions: CaptionTrack
+}
+
+const BACKGROUND_COLOR = '#0f172a'
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = 'anonymous'
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error(`Could not load image: ${url}`))
+    img.src = url
+  })
+}
+
+function loadVideo(url: string): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video')
+    video.crossOrigin = 'anonymous'
+    video.muted = true
+    video.playsInline = true
+    video.preload = 'auto'
+    video.onloadeddata = () => resolve(video)
+    video.onerror = () => reject(new Error(`Could not load video: ${url}`))
+    video.src = url
+  })
+}
+
+// Clips built from still frames carry an image url even though they are typed as video
+export function isStillAsset(asset: VisualAsset) {
+  return asset.type === 'image' || asset.type === 'clipart' || (asset.type === 'video' && asset.url.startsWith('data:image'))
+}
+
+// Slides without a background image are asset type 'slide' and are drawn entirely from their text
+function hasMedia(asset: VisualAsset) {
+  return asset.type !== 'visualizer' && asset.type !== 'scene3d' && asset.type !== 'slide'
+}
+
+function loadAsset(asset: VisualAsset): Promise<MediaElement> {
+  return isStillAsset(asset) ? loadImage(asset.url) : loadVideo(asset.url)
+}
+
+// Elements already in `previous` are reused so edits don't reload every asset
+export async function loadTimelineMedia(items: TimelineItem[], previous?: MediaCache): Promise<MediaCache> {
+  const media: MediaCache = new Map()
+  // Visualizers and 3D scenes are drawn from the audio, and plain slides from their text, so have no media to load
+  const urls = [...new Set(items.filter(item => hasMedia(item.asset)).map(item => item.asset.url))]
+
+  await Promise.all(urls.map(async (url) => {
+    const existing = previous?.get(url)
+    if (existing) {
+      media.set(url, existing)
+      return
+    }
+    const asset = items.find(item => item.asset.url === url)!.asset
+    media.set(url, await loadAsset(asset))
+  }))
+
+  return media
+}
+
+// Items visible at `time`, lowest track first so higher tracks paint on top
+export function getActiveItems(items: TimelineItem[], time: number): TimelineItem[] {
+  return items
+    .filter(item => time >= item.startTime && time < item.startTime + item.duration)
+    .sort((a, b) => a.track - b.track || a.position - b.position)
+}
+
+// One item drawn into a frame; `mediaTime` is how far into its own media the item is
+export interface FrameLayer {
+  item: TimelineItem
+  mediaTime: number
+  transform: LayerTransform
+}
+
+function getTransitionLayersAt(items: TimelineItem[], time: number): FrameLayer[] | null {
+  for (const item of items) {
+    if (!item.transition) continue
+
+    const previous = findPreviousClip(items, item)
+    if (!previous) continue
+
+    const window = getTransitionWindow(previous, item, item.transition)
+    if (time < window.start || time >= window.end) continue
+
+    const layers = getTransitionLayers(item.transition, (time - window.start) / (window.end - window.start))
+    const outgoing = { item: previous, mediaTime: time - previous.startTime, transform: layers.outgoing }
+    // The incoming clip holds its first frame until its own start
+    const incoming = { item, mediaTime: Math.max(0, time - item.startTime), transform: layers.incoming }
+    return layers.incomingOnTop ? [outgoing, incoming] : [incoming, outgoing]
+  }
+  return null
+}
+
+// Everything to draw at `time`, bottom layer first
+export function getFrameLayers(items: TimelineItem[], time: number): FrameLayer[] {
+  const tracks = [...new Set(items.map(item => item.track))].sort((a, b) => a - b)
+
+  return tracks.flatMap((track) => {
+    const trackItems = items.filter(item => item.track === track)
+    const transition = getTransitionLayersAt(trackItems, time)
+    if (transition) return transition
+
+    return getActiveItems(trackItems, time).map(item => ({
+      item,
+      mediaTime: time - item.startTime,
+      transform: IDENTITY_TRANSFORM
+    }))
+  })
+}
+
+function getVideoTime(video: HTMLVideoElement, time: number) {
+  return video.duration ? time % video.duration : time
+}
+
+function seekVideo(video: HTMLVideoElement, time: number): Promise<void> {
+  const target = getVideoTime(video, time)
+  if (Math.abs(video.currentTime - target) < 0.001) return Promise.resolve()
+
+  return new Promise((resolve) => {
+    video.addEventListener('seeked', () => resolve(), { once: true })
+    video.currentTime = target
+  })
+}
+
+// Video elements must finish seeking before a frame can be drawn from them
+export async function prepareFrame(items: TimelineItem[], media: MediaCache, time: number) {
+  await Promise.all(getFrameLayers(items, time).map(({ item, mediaTime }) => {
+    const element = media.get(item.asset.url)
+    if (element instanceof HTMLVideoElement) {
+      return seekVideo(element, mediaTime)
+    }
+    return Promise.resolve()
+  }))
+}
+
+const MAX_PLAYBACK_DRIFT = 0.15
+
+// Live playback lets active videos run on their own and only re-seeks those that drift off the clock
+export function syncVideos(items: TimelineItem[], media: MediaCache, time: number, isPlaying: boolean) {
+  const active = new Map<HTMLVideoElement, number>()
+  for (const { item, mediaTime } of getFrameLayers(items, time)) {
+    const element = media.get(item.asset.url)
+    if (element instanceof HTMLVideoElement) {
+      active.set(element, getVideoTime(element, mediaTime))
+    }
+  }
+
+  for (const element of media.values()) {
+    if (!(element instanceof HTMLVideoElement)) continue
+
+    const target = active.get(element)
+    if (target === undefined || !isPlaying) {
+      if (!element.paused) element.pause()
+      continue
+    }
+    if (Math.abs(element.currentTime - target) > MAX_PLAYBACK_DRIFT) {
+      element.currentTime = target
+    }
+    if (element.paused) {
+      element.play().catch(() => {
+        // Autoplay can be refused; the clip then shows its current frame
+      })
+    }
+  }
+}
+
+function getMediaSize(element: MediaElement | HTMLCanvasElement) {
+  if (element instanceof HTMLVideoElement) {
+    return { width: element.videoWidth, height: element.videoHeight }
+  }
+  if (element instanceof HTMLCanvasElement) {
+    return { width: element.width, height: element.height }
+  }
+  return { width: element.naturalWidth, height: element.naturalHeight }
+}
+
+interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Scale to fill the box, centred like `object-fit: cover`; the overflow is left for the caller to clip
+function drawCover(ctx: CanvasRenderingContext2D, element: MediaElement | HTMLCanvasElement, box: Box) {
+  const size = getMediaSize(element)
+  if (!size.width || !size.height) return
+
+  const scale = Math.max(box.width / size.width, box.height / size.height)
+  const drawWidth = size.width * scale
+  const drawHeight = size.height * scale
+  ctx.drawImage(element, box.x + (box.width - drawWidth) / 2, box.y + (box.height - drawHeight) / 2, drawWidth, drawHeight)
+}
+
+// Covering overflows the box and motion zooms past it, so the media is always clipped to its own box
+function drawMedia(
+  ctx: CanvasRenderingContext2D,
+  item: TimelineItem,
+  element: MediaElement | HTMLCanvasElement,
+  mediaTime: number,
+  box: Box
+) {
+  ctx.save()
+  ctx.beginPath()
+  ctx.rect(box.x, box.y, box.width, box.height)
+  ctx.clip()
+  if (item.motion) {
+    const crop = getMotionRect(item.motion, mediaTime / item.duration)
+    ctx.translate(box.x, box.y)
+    ctx.scale(1 / crop.width, 1 / crop.height)
+    ctx.translate(-crop.x * box.width - box.x, -crop.y * box.height - box.y)
+  }
+  drawCover(ctx, element, box)
+  ctx.restore()
+}
+
+// An image to place (loaded media or a rendered 3D scene), a slide with its optional background,
+// or, for visualizers, the audio to analyse at `time`
+type LayerSource =
+  | { element: MediaElement | HTMLCanvasElement }
+  | { slide: Slide, background: MediaElement | null }
+  | { audio: AudioBuffer, time: number }
+
+function getLayerSource(item: TimelineItem, sources: FrameSources, time: number): LayerSource | null {
+  const { audio, scenes } = sources
+  if (item.slide) {
+    return { slide: item.slide, background: sources.media.get(item.asset.url) ?? null }
+  }
+  if (item.visualizer) {
+    return audio && { audio, time }
+  }
+  if (item.scene3d) {
+    if (!audio || !scenes) return null
+    const features = getAudioFeatures(audio, sources.beats, time, item.scene3d.kind === 'terrain')
+    return { element: scenes.render(item.scene3d, features) }
+  }
+  const element = sources.media.get(item.asset.url)
+  return element ? { element } : null
+}
+
+function drawLayer(ctx: CanvasRenderingContext2D, layer: FrameLayer, source: LayerSource) {
+  const { width, height } = ctx.canvas
+  const { transform, item, mediaTime } = layer
+  if (transform.alpha <= 0 || transform.scale <= 0 || transform.scaleX <= 0) return
+
+  ctx.save()
+  ctx.globalAlpha = transform.alpha
+  ctx.translate(width / 2 + transform.x * width, height / 2 + transform.y * height)
+  ctx.rotate(transform.rotation)
+  ctx.scale(transform.scale * transform.scaleX, transform.scale)
+  ctx.translate(-width / 2, -height / 2)
+
+  if ('slide' in source) {
+    const { background } = source
+    // Motion only moves the background; the slide's text stays put
+    drawSlide(ctx, source.slide, background && (box => drawMedia(ctx, item, background, mediaTime, box)))
+  } else if ('element' in source) {
+    drawMedia(ctx, item, source.element, mediaTime, { x: 0, y: 0, width, height })
+  } else if (item.visualizer) {
+    drawVisualizer(ctx, item.visualizer, source.audio, source.time)
+  }
+  ctx.restore()
+}
+
+export function drawTimelineFrame(
+  ctx: CanvasRenderingContext2D,
+  items: TimelineItem[],
+  sources: FrameSources,
+  time: number
+) {
+  const { width, height } = ctx.canvas
+
+  ctx.fillStyle = BACKGROUND_COLOR
+  ctx.fillRect(0, 0, width, height)
+
+  for (const layer of getFrameLayers(items, time)) {
+    const source = getLayerSource(layer.item, sources, time)
+    if (source) {
+      drawLayer(ctx, layer, source)
+    }
+  }
+
+  // Captions sit above every track and are never affected by transitions
+  drawCaptions(ctx, sources.captions, time)
+}
@@ -0,0 +1,263 @@
+import { strFromU8, unzip, Unzipped } from 'fflate'
+import { VisualAsset } from '../App'
+import { DEFAULT_SLIDE, Slide, getSlideName, getSlideThumbnail } from './slides'
+
+export type DeckFormat = 'pdf' | 'pptx'
+
+export const DECK_FILE_ACCEPT = '.pdf,.pptx,application/pdf,application/vnd.openxmlformats-officedocument.presentationml.presentation'
+
+// One imported page, ready to become a timeline item. PDF pages are plain images;
+// PowerPoint slides keep their text as an editable slide, with their first picture behind it.
+export interface DeckPage {
+  asset: VisualAsset
+  slide?: Slide
+}
+
+export interface DeckImportOptions {
+  onProgress?: (done: number, total: number) => void
+  signal?: AbortSignal
+}
+
+export class DeckImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DeckImportError'
+  }
+}
+
+// Pages are rasterised this wide: sharp at 1080p, and small enough to keep a long deck in memory
+const RASTER_WIDTH = 1920
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  webp: 'image/webp',
+  svg: 'image/svg+xml'
+}
+
+export function getDeckFormat(file: File): DeckFormat | null {
+  const extension = file.name.split('.').pop()?.toLowerCase()
+  if (extension === 'pdf' || file.type === 'application/pdf') return 'pdf'
+  if (extension === 'pptx') return 'pptx'
+  return null
+}
+
+// Frees the images of pages that were imported but never added to the timeline
+export function releaseDeckPages(pages: DeckPage[]) {
+  for (const { asset } of pages) {
+    if (asset.url.startsWith('blob:')) URL.revokeObjectURL(asset.url)
+  }
+}
+
+function createPageId(prefix: string, index: number) {
+  return `${prefix}-${Date.now()}-${index}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new DeckImportError('Could not rasterize a page of the deck.')), 'image/png')
+  })
+}
+
+// pdf.js is large, so it is only loaded once someone imports a PDF
+async function loadPdfjs() {
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+  ])
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl
+  return pdfjs
+}
+
+async function importPdf(file: File, baseName: string, { onProgress, signal }: DeckImportOptions): Promise<DeckPage[]> {
+  const pdfjs = await loadPdfjs()
+
+  let pdf
+  try {
+    pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise
+  } catch (error) {
+    if (error instanceof Error && error.name === 'PasswordException') {
+      throw new DeckImportError(`"${file.name}" is password protected. Export it without a password and try again.`)
+    }
+    throw new DeckImportError(`"${file.name}" is not a readable PDF.`)
+  }
+
+  const pages: DeckPage[] = []
+  try {
+    for (let number = 1; number <= pdf.numPages; number++) {
+      signal?.throwIfAborted()
+      const page = await pdf.getPage(number)
+      const viewport = page.getViewport({ scale: RASTER_WIDTH / page.getViewport({ scale: 1 }).width })
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.round(viewport.width)
+      canvas.height = Math.round(viewport.height)
+      await page.render({ canvas, viewport }).promise
+      page.cleanup()
+
+      const url = URL.createObjectURL(await canvasToBlob(canvas))
+      pages.push({
+        asset: { id: createPageId('pdf', number), type: 'image', url, thumbnail: url, name: `${baseName} page ${number}` }
+      })
+      onProgress?.(number, pdf.numPages)
+    }
+  } catch (error) {
+    releaseDeckPages(pages)
+    throw error
+  } finally {
+    await pdf.destroy()
+  }
+  return pages
+}
+
+function unzipFiles(data: Uint8Array): Promise<Unzipped> {
+  return new Promise((resolve, reject) => {
+    unzip(data, (error, files) => error ? reject(error) : resolve(files))
+  })
+}
+
+function parseXml(files: Unzipped, path: string): Document | null {
+  const data = files[path]
+  return data ? new DOMParser().parseFromString(strFromU8(data), 'application/xml') : null
+}
+
+// Relationship ids to package paths, resolved against the folder of the part that owns them
+function readRelationships(files: Unzipped, partPath: string): Map<string, string> {
+  const folder = partPath.slice(0, partPath.lastIndexOf('/'))
+  const relsPath = `${folder}/_rels/${partPath.slice(folder.length + 1)}.rels`
+  const rels = parseXml(files, relsPath)
+  const targets = new Map<string, string>()
+  for (const rel of Array.from(rels?.getElementsByTagName('Relationship') ?? [])) {
+    const id = rel.getAttribute('Id')
+    const target = rel.getAttribute('Target')
+    if (!id || !target) continue
+    const parts = target.startsWith('/') ? target.slice(1).split('/') : [...folder.split('/'), ...target.split('/')]
+    const resolved: string[] = []
+    for (const part of parts) {
+      if (part === '..') resolved.pop()
+      else if (part !== '.') resolved.push(part)
+    }
+    targets.set(id, resolved.join('/'))
+  }
+  return targets
+}
+
+function readParagraphs(shape: Element): string[] {
+  return Array.from(shape.getElementsByTagName('a:p'))
+    .map(p => Array.from(p.getElementsByTagName('a:t')).map(t => t.textContent ?? '').join('').trim())
+    .filter(Boolean)
+}
+
+function readPptxSlide(files: Unzipped, path: string, index: number, baseName: string): DeckPage {
+  const doc = parseXml(files, path)
+  const shapes = Array.from(doc?.getElementsByTagName('p:sp') ?? [])
+
+  let title = ''
+  let isTitleSlide = false
+  const body: string[] = []
+  for (const shape of shapes) {
+    const placeholder = shape.getElementsByTagName('p:ph')[0]?.getAttribute('type')
+    const paragraphs = readParagraphs(shape)
+    if ((placeholder === 'title' || placeholder === 'ctrTitle') && !title) {
+      title = paragraphs.join(' ')
+      isTitleSlide = placeholder === 'ctrTitle'
+    } else if (placeholder !== 'sldNum' && placeholder !== 'dt' && placeholder !== 'ftr') {
+      body.push(...paragraphs)
+    }
+  }
+
+  // Only the first picture is kept; slides have room for one image
+  let pictureUrl: string | null = null
+  const embed = doc?.getElementsByTagName('p:pic')[0]?.getElementsByTagName('a:blip')[0]?.getAttribute('r:embed')
+  const picturePath = embed ? readRelationships(files, path).get(embed) : undefined
+  const pictureType = IMAGE_TYPES[picturePath?.split('.').pop()?.toLowerCase() ?? '']
+  if (picturePath && pictureType && files[picturePath]) {
+    const blob = new Blob([files[picturePath] as Uint8Array<ArrayBuffer>], { type: pictureType })
+    pictureUrl = URL.createObjectURL(blob)
+  }
+
+  const slide: Slide = {
+    ...DEFAULT_SLIDE,
+    layout: isTitleSlide ? 'title' : pictureUrl && body.length <= 1 ? 'image-caption' : 'bullets',
+    title,
+    // The image layout has no title, so the title becomes its caption
+    body: pictureUrl && !isTitleSlide && body.length <= 1 ? (body[0] ?? title) : body.join('\n'),
+    secondary: ''
+  }
+  const name = slide.title || slide.body ? getSlideName(slide) : `${baseName} slide ${index + 1}`
+  const id = createPageId('pptx', index)
+  if (pictureUrl) {
+    return { asset: { id, type: 'image', url: pictureUrl, thumbnail: pictureUrl, name }, slide }
+  }
+  const thumbnail = getSlideThumbnail(slide)
+  return { asset: { id, type: 'slide', url: thumbnail, thumbnail, name }, slide }
+}
+
+// PowerPoint files can't be rasterised in the browser, so each slide's text and first picture
+// become an editable slide instead. Decks that rely on exact layout should be exported as PDF.
+async function importPptx(file: File, baseName: string, { onProgress, signal }: DeckImportOptions): Promise<DeckPage[]> {
+  let files: Unzipped
+  try {
+    files = await unzipFiles(new Uint8Array(await file.arrayBuffer()))
+  } catch {
+    throw new DeckImportError(`"${file.name}" is not a valid PowerPoint file or is damaged.`)
+  }
+
+  const presentationPath = 'ppt/presentation.xml'
+  const presentation = parseXml(files, presentationPath)
+  if (!presentation) {
+    throw new DeckImportError(`"${file.name}" is not a PowerPoint presentation.`)
+  }
+
+  const rels = readRelationships(files, presentationPath)
+  const slidePaths = Array.from(presentation.getElementsByTagName('p:sldId'))
+    .map(slide => rels.get(slide.getAttribute('r:id') ?? ''))
+    .filter((path): path is string => !!path && !!files[path])
+
+  const pages: DeckPage[] = []
+  try {
+    slidePaths.forEach((path, i) => {
+      signal?.throwIfAborted()
+      pages.push(readPptxSlide(files, path, i, baseName))
+      onProgress?.(i + 1, slidePaths.length)
+    })
+  } catch (error) {
+    releaseDeckPages(pages)
+    throw error
+  }
+  return pages
+}
+
+export async function importDeck(file: File, options: DeckImportOptions = {}): Promise<DeckPage[]> {
+  const format = getDeckFormat(file)
+  if (!format) {
+    throw new DeckImportError(`"${file.name}" is not a PDF or PowerPoint (.pptx) file. Keynote decks can be exported as PDF.`)
+  }
+
+  const baseName = file.name.replace(/\.[^.]+$/, '')
+  const pages = format === 'pdf' ? await importPdf(file, baseName, options) : await importPptx(file, baseName, options)
+  if (pages.length === 0) {
+    throw new DeckImportError(`"${file.name}" has no pages.`)
+  }
+  return pages
+}
+
+// Start times that share the time from `start` to `end` out equally between the pages
+export function getEvenStartTimes(count: number, start: number, end: number): number[] {
+  return Array.from({ length: count }, (_, i) => start + (i * (end - start)) / count)
+}
+
+export function formatTimestamp(seconds: number) {
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`
+}
+
+// Accepts plain seconds or minutes:seconds
+export function parseTimestamp(value: string): number | null {
+  const match = /^\s*(?:(\d+):)?(\d+(?:\.\d*)?)\s*$/.exec(value)
+  if (!match) return null
+  const seconds = Number(match[1] ?? 0) * 60 + Number(match[2])
+  return Number.isFinite(seconds) ? seconds : null
+}
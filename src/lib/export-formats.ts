@@ -0,0 +1,89 @@
+import { AUDIO_BITRATE, VideoContainer, getEncoderSetup } from './video-renderer'
+import { SubtitleFormat } from './subtitles'
+
+export type ExportFormatId = 'mp4' | 'mov' | 'avi' | 'webm'
+export type ExportQualityId = '4k' | '1080p' | '720p' | '480p'
+
+export interface ExportFormat {
+  value: ExportFormatId
+  label: string
+  description: string
+  extension: string
+  container: VideoContainer | null
+  // Shown instead of the option when the format can never be produced in the browser
+  unavailableReason?: string
+}
+
+export interface ExportQuality {
+  value: ExportQualityId
+  label: string
+  description: string
+  width: number
+  height: number
+  videoBitrate: number
+}
+
+// Captions can be drawn into the frames, saved next to the video as a subtitle file, or both
+export interface CaptionExport {
+  burnIn: boolean
+  sidecar: SubtitleFormat | null
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  { value: 'mp4', label: 'MP4 (Recommended)', description: 'H.264 video, best compatibility', extension: 'mp4', container: 'mp4' },
+  {
+    value: 'mov',
+    label: 'MOV',
+    description: 'High quality',
+    extension: 'mov',
+    container: null,
+    unavailableReason: 'QuickTime (ProRes) encoding is not available in the browser. Export MP4 instead, it plays everywhere MOV does.'
+  },
+  {
+    value: 'avi',
+    label: 'AVI',
+    description: 'Universal format',
+    extension: 'avi',
+    container: null,
+    unavailableReason: 'Browsers have no AVI muxer or legacy codecs. Export MP4 for the same compatibility.'
+  },
+  { value: 'webm', label: 'WebM', description: 'VP9 video, web optimized', extension: 'webm', container: 'webm' }
+]
+
+export const EXPORT_QUALITIES: ExportQuality[] = [
+  { value: '4k', label: '4K (3840x2160)', description: 'Ultra HD', width: 3840, height: 2160, videoBitrate: 35_000_000 },
+  { value: '1080p', label: '1080p (1920x1080)', description: 'Full HD', width: 1920, height: 1080, videoBitrate: 8_000_000 },
+  { value: '720p', label: '720p (1280x720)', description: 'HD', width: 1280, height: 720, videoBitrate: 5_000_000 },
+  { value: '480p', label: '480p (854x480)', description: 'Standard', width: 854, height: 480, videoBitrate: 2_500_000 }
+]
+
+export interface FormatSupport {
+  supported: boolean
+  reason?: string
+}
+
+// Probe the local encoders so unsupported combinations can be disabled up front
+export async function checkFormatSupport(
+  format: ExportFormat,
+  quality: ExportQuality,
+  fps: number
+): Promise<FormatSupport> {
+  if (!format.container) {
+    return { supported: false, reason: format.unavailableReason }
+  }
+
+  if (typeof VideoEncoder === 'undefined') {
+    return { supported: false, reason: 'This browser does not support in-browser video encoding (WebCodecs).' }
+  }
+
+  const setup = await getEncoderSetup(format.container, quality.width, quality.height, fps, quality.videoBitrate)
+  if (!setup) {
+    return { supported: false, reason: `This browser cannot encode ${format.container.toUpperCase()} at ${quality.label}.` }
+  }
+  return { supported: true }
+}
+
+export function estimateFileSize(quality: ExportQuality, duration: number) {
+  const bytes = ((quality.videoBitrate + AUDIO_BITRATE) / 8) * duration
+  return bytes / (1024 * 1024)
+}
@@ -0,0 +1,74 @@
+// In-place iterative radix-2 FFT; `re` and `im` must have a power-of-two length
+export function fft(re: Float32Array, im: Float32Array) {
+  const n = re.length
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]]
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size
+    const stepRe = Math.cos(angle)
+    const stepIm = Math.sin(angle)
+    const half = size >> 1
+
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1
+      let wIm = 0
+      for (let k = 0; k < half; k++) {
+        const a = start + k
+        const b = a + half
+        const tRe = re[b] * wRe - im[b] * wIm
+        const tIm = re[b] * wIm + im[b] * wRe
+        re[b] = re[a] - tRe
+        im[b] = im[a] - tIm
+        re[a] += tRe
+        im[a] += tIm
+
+        const nextRe = wRe * stepRe - wIm * stepIm
+        wIm = wRe * stepIm + wIm * stepRe
+        wRe = nextRe
+      }
+    }
+  }
+}
+
+const windows = new Map<number, Float32Array>()
+
+export function hannWindow(size: number): Float32Array {
+  let window = windows.get(size)
+  if (!window) {
+    window = new Float32Array(size)
+    for (let i = 0; i < size; i++) {
+      window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1))
+    }
+    windows.set(size, window)
+  }
+  return window
+}
+
+// Windowed magnitude spectrum of `size` samples starting at `offset`, zero-padded past the end
+export function magnitudeSpectrum(samples: Float32Array, offset: number, size: number): Float32Array {
+  const window = hannWindow(size)
+  const re = new Float32Array(size)
+  const im = new Float32Array(size)
+
+  for (let i = 0; i < size; i++) {
+    const index = offset + i
+    re[i] = index >= 0 && index < samples.length ? samples[index] * window[i] : 0
+  }
+
+  fft(re, im)
+
+  const magnitudes = new Float32Array(size / 2)
+  for (let i = 0; i < magnitudes.length; i++) {
+    magnitudes[i] = Math.hypot(re[i], im[i])
+  }
+  return magnitudes
+}
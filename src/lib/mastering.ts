@@ -0,0 +1,326 @@
+export type LoudnessTarget = 'off' | 'streaming' | 'podcast' | 'broadcast'
+
+export interface EqSettings {
+  enabled: boolean
+  // Gains in dB for the low shelf, presence and high shelf bands
+  low: number
+  mid: number
+  high: number
+}
+
+// Processing applied to the finished mix before it is encoded
+export interface MasteringSettings {
+  target: LoudnessTarget
+  // Ceiling for the limiter, in dBTP
+  truePeak: number
+  compressor: boolean
+  eq: EqSettings
+}
+
+export interface LoudnessMeasurement {
+  // Integrated loudness in LUFS, -Infinity for silence
+  integrated: number
+  truePeak: number
+}
+
+export interface LoudnessReport {
+  input: LoudnessMeasurement
+  output: LoudnessMeasurement
+}
+
+export const LOUDNESS_TARGETS: { value: LoudnessTarget, label: string, lufs: number | null }[] = [
+  { value: 'streaming', label: 'Streaming (-14 LUFS)', lufs: -14 },
+  { value: 'podcast', label: 'Podcast (-16 LUFS)', lufs: -16 },
+  { value: 'broadcast', label: 'Broadcast (-23 LUFS)', lufs: -23 },
+  { value: 'off', label: 'Keep source loudness', lufs: null }
+]
+
+export const MIN_TRUE_PEAK = -6
+export const MAX_EQ_GAIN = 12
+
+export const DEFAULT_MASTERING: MasteringSettings = {
+  target: 'streaming',
+  truePeak: -1,
+  compressor: false,
+  eq: { enabled: false, low: 0, mid: 0, high: 0 }
+}
+
+// BS.1770 measures 400 ms blocks every 100 ms, gated at -70 LUFS and then 10 LU under the mean
+const BLOCK_HOPS = 4
+const HOP_SECONDS = 0.1
+const ABSOLUTE_GATE = -70
+const RELATIVE_GATE = -10
+// Very quiet sources are mostly noise; lifting them further only makes the hiss louder
+const MAX_NORMALIZE_GAIN = 24
+// Intersample peaks are estimated at 4x oversampling
+const OVERSAMPLING = 4
+const INTERPOLATION_TAPS = 12
+const LIMITER_LOOKAHEAD = 0.005
+const LIMITER_RELEASE = 0.15
+// The limiter works on samples, so it aims a little under the ceiling to leave room for intersample peaks
+const LIMITER_MARGIN_DB = 0.3
+// Limiting loud peaks lowers the loudness again, so normalising is repeated until it lands close enough
+const NORMALIZE_PASSES = 3
+const NORMALIZE_TOLERANCE = 0.3
+
+function dbToGain(db: number) {
+  return Math.pow(10, db / 20)
+}
+
+function gainToDb(gain: number) {
+  return gain > 0 ? 20 * Math.log10(gain) : -Infinity
+}
+
+interface Biquad {
+  b0: number
+  b1: number
+  b2: number
+  a1: number
+  a2: number
+}
+
+// The two K-weighting stages of BS.1770, worked out for any sample rate
+function getKWeighting(sampleRate: number): [Biquad, Biquad] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate)
+  let Q = 0.7071752369554196
+  const Vh = Math.pow(10, 3.999843853973347 / 20)
+  const Vb = Math.pow(Vh, 0.4996667741545416)
+  let a0 = 1 + K / Q + K * K
+  const shelf: Biquad = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0
+  }
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate)
+  Q = 0.5003270373238773
+  a0 = 1 + K / Q + K * K
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0
+  }
+  return [shelf, highPass]
+}
+
+// Integrated loudness of the channels, in LUFS
+function measureIntegrated(channels: Float32Array[], sampleRate: number): number {
+  const hopSize = Math.round(HOP_SECONDS * sampleRate)
+  const hopCount = Math.floor((channels[0]?.length ?? 0) / hopSize)
+  const hopEnergy = new Float64Array(hopCount)
+  const [shelf, highPass] = getKWeighting(sampleRate)
+
+  for (const samples of channels) {
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0, z1 = 0, z2 = 0
+    for (let hop = 0; hop < hopCount; hop++) {
+      let sum = 0
+      for (let i = hop * hopSize, end = i + hopSize; i < end; i++) {
+        const x = samples[i]
+        const y = shelf.b0 * x + shelf.b1 * x1 + shelf.b2 * x2 - shelf.a1 * y1 - shelf.a2 * y2
+        const z = highPass.b0 * y + highPass.b1 * y1 + highPass.b2 * y2 - highPass.a1 * z1 - highPass.a2 * z2
+        x2 = x1
+        x1 = x
+        y2 = y1
+        y1 = y
+        z2 = z1
+        z1 = z
+        sum += z * z
+      }
+      hopEnergy[hop] += sum / hopSize
+    }
+  }
+
+  const blocks: number[] = []
+  for (let hop = 0; hop + BLOCK_HOPS <= hopCount; hop++) {
+    let energy = 0
+    for (let i = 0; i < BLOCK_HOPS; i++) energy += hopEnergy[hop + i]
+    blocks.push(energy / BLOCK_HOPS)
+  }
+
+  const toLufs = (energy: number) => -0.691 + 10 * Math.log10(energy)
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+  const audible = blocks.filter(energy => toLufs(energy) > ABSOLUTE_GATE)
+  if (audible.length === 0) return -Infinity
+  const relativeGate = toLufs(mean(audible)) + RELATIVE_GATE
+  const gated = audible.filter(energy => toLufs(energy) > relativeGate)
+  return toLufs(mean(gated))
+}
+
+let interpolationFilters: Float32Array[] | null = null
+
+// Windowed-sinc filters for the samples between the originals, one per in-between phase
+function getInterpolationFilters() {
+  interpolationFilters ??= Array.from({ length: OVERSAMPLING - 1 }, (_, p) => {
+    const fraction = (p + 1) / OVERSAMPLING
+    return Float32Array.from({ length: INTERPOLATION_TAPS }, (_, k) => {
+      const t = k - INTERPOLATION_TAPS / 2 + 1 - fraction
+      const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t)
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * t) / (INTERPOLATION_TAPS / 2))
+      return sinc * window
+    })
+  })
+  return interpolationFilters
+}
+
+// Highest sample of the 4x oversampled signal, in dBTP
+function measureTruePeak(channels: Float32Array[]): number {
+  const filters = getInterpolationFilters()
+  const half = INTERPOLATION_TAPS / 2
+  let peak = 0
+
+  for (const samples of channels) {
+    for (let n = 0; n < samples.length; n++) {
+      const level = Math.abs(samples[n])
+      if (level > peak) peak = level
+      // Intersample peaks stay within a few dB of their neighbours, so quiet stretches are skipped
+      const next = n + 1 < samples.length ? Math.abs(samples[n + 1]) : 0
+      if (Math.max(level, next) * 2 < peak || n < half || n + half >= samples.length) continue
+      for (const filter of filters) {
+        let value = 0
+        for (let k = 0; k < INTERPOLATION_TAPS; k++) value += samples[n - half + 1 + k] * filter[k]
+        if (Math.abs(value) > peak) peak = Math.abs(value)
+      }
+    }
+  }
+  return gainToDb(peak)
+}
+
+function getChannels(buffer: AudioBuffer) {
+  return Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i))
+}
+
+export function measureLoudness(buffer: AudioBuffer): LoudnessMeasurement {
+  const channels = getChannels(buffer)
+  return {
+    integrated: measureIntegrated(channels, buffer.sampleRate),
+    truePeak: measureTruePeak(channels)
+  }
+}
+
+function hasEffects(settings: MasteringSettings) {
+  const { eq } = settings
+  return settings.compressor || (eq.enabled && (eq.low !== 0 || eq.mid !== 0 || eq.high !== 0))
+}
+
+// EQ then compression, through the browser's own filters
+async function applyEffects(buffer: AudioBuffer, settings: MasteringSettings): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(buffer.numberOfChannels, buffer.length, buffer.sampleRate)
+  const source = context.createBufferSource()
+  source.buffer = buffer
+  let output: AudioNode = source
+
+  if (settings.eq.enabled) {
+    const bands: [BiquadFilterType, number, number][] = [
+      ['lowshelf', 120, settings.eq.low],
+      ['peaking', 2500, settings.eq.mid],
+      ['highshelf', 8000, settings.eq.high]
+    ]
+    for (const [type, frequency, gain] of bands) {
+      if (gain === 0) continue
+      const filter = context.createBiquadFilter()
+      filter.type = type
+      filter.frequency.value = frequency
+      filter.gain.value = gain
+      output.connect(filter)
+      output = filter
+    }
+  }
+
+  if (settings.compressor) {
+    // A gentle bus compressor; loudness normalisation afterwards makes up the lost level
+    const compressor = context.createDynamicsCompressor()
+    compressor.threshold.value = -20
+    compressor.knee.value = 6
+    compressor.ratio.value = 3
+    compressor.attack.value = 0.01
+    compressor.release.value = 0.25
+    output.connect(compressor)
+    output = compressor
+  }
+
+  output.connect(context.destination)
+  source.start()
+  return context.startRendering()
+}
+
+// Holds every sample under `ceiling`, fading the gain down ahead of each peak and back up after it
+function limit(channels: Float32Array[], sampleRate: number, ceiling: number) {
+  const length = channels[0]?.length ?? 0
+  const gains = new Float32Array(length)
+  let needsLimiting = false
+  for (let i = 0; i < length; i++) {
+    let level = 0
+    for (const samples of channels) level = Math.max(level, Math.abs(samples[i]))
+    gains[i] = level > ceiling ? ceiling / level : 1
+    if (gains[i] < 1) needsLimiting = true
+  }
+  if (!needsLimiting) return
+
+  const attackStep = 1 / Math.max(1, Math.round(LIMITER_LOOKAHEAD * sampleRate))
+  const releaseStep = 1 / Math.max(1, Math.round(LIMITER_RELEASE * sampleRate))
+  for (let i = length - 2; i >= 0; i--) {
+    gains[i] = Math.min(gains[i], gains[i + 1] + attackStep)
+  }
+  for (let i = 1; i < length; i++) {
+    gains[i] = Math.min(gains[i], gains[i - 1] + releaseStep)
+  }
+  for (const samples of channels) {
+    for (let i = 0; i < length; i++) samples[i] *= gains[i]
+  }
+}
+
+// Brings the soundtrack to the target loudness without going over the true-peak ceiling
+export async function masterSoundtrack(
+  buffer: AudioBuffer,
+  settings: MasteringSettings
+): Promise<{ buffer: AudioBuffer, report: LoudnessReport }> {
+  const input = measureLoudness(buffer)
+  const processed = hasEffects(settings) ? await applyEffects(buffer, settings) : buffer
+  const target = LOUDNESS_TARGETS.find(t => t.value === settings.target)?.lufs ?? null
+
+  const mastered = new AudioBuffer({
+    length: processed.length,
+    numberOfChannels: processed.numberOfChannels,
+    sampleRate: processed.sampleRate
+  })
+  const channels = getChannels(mastered)
+  channels.forEach((samples, i) => samples.set(processed.getChannelData(i)))
+  const scale = (db: number) => {
+    const gain = dbToGain(db)
+    for (const samples of channels) {
+      for (let i = 0; i < samples.length; i++) samples[i] *= gain
+    }
+  }
+
+  let integrated = processed === buffer ? input.integrated : measureIntegrated(channels, mastered.sampleRate)
+  let totalGain = 0
+  for (let pass = 0; pass < NORMALIZE_PASSES; pass++) {
+    const gain = target !== null && Number.isFinite(integrated)
+      ? Math.min(MAX_NORMALIZE_GAIN - totalGain, target - integrated)
+      : 0
+    if (pass > 0 && Math.abs(gain) < NORMALIZE_TOLERANCE) break
+    if (gain !== 0) scale(gain)
+    totalGain += gain
+    limit(channels, mastered.sampleRate, dbToGain(settings.truePeak - LIMITER_MARGIN_DB))
+    if (target === null) break
+    integrated = measureIntegrated(channels, mastered.sampleRate)
+  }
+
+  // Anything the margin didn't catch is taken off the whole soundtrack
+  const truePeak = measureTruePeak(channels)
+  if (truePeak > settings.truePeak) scale(settings.truePeak - truePeak)
+
+  return { buffer: mastered, report: { input, output: measureLoudness(mastered) } }
+}
+
+export function formatLoudness(lufs: number) {
+  return Number.isFinite(lufs) ? `${lufs.toFixed(1)} LUFS` : 'Silent'
+}
+
+export function formatTruePeak(dbtp: number) {
+  return Number.isFinite(dbtp) ? `${dbtp.toFixed(1)} dBTP` : '–'
+}
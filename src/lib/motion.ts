@@ -0,0 +1,100 @@
+import { TransitionEasing, applyEasing } from './transitions'
+
+// A visible region of the frame as fractions of its size; equal width and height keep the frame's aspect ratio
+export interface CropRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Pan and zoom across an item's duration, from the `start` crop to the `end` crop
+export interface Motion {
+  start: CropRect
+  end: CropRect
+  easing: TransitionEasing
+}
+
+export type MotionPreset = 'zoom-in' | 'zoom-out' | 'pan-left' | 'pan-right' | 'pan-up' | 'pan-down'
+
+export const MOTION_PRESETS: { value: MotionPreset, label: string }[] = [
+  { value: 'zoom-in', label: 'Zoom in' },
+  { value: 'zoom-out', label: 'Zoom out' },
+  { value: 'pan-left', label: 'Pan left' },
+  { value: 'pan-right', label: 'Pan right' },
+  { value: 'pan-up', label: 'Pan up' },
+  { value: 'pan-down', label: 'Pan down' }
+]
+
+export const FULL_FRAME: CropRect = { x: 0, y: 0, width: 1, height: 1 }
+export const MAX_MOTION_ZOOM = 2
+export const DEFAULT_MOTION_ZOOM = 1.25
+
+export function getZoom(rect: CropRect) {
+  return 1 / rect.width
+}
+
+// Keep a crop inside the frame and within the zoom range, preserving its centre where possible
+export function clampRect(rect: CropRect): CropRect {
+  const size = Math.min(1, Math.max(1 / MAX_MOTION_ZOOM, rect.width))
+  const centerX = rect.x + rect.width / 2
+  const centerY = rect.y + rect.height / 2
+  return {
+    x: Math.min(1 - size, Math.max(0, centerX - size / 2)),
+    y: Math.min(1 - size, Math.max(0, centerY - size / 2)),
+    width: size,
+    height: size
+  }
+}
+
+function centeredRect(zoom: number, centerX = 0.5, centerY = 0.5): CropRect {
+  const size = 1 / zoom
+  return clampRect({ x: centerX - size / 2, y: centerY - size / 2, width: size, height: size })
+}
+
+export function createPresetMotion(preset: MotionPreset, zoom = DEFAULT_MOTION_ZOOM): Motion {
+  const zoomed = centeredRect(zoom)
+  const slack = 1 - zoomed.width
+  const easing: TransitionEasing = 'linear'
+
+  switch (preset) {
+    case 'zoom-in':
+      return { start: FULL_FRAME, end: zoomed, easing }
+    case 'zoom-out':
+      return { start: zoomed, end: FULL_FRAME, easing }
+    // Panning left moves the view leftwards across the image, so the crop travels from right to left
+    case 'pan-left':
+      return { start: { ...zoomed, x: slack }, end: { ...zoomed, x: 0 }, easing }
+    case 'pan-right':
+      return { start: { ...zoomed, x: 0 }, end: { ...zoomed, x: slack }, easing }
+    case 'pan-up':
+      return { start: { ...zoomed, y: slack }, end: { ...zoomed, y: 0 }, easing }
+    case 'pan-down':
+      return { start: { ...zoomed, y: 0 }, end: { ...zoomed, y: slack }, easing }
+  }
+}
+
+// A gentle zoom towards or away from a point near the centre, with a little drift
+export function createAutoMotion(random: () => number = Math.random): Motion {
+  const zoom = 1.1 + random() * 0.25
+  const near = centeredRect(zoom, 0.35 + random() * 0.3, 0.35 + random() * 0.3)
+  const far = centeredRect(1 + random() * 0.08)
+  const zoomIn = random() < 0.5
+
+  return {
+    start: zoomIn ? far : near,
+    end: zoomIn ? near : far,
+    easing: 'ease-in-out'
+  }
+}
+
+export function getMotionRect(motion: Motion, progress: number): CropRect {
+  const p = applyEasing(motion.easing, Math.min(1, Math.max(0, progress)))
+  const { start, end } = motion
+  return {
+    x: start.x + (end.x - start.x) * p,
+    y: start.y + (end.y - start.y) * p,
+    width: start.width + (end.width - start.width) * p,
+    height: start.height + (end.height - start.height) * p
+  }
+}
@@ -0,0 +1,253 @@
+import { AudioFile, ProjectState, TimelineItem, VideoStyle, VisualAsset } from '../App'
+import { getTimelineEnd } from './auto-arrange'
+import { Transition } from './transitions'
+import { DEFAULT_VISUALIZER, VISUALIZER_STYLES, VisualizerSettings, getVisualizerThumbnail } from './visualizer'
+import { SCENE3D_KINDS, Scene3DSettings, getScene3DThumbnail } from './scene3d'
+import { CaptionTrack } from './captions'
+import { AudioRegion, AudioTrim } from './audio-trim'
+import { AudioMix } from './audio-mix'
+import { DEFAULT_SLIDE, DEFAULT_SLIDE_DURATION, Slide, getSlideName, getSlideThumbnail } from './slides'
+import { DeckPage } from './deck-import'
+import { MIN_CLIP_DURATION } from './timeline-edit'
+
+// A named, replayable change to the project; every edit goes through one so it can be undone
+export interface ProjectCommand {
+  label: string
+  apply: (state: ProjectState) => ProjectState
+}
+
+// Several commands applied in order as one undo step
+export function combineCommands(label: string, commands: ProjectCommand[]): ProjectCommand {
+  return {
+    label,
+    apply: state => commands.reduce((next, command) => command.apply(next), state)
+  }
+}
+
+export function setAudioFile(audioFile: AudioFile): ProjectCommand {
+  return {
+    label: `Upload ${audioFile.name}`,
+    // A trim only makes sense for the file it was made on
+    apply: state => ({ ...state, audioFile, audioTrim: null })
+  }
+}
+
+export function selectStyle(style: VideoStyle): ProjectCommand {
+  return {
+    label: `Style: ${style.name}`,
+    apply: state => state.selectedStyle?.id === style.id ? state : { ...state, selectedStyle: style }
+  }
+}
+
+// `transition` joins the new item to whatever it lands after on the first track
+export function addAsset(asset: VisualAsset, transition?: Transition): ProjectCommand {
+  return {
+    label: `Add ${asset.name}`,
+    apply: (state) => {
+      const firstTrack = state.timelineItems.filter(item => item.track === 0)
+      const newItem: TimelineItem = {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        asset,
+        startTime: getTimelineEnd(firstTrack),
+        duration: asset.duration || 3,
+        position: state.timelineItems.length,
+        track: 0,
+        ...(transition && firstTrack.length > 0 ? { transition } : {})
+      }
+      return { ...state, timelineItems: [...state.timelineItems, newItem] }
+    }
+  }
+}
+
+// Visualizers go on a new top track so they overlay everything, spanning the whole song
+export function addVisualizer(settings: VisualizerSettings, duration: number): ProjectCommand {
+  const name = VISUALIZER_STYLES.find(style => style.value === settings.style)?.label ?? 'Visualizer'
+  return {
+    label: `Add ${name} visualizer`,
+    apply: (state) => {
+      const thumbnail = getVisualizerThumbnail(settings)
+      const newItem: TimelineItem = {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        asset: {
+          id: `visualizer-${Date.now()}`,
+          type: 'visualizer',
+          url: thumbnail,
+          thumbnail,
+          name: `${name} visualizer`
+        },
+        startTime: 0,
+        duration,
+        position: state.timelineItems.length,
+        track: state.timelineItems.reduce((top, item) => Math.max(top, item.track + 1), 0),
+        visualizer: settings
+      }
+      return { ...state, timelineItems: [...state.timelineItems, newItem] }
+    }
+  }
+}
+
+// 3D scenes fill the frame, so they go underneath everything on a new bottom track
+export function addScene3D(settings: Scene3DSettings, duration: number): ProjectCommand {
+  const name = SCENE3D_KINDS.find(kind => kind.value === settings.kind)?.label ?? '3D scene'
+  return {
+    label: `Add ${name}`,
+    apply: (state) => {
+      const thumbnail = getScene3DThumbnail(settings)
+      const newItem: TimelineItem = {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        asset: {
+          id: `scene3d-${Date.now()}`,
+          type: 'scene3d',
+          url: thumbnail,
+          thumbnail,
+          name
+        },
+        startTime: 0,
+        duration,
+        position: state.timelineItems.length,
+        track: 0,
+        scene3d: settings
+      }
+      const raised = state.timelineItems.map(item => ({ ...item, track: item.track + 1 }))
+      return { ...state, timelineItems: [...raised, newItem] }
+    }
+  }
+}
+
+// Slides queue up on the first track like library assets, one after another
+export function addSlide(slide: Slide): ProjectCommand {
+  return {
+    label: 'Add slide',
+    apply: (state) => {
+      const thumbnail = getSlideThumbnail(slide)
+      const newItem: TimelineItem = {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        asset: {
+          id: `slide-${Date.now()}`,
+          type: 'slide',
+          url: thumbnail,
+          thumbnail,
+          name: getSlideName(slide)
+        },
+        startTime: getTimelineEnd(state.timelineItems.filter(item => item.track === 0)),
+        duration: DEFAULT_SLIDE_DURATION,
+        position: state.timelineItems.length,
+        track: 0,
+        slide
+      }
+      return { ...state, timelineItems: [...state.timelineItems, newItem] }
+    }
+  }
+}
+
+// Each page lasts until the next one starts and the last until the audio ends.
+// A deck goes on the first track of an empty timeline, otherwise on a new top track so it shows above existing clips.
+export function addDeck(name: string, pages: DeckPage[], startTimes: number[], totalDuration: number): ProjectCommand {
+  return {
+    label: `Import ${name}`,
+    apply: (state) => {
+      const track = state.timelineItems.reduce((top, item) => Math.max(top, item.track + 1), 0)
+      const newItems = pages.map((page, i): TimelineItem => {
+        const end = i + 1 < pages.length ? startTimes[i + 1] : Math.max(totalDuration, startTimes[i] + DEFAULT_SLIDE_DURATION)
+        return {
+          id: `${Date.now()}-${i}-${Math.random().toString(36).slice(2, 8)}`,
+          asset: page.asset,
+          startTime: startTimes[i],
+          duration: Math.max(MIN_CLIP_DURATION, end - startTimes[i]),
+          position: state.timelineItems.length + i,
+          track,
+          ...(page.slide ? { slide: page.slide } : {})
+        }
+      })
+      return { ...state, timelineItems: [...state.timelineItems, ...newItems] }
+    }
+  }
+}
+
+// Where the audiogram's waveform runs, under the cover slide's lower third
+const AUDIOGRAM_WAVEFORM: VisualizerSettings = {
+  ...DEFAULT_VISUALIZER,
+  style: 'oscilloscope',
+  y: 0.92,
+  width: 0.84,
+  height: 0.1
+}
+
+// A ready-made music video from the track's own tags: its cover art with title and artist, and a waveform on top.
+// It replaces the timeline, so it is meant for a project that has none yet
+export function createAudiogram(audioFile: AudioFile, region: AudioRegion): ProjectCommand {
+  return {
+    label: 'Create audiogram',
+    apply: (state) => {
+      const { title, artist, coverArt } = audioFile.metadata
+      const slide: Slide = {
+        ...DEFAULT_SLIDE,
+        layout: 'cover',
+        title: title ?? audioFile.name.replace(/\.[^.]+$/, ''),
+        body: artist ?? '',
+        backgroundColor: '#0f172a'
+      }
+      const thumbnail = coverArt?.url ?? getSlideThumbnail(slide)
+      const waveformThumbnail = getVisualizerThumbnail(AUDIOGRAM_WAVEFORM)
+      const cover: TimelineItem = {
+        id: `${Date.now()}-cover-${Math.random().toString(36).slice(2, 8)}`,
+        asset: {
+          id: `slide-${Date.now()}`,
+          type: coverArt ? 'image' : 'slide',
+          url: thumbnail,
+          thumbnail,
+          name: getSlideName(slide)
+        },
+        startTime: region.start,
+        duration: region.duration,
+        position: 0,
+        track: 0,
+        slide
+      }
+      const waveform: TimelineItem = {
+        id: `${Date.now()}-waveform-${Math.random().toString(36).slice(2, 8)}`,
+        asset: {
+          id: `visualizer-${Date.now()}`,
+          type: 'visualizer',
+          url: waveformThumbnail,
+          thumbnail: waveformThumbnail,
+          name: 'Waveform'
+        },
+        startTime: region.start,
+        duration: region.duration,
+        position: 1,
+        track: 1,
+        visualizer: AUDIOGRAM_WAVEFORM
+      }
+      return { ...state, timelineItems: [cover, waveform] }
+    }
+  }
+}
+
+export function updateTimeline(timelineItems: TimelineItem[], label: string): ProjectCommand {
+  return {
+    label,
+    apply: state => ({ ...state, timelineItems })
+  }
+}
+
+export function updateAudioTrim(audioTrim: AudioTrim | null, label: string): ProjectCommand {
+  return {
+    label,
+    apply: state => ({ ...state, audioTrim })
+  }
+}
+
+export function updateAudioMix(audioMix: AudioMix, label: string): ProjectCommand {
+  return {
+    label,
+    apply: state => ({ ...state, audioMix })
+  }
+}
+
+export function updateCaptions(captions: CaptionTrack, label: string): ProjectCommand {
+  return {
+    label,
+    apply: state => ({ ...state, captions })
+  }
+}
@@ -0,0 +1,466 @@
+import { unzip, zip, strFromU8, strToU8, Unzipped, Zippable } from 'fflate'
+import { z } from 'zod'
+import { AudioFile, ProjectState, TimelineItem, VisualAsset } from '../App'
+import { ProjectSettings } from './project-store'
+import { MAX_TRANSITION_DURATION, TRANSITION_EASINGS, TRANSITION_TYPES } from './transitions'
+import { MAX_SMOOTHING, VISUALIZER_STYLES } from './visualizer'
+import { MAX_SCENE_INTENSITY, SCENE3D_KINDS } from './scene3d'
+import { SLIDE_LAYOUTS } from './slides'
+import { AudioTrim, FADE_CURVES, MAX_FADE_DURATION } from './audio-trim'
+import {
+  AUDIO_TRACK_ROLES,
+  AudioMix,
+  DEFAULT_AUDIO_MIX,
+  MAX_DUCKING_AMOUNT,
+  MAX_DUCKING_RELEASE,
+  MAX_TRACK_VOLUME
+} from './audio-mix'
+import {
+  CAPTION_POSITIONS,
+  CaptionTrack,
+  DEFAULT_CAPTION_STYLE,
+  MAX_CAPTION_SIZE,
+  MAX_OUTLINE_WIDTH,
+  MIN_CAPTION_SIZE
+} from './captions'
+import { readAudioFileTags } from './audio-tags'
+
+export const PROJECT_FILE_EXTENSION = 'avproj'
+export const PROJECT_FILE_VERSION = 4
+
+const MANIFEST_PATH = 'project.json'
+const MEDIA_DIR = 'media/'
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProjectFileError'
+  }
+}
+
+// Asset urls are either bundle paths under media/ or remote urls left as they were
+const assetSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['image', 'video', 'clipart', 'visualizer', 'scene3d', 'slide']),
+  name: z.string(),
+  url: z.string().min(1),
+  thumbnail: z.string().min(1),
+  duration: z.number().positive().optional()
+})
+
+const transitionSchema = z.object({
+  type: z.enum(TRANSITION_TYPES.map(t => t.value)),
+  duration: z.number().positive().max(MAX_TRANSITION_DURATION),
+  easing: z.enum(TRANSITION_EASINGS.map(e => e.value))
+})
+
+const cropRectSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().positive().max(1),
+  height: z.number().positive().max(1)
+})
+
+const motionSchema = z.object({
+  start: cropRectSchema,
+  end: cropRectSchema,
+  easing: z.enum(TRANSITION_EASINGS.map(e => e.value))
+})
+
+const colorSchema = z.string().regex(/^#[0-9a-f]{6}$/i)
+
+const visualizerSchema = z.object({
+  style: z.enum(VISUALIZER_STYLES.map(v => v.value)),
+  color: colorSchema,
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().positive().max(1),
+  height: z.number().positive().max(1),
+  smoothing: z.number().min(0).max(MAX_SMOOTHING)
+})
+
+const scene3dSchema = z.object({
+  kind: z.enum(SCENE3D_KINDS.map(k => k.value)),
+  color: colorSchema,
+  intensity: z.number().min(0).max(MAX_SCENE_INTENSITY)
+})
+
+const slideSchema = z.object({
+  layout: z.enum(SLIDE_LAYOUTS.map(l => l.value)),
+  title: z.string(),
+  body: z.string(),
+  secondary: z.string(),
+  font: z.string().min(1),
+  textColor: colorSchema,
+  backgroundColor: colorSchema
+})
+
+const timelineItemSchema = z.object({
+  id: z.string().min(1),
+  assetId: z.string().min(1),
+  startTime: z.number().min(0),
+  duration: z.number().positive(),
+  position: z.number().int().min(0),
+  track: z.number().int().min(0),
+  transition: transitionSchema.optional(),
+  motion: motionSchema.optional(),
+  visualizer: visualizerSchema.optional(),
+  scene3d: scene3dSchema.optional(),
+  slide: slideSchema.optional()
+})
+
+const captionTrackSchema = z.object({
+  lines: z.array(z.object({
+    id: z.string().min(1),
+    text: z.string(),
+    startTime: z.number().min(0),
+    duration: z.number().positive(),
+    words: z.array(z.object({
+      text: z.string(),
+      offset: z.number().min(0)
+    })).optional()
+  })),
+  style: z.object({
+    font: z.string().min(1),
+    size: z.number().min(MIN_CAPTION_SIZE).max(MAX_CAPTION_SIZE),
+    color: colorSchema,
+    outlineColor: colorSchema,
+    outlineWidth: z.number().min(0).max(MAX_OUTLINE_WIDTH),
+    position: z.enum(CAPTION_POSITIONS.map(p => p.value)),
+    karaoke: z.boolean(),
+    highlightColor: colorSchema
+  })
+})
+
+const audioTrimSchema = z.object({
+  start: z.number().min(0),
+  end: z.number().positive(),
+  fadeIn: z.number().min(0).max(MAX_FADE_DURATION),
+  fadeOut: z.number().min(0).max(MAX_FADE_DURATION),
+  fadeCurve: z.enum(FADE_CURVES.map(c => c.value))
+}).refine(trim => trim.end > trim.start, { message: 'must end after it starts' })
+
+const audioEntrySchema = z.object({
+  name: z.string().min(1),
+  type: z.string(),
+  duration: z.number().positive(),
+  path: z.string().startsWith(MEDIA_DIR)
+})
+
+const trackMixSchema = z.object({
+  role: z.enum(AUDIO_TRACK_ROLES.map(r => r.value)),
+  volume: z.number().min(0).max(MAX_TRACK_VOLUME),
+  pan: z.number().min(-1).max(1),
+  muted: z.boolean(),
+  solo: z.boolean()
+})
+
+const audioMixSchema = z.object({
+  main: trackMixSchema,
+  tracks: z.array(trackMixSchema.extend({
+    id: z.string().min(1),
+    name: z.string(),
+    audio: audioEntrySchema,
+    startTime: z.number().min(0),
+    fadeIn: z.number().min(0).max(MAX_FADE_DURATION),
+    fadeOut: z.number().min(0).max(MAX_FADE_DURATION)
+  })),
+  ducking: z.object({
+    enabled: z.boolean(),
+    amount: z.number().min(0).max(MAX_DUCKING_AMOUNT),
+    release: z.number().min(0).max(MAX_DUCKING_RELEASE)
+  })
+})
+
+const mediaEntrySchema = z.object({
+  path: z.string().startsWith(MEDIA_DIR),
+  type: z.string()
+})
+
+const projectFileSchema = z.object({
+  format: z.literal('avproj'),
+  version: z.literal(PROJECT_FILE_VERSION),
+  name: z.string().min(1),
+  exportedAt: z.string(),
+  audio: audioEntrySchema.nullable(),
+  audioTrim: audioTrimSchema.nullable(),
+  audioMix: audioMixSchema,
+  styleId: z.string().nullable(),
+  settings: z.object({
+    frameRate: z.number().int().positive()
+  }),
+  media: z.array(mediaEntrySchema),
+  assets: z.array(assetSchema),
+  timelineItems: z.array(timelineItemSchema),
+  captions: captionTrackSchema
+}).superRefine((project, ctx) => {
+  const assetIds = new Set(project.assets.map(asset => asset.id))
+  project.timelineItems.forEach((item, index) => {
+    if (!assetIds.has(item.assetId)) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `refers to missing asset "${item.assetId}"`,
+        path: ['timelineItems', index, 'assetId']
+      })
+    }
+  })
+
+  const mediaPaths = new Set(project.media.map(entry => entry.path))
+  project.assets.forEach((asset, index) => {
+    for (const key of ['url', 'thumbnail'] as const) {
+      if (asset[key].startsWith(MEDIA_DIR) && !mediaPaths.has(asset[key])) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `refers to "${asset[key]}", which is not listed in media`,
+          path: ['assets', index, key]
+        })
+      }
+    }
+  })
+})
+
+type ProjectFile = z.infer<typeof projectFileSchema>
+
+type RawProject = Record<string, unknown>
+
+// Each migration upgrades a manifest from the keyed version to the next one
+const migrations: Record<number, (project: RawProject) => RawProject> = {
+  // Version 1 predates the caption track
+  1: (project) => ({
+    ...project,
+    version: 2,
+    captions: { lines: [], style: DEFAULT_CAPTION_STYLE }
+  }),
+  // Version 2 predates trimming, so the whole audio file was used
+  2: (project) => ({
+    ...project,
+    version: 3,
+    audioTrim: null
+  }),
+  // Version 3 predates mixing, so the main audio played alone at full volume
+  3: (project) => ({
+    ...project,
+    version: 4,
+    audioMix: DEFAULT_AUDIO_MIX
+  })
+}
+
+export interface ImportedProject {
+  name: string
+  audioFile: AudioFile | null
+  audioTrim: AudioTrim | null
+  audioMix: AudioMix
+  styleId: string | null
+  timelineItems: TimelineItem[]
+  captions: CaptionTrack
+  settings: ProjectSettings
+}
+
+function zipFiles(files: Zippable): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    zip(files, (error, data) => error ? reject(error) : resolve(data))
+  })
+}
+
+function unzipFiles(data: Uint8Array): Promise<Unzipped> {
+  return new Promise((resolve, reject) => {
+    unzip(data, (error, files) => error ? reject(error) : resolve(files))
+  })
+}
+
+function getExtension(type: string) {
+  const subtype = type.split('/')[1]?.split(/[+;]/)[0]
+  return subtype && /^[\w-]+$/.test(subtype) ? subtype : 'bin'
+}
+
+function isBundledUrl(url: string) {
+  return url.startsWith('blob:') || url.startsWith('data:')
+}
+
+export async function exportProjectFile(
+  name: string,
+  state: ProjectState,
+  settings: ProjectSettings
+): Promise<Blob> {
+  const { audioFile, audioTrim, audioMix, selectedStyle, timelineItems, captions } = state
+  const files: Zippable = {}
+  const media: ProjectFile['media'] = []
+  const pathsByUrl = new Map<string, string>()
+
+  // Media is already compressed, so store it as-is and only deflate the manifest
+  const addMedia = (data: Uint8Array, type: string) => {
+    const path = `${MEDIA_DIR}${media.length + 1}.${getExtension(type)}`
+    files[path] = [data, { level: 0 }]
+    media.push({ path, type })
+    return path
+  }
+
+  const bundleUrl = async (url: string, assetName: string) => {
+    if (!isBundledUrl(url)) return url
+
+    const existing = pathsByUrl.get(url)
+    if (existing) return existing
+
+    let blob: Blob
+    try {
+      blob = await (await fetch(url)).blob()
+    } catch {
+      throw new ProjectFileError(`Could not read the media for "${assetName}". Re-add it and try again.`)
+    }
+    const path = addMedia(new Uint8Array(await blob.arrayBuffer()), blob.type)
+    pathsByUrl.set(url, path)
+    return path
+  }
+
+  const assets = new Map<string, ProjectFile['assets'][number]>()
+  for (const { asset } of timelineItems) {
+    if (assets.has(asset.id)) continue
+    assets.set(asset.id, {
+      ...asset,
+      url: await bundleUrl(asset.url, asset.name),
+      thumbnail: await bundleUrl(asset.thumbnail, asset.name)
+    })
+  }
+
+  const addAudio = async (file: AudioFile) => ({
+    name: file.name,
+    type: file.file.type,
+    duration: file.duration,
+    path: addMedia(new Uint8Array(await file.file.arrayBuffer()), file.file.type)
+  })
+
+  const audio = audioFile && await addAudio(audioFile)
+  const tracks: ProjectFile['audioMix']['tracks'] = []
+  for (const { audioFile: trackFile, ...track } of audioMix.tracks) {
+    tracks.push({ ...track, audio: await addAudio(trackFile) })
+  }
+
+  const manifest: ProjectFile = {
+    format: 'avproj',
+    version: PROJECT_FILE_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    audio,
+    audioTrim,
+    audioMix: { ...audioMix, tracks },
+    styleId: selectedStyle?.id ?? null,
+    settings,
+    media,
+    assets: [...assets.values()],
+    timelineItems: timelineItems.map(({ asset, ...item }) => ({ ...item, assetId: asset.id })),
+    captions
+  }
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2))
+
+  return new Blob([await zipFiles(files)], { type: 'application/zip' })
+}
+
+function formatIssues(error: z.ZodError) {
+  const issues = error.issues.slice(0, 3).map(issue => {
+    const path = issue.path.join('.')
+    return path ? `${path} ${issue.message}` : issue.message
+  })
+  const more = error.issues.length > 3 ? ` (and ${error.issues.length - 3} more)` : ''
+  return `${issues.join('; ')}${more}`
+}
+
+function migrate(raw: unknown): unknown {
+  if (typeof raw !== 'object' || raw === null || (raw as RawProject).format !== 'avproj') {
+    throw new ProjectFileError('This file is not an AudioVision project.')
+  }
+
+  let project = raw as RawProject
+  const version = project.version
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError('The project file has no valid version number.')
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(
+      `This project was saved by a newer version of the app (format ${version}). Update the app to open it.`
+    )
+  }
+
+  for (let v = version; v < PROJECT_FILE_VERSION; v++) {
+    project = migrations[v](project)
+  }
+  return project
+}
+
+export async function importProjectFile(file: File): Promise<ImportedProject> {
+  let files: Unzipped
+  try {
+    files = await unzipFiles(new Uint8Array(await file.arrayBuffer()))
+  } catch {
+    throw new ProjectFileError(`"${file.name}" is not a valid .${PROJECT_FILE_EXTENSION} bundle or is damaged.`)
+  }
+
+  const manifestData = files[MANIFEST_PATH]
+  if (!manifestData) {
+    throw new ProjectFileError(`"${file.name}" is missing its ${MANIFEST_PATH} manifest.`)
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(strFromU8(manifestData))
+  } catch {
+    throw new ProjectFileError(`The ${MANIFEST_PATH} manifest in "${file.name}" is not valid JSON.`)
+  }
+
+  const result = projectFileSchema.safeParse(migrate(raw))
+  if (!result.success) {
+    throw new ProjectFileError(`The project file is invalid: ${formatIssues(result.error)}`)
+  }
+  const project = result.data
+
+  const missing = project.media.find(entry => !files[entry.path])
+  if (missing) {
+    throw new ProjectFileError(`The bundle is missing ${missing.path}. It may have been truncated.`)
+  }
+
+  const blobs = new Map(project.media.map(entry => [
+    entry.path,
+    new Blob([files[entry.path] as Uint8Array<ArrayBuffer>], { type: entry.type })
+  ]))
+  const urls = new Map([...blobs].map(([path, blob]) => [path, URL.createObjectURL(blob)]))
+  const resolveUrl = (url: string) => urls.get(url) ?? url
+
+  const resolveAudio = async (entry: ProjectFile['audioMix']['tracks'][number]['audio'], label: string): Promise<AudioFile> => {
+    const audioBlob = blobs.get(entry.path)
+    if (!audioBlob) {
+      throw new ProjectFileError(`${label} refers to ${entry.path}, which is not listed in media.`)
+    }
+    const file = new File([audioBlob], entry.name, { type: entry.type })
+    return {
+      file,
+      url: urls.get(entry.path)!,
+      duration: entry.duration,
+      name: entry.name,
+      metadata: await readAudioFileTags(file)
+    }
+  }
+
+  const audioFile = project.audio && await resolveAudio(project.audio, 'The audio track')
+  const audioMix: AudioMix = {
+    ...project.audioMix,
+    tracks: await Promise.all(project.audioMix.tracks.map(async ({ audio, ...track }) => ({
+      ...track,
+      audioFile: await resolveAudio(audio, `The "${track.name}" audio track`)
+    })))
+  }
+
+  const assets = new Map<string, VisualAsset>(project.assets.map(asset => [
+    asset.id,
+    { ...asset, url: resolveUrl(asset.url), thumbnail: resolveUrl(asset.thumbnail) }
+  ]))
+
+  return {
+    name: project.name,
+    audioFile,
+    audioTrim: project.audioTrim,
+    audioMix,
+    styleId: project.styleId,
+    timelineItems: project.timelineItems.map(({ assetId, ...item }) => ({ ...item, asset: assets.get(assetId)! })),
+    captions: project.captions,
+    settings: project.settings
+  }
+}
@@ -0,0 +1,290 @@
+import { AudioFile, ProjectState, TimelineItem } from '../App'
+import { CaptionTrack, EMPTY_CAPTIONS } from './captions'
+import { AudioTrim, getAudioRegion } from './audio-trim'
+import { AudioMix, AudioTrack, DEFAULT_AUDIO_MIX } from './audio-mix'
+import { readAudioFileTags } from './audio-tags'
+
+const DB_NAME = 'audiovision'
+const DB_VERSION = 1
+const SUMMARY_STORE = 'summaries'
+const PROJECT_STORE = 'projects'
+
+export interface ProjectSettings {
+  frameRate: number
+}
+
+export interface ProjectSummary {
+  id: string
+  name: string
+  createdAt: number
+  updatedAt: number
+  duration: number
+  itemCount: number
+  styleId: string | null
+}
+
+interface StoredAudio {
+  blob: Blob
+  name: string
+  type: string
+  duration: number
+}
+
+type StoredAudioTrack = Omit<AudioTrack, 'audioFile'> & { audio: StoredAudio }
+
+type StoredAudioMix = Omit<AudioMix, 'tracks'> & { tracks: StoredAudioTrack[] }
+
+interface StoredProject {
+  id: string
+  audio: StoredAudio | null
+  // Missing from projects saved before audio could be trimmed
+  audioTrim?: AudioTrim | null
+  // Missing from projects saved before audio could be mixed
+  audioMix?: StoredAudioMix
+  styleId: string | null
+  timelineItems: TimelineItem[]
+  // Missing from projects saved before captions existed
+  captions?: CaptionTrack
+  settings: ProjectSettings
+  // Blobs behind `blob:` asset urls, keyed by the url they were saved under
+  media: Record<string, Blob>
+}
+
+export interface LoadedProject {
+  summary: ProjectSummary
+  audioFile: AudioFile | null
+  audioTrim: AudioTrim | null
+  audioMix: AudioMix
+  styleId: string | null
+  timelineItems: TimelineItem[]
+  captions: CaptionTrack
+  settings: ProjectSettings
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  databasePromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+        db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+        db.createObjectStore(PROJECT_STORE, { keyPath: 'id' })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      databasePromise = null
+      reject(request.error)
+    }
+  })
+  return databasePromise
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// Blobs behind object urls we have created or already read, so autosaves don't refetch them
+const blobsByUrl = new Map<string, Blob>()
+
+async function getBlob(url: string): Promise<Blob | null> {
+  const cached = blobsByUrl.get(url)
+  if (cached) return cached
+
+  try {
+    const blob = await (await fetch(url)).blob()
+    blobsByUrl.set(url, blob)
+    return blob
+  } catch {
+    // The url was revoked before we saw it; the asset can't be restored
+    return null
+  }
+}
+
+function createObjectUrl(blob: Blob) {
+  const url = URL.createObjectURL(blob)
+  blobsByUrl.set(url, blob)
+  return url
+}
+
+function storeAudio(audioFile: AudioFile): StoredAudio {
+  return {
+    blob: audioFile.file,
+    name: audioFile.name,
+    type: audioFile.file.type,
+    duration: audioFile.duration
+  }
+}
+
+// Tags aren't stored; they are read again from the file, cover art included
+async function restoreAudio(audio: StoredAudio): Promise<AudioFile> {
+  const file = new File([audio.blob], audio.name, { type: audio.type })
+  return {
+    file,
+    url: createObjectUrl(file),
+    duration: audio.duration,
+    name: audio.name,
+    metadata: await readAudioFileTags(file)
+  }
+}
+
+export function createProjectId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const db = await openDatabase()
+  const summaries = await requestResult<ProjectSummary[]>(
+    db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll()
+  )
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+async function getSummary(id: string): Promise<ProjectSummary | undefined> {
+  const db = await openDatabase()
+  return requestResult<ProjectSummary | undefined>(db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).get(id))
+}
+
+async function putProject(summary: ProjectSummary, project: StoredProject) {
+  const db = await openDatabase()
+  const transaction = db.transaction([SUMMARY_STORE, PROJECT_STORE], 'readwrite')
+  transaction.objectStore(SUMMARY_STORE).put(summary)
+  transaction.objectStore(PROJECT_STORE).put(project)
+  await transactionDone(transaction)
+}
+
+export async function saveProject(
+  id: string,
+  name: string,
+  state: ProjectState,
+  settings: ProjectSettings
+): Promise<ProjectSummary> {
+  const { audioFile, audioTrim, audioMix, selectedStyle, timelineItems, captions } = state
+
+  const media: Record<string, Blob> = {}
+  const urls = new Set(timelineItems.flatMap(item => [item.asset.url, item.asset.thumbnail]))
+  for (const url of urls) {
+    if (!url.startsWith('blob:')) continue
+    const blob = await getBlob(url)
+    if (blob) media[url] = blob
+  }
+
+  const existing = await getSummary(id)
+  const now = Date.now()
+  const summary: ProjectSummary = {
+    id,
+    name,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    duration: audioFile ? getAudioRegion(audioTrim, audioFile.duration).duration : 0,
+    itemCount: timelineItems.length,
+    styleId: selectedStyle?.id ?? null
+  }
+
+  await putProject(summary, {
+    id,
+    audio: audioFile && storeAudio(audioFile),
+    audioTrim,
+    audioMix: {
+      ...audioMix,
+      tracks: audioMix.tracks.map(({ audioFile: trackFile, ...track }) => ({ ...track, audio: storeAudio(trackFile) }))
+    },
+    styleId: summary.styleId,
+    timelineItems,
+    captions,
+    settings,
+    media
+  })
+
+  return summary
+}
+
+export async function loadProject(id: string): Promise<LoadedProject> {
+  const db = await openDatabase()
+  const transaction = db.transaction([SUMMARY_STORE, PROJECT_STORE])
+  const [summary, project] = await Promise.all([
+    requestResult<ProjectSummary | undefined>(transaction.objectStore(SUMMARY_STORE).get(id)),
+    requestResult<StoredProject | undefined>(transaction.objectStore(PROJECT_STORE).get(id))
+  ])
+  if (!summary || !project) {
+    throw new Error('This project no longer exists.')
+  }
+
+  // Saved object urls died with the page that made them; mint fresh ones
+  const urlMap = new Map(Object.entries(project.media).map(([url, blob]) => [url, createObjectUrl(blob)]))
+  const remap = (url: string) => urlMap.get(url) ?? url
+
+  const audioMix: AudioMix = project.audioMix
+    ? {
+        ...project.audioMix,
+        tracks: await Promise.all(project.audioMix.tracks.map(async ({ audio, ...track }) => ({
+          ...track,
+          audioFile: await restoreAudio(audio)
+        })))
+      }
+    : DEFAULT_AUDIO_MIX
+
+  return {
+    summary,
+    audioFile: project.audio && await restoreAudio(project.audio),
+    audioTrim: project.audioTrim ?? null,
+    audioMix,
+    styleId: project.styleId,
+    timelineItems: project.timelineItems.map(item => ({
+      ...item,
+      asset: { ...item.asset, url: remap(item.asset.url), thumbnail: remap(item.asset.thumbnail) }
+    })),
+    captions: project.captions ?? EMPTY_CAPTIONS,
+    settings: project.settings
+  }
+}
+
+export async function renameProject(id: string, name: string) {
+  const summary = await getSummary(id)
+  if (!summary) return
+
+  const db = await openDatabase()
+  const transaction = db.transaction(SUMMARY_STORE, 'readwrite')
+  transaction.objectStore(SUMMARY_STORE).put({ ...summary, name, updatedAt: Date.now() })
+  await transactionDone(transaction)
+}
+
+export async function duplicateProject(id: string): Promise<ProjectSummary> {
+  const db = await openDatabase()
+  const [summary, project] = await Promise.all([
+    getSummary(id),
+    requestResult<StoredProject | undefined>(db.transaction(PROJECT_STORE).objectStore(PROJECT_STORE).get(id))
+  ])
+  if (!summary || !project) {
+    throw new Error('This project no longer exists.')
+  }
+
+  const now = Date.now()
+  const copyId = createProjectId()
+  const copy: ProjectSummary = { ...summary, id: copyId, name: `Copy of ${summary.name}`, createdAt: now, updatedAt: now }
+  await putProject(copy, { ...project, id: copyId })
+  return copy
+}
+
+export async function deleteProject(id: string) {
+  const db = await openDatabase()
+  const transaction = db.transaction([SUMMARY_STORE, PROJECT_STORE], 'readwrite')
+  transaction.objectStore(SUMMARY_STORE).delete(id)
+  transaction.objectStore(PROJECT_STORE).delete(id)
+  await transactionDone(transaction)
+}
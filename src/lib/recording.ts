@@ -0,0 +1,101 @@
+// Containers to record into, best first; browsers support different subsets
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4', 'audio/webm']
+
+export const COUNT_IN_OPTIONS = [0, 3, 5]
+
+// The meter's floor; anything quieter shows as silence
+const METER_FLOOR_DB = -60
+
+const RECORDING_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a'
+}
+
+export class RecordingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RecordingError'
+  }
+}
+
+export function isRecordingSupported() {
+  return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia
+}
+
+export function getRecordingType() {
+  return RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? ''
+}
+
+// getUserMedia failures come back as DOMExceptions named after the cause
+export function toRecordingError(error: unknown) {
+  if (error instanceof RecordingError) return error
+  const name = error instanceof DOMException ? error.name : ''
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return new RecordingError('Microphone access was blocked. Allow it in your browser\'s site settings and try again.')
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return new RecordingError('No microphone was found. Connect one and try again.')
+    case 'NotReadableError':
+      return new RecordingError('The microphone is in use by another app or could not be started.')
+    default:
+      return new RecordingError('The microphone could not be opened.')
+  }
+}
+
+export async function openMicrophone(deviceId: string | null) {
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      audio: {
+        ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+        // Speech processing flattens music and voice-overs alike; record what the mic hears
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false
+      }
+    })
+  } catch (error) {
+    throw toRecordingError(error)
+  }
+}
+
+// Labels are only filled in once the page has been allowed to use a microphone
+export async function listMicrophones() {
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return devices
+    .filter(device => device.kind === 'audioinput')
+    .map((device, i) => ({ id: device.deviceId, label: device.label || `Microphone ${i + 1}` }))
+}
+
+// Peak level of the analyser's current block, scaled 0–1 over the meter's decibel range
+export function readPeakLevel(analyser: AnalyserNode, samples: Float32Array<ArrayBuffer>) {
+  analyser.getFloatTimeDomainData(samples)
+  let peak = 0
+  for (const sample of samples) {
+    peak = Math.max(peak, Math.abs(sample))
+  }
+  const db = peak > 0 ? 20 * Math.log10(peak) : -Infinity
+  return Math.min(1, Math.max(0, 1 - db / METER_FLOOR_DB))
+}
+
+// A short tick for each beat of the count-in
+export function playCountInTick(context: AudioContext, accent: boolean) {
+  const oscillator = context.createOscillator()
+  const gain = context.createGain()
+  const now = context.currentTime
+  oscillator.frequency.value = accent ? 1320 : 880
+  gain.gain.setValueAtTime(0.3, now)
+  gain.gain.exponentialRampToValueAtTime(0.001, now + 0.08)
+  oscillator.connect(gain).connect(context.destination)
+  oscillator.start(now)
+  oscillator.stop(now + 0.1)
+}
+
+export function createRecordingFile(chunks: Blob[], type: string, recordedAt: Date) {
+  const baseType = type.split(';')[0] || 'audio/webm'
+  const pad = (n: number) => n.toString().padStart(2, '0')
+  const stamp = `${recordedAt.getFullYear()}-${pad(recordedAt.getMonth() + 1)}-${pad(recordedAt.getDate())} ${pad(recordedAt.getHours())}-${pad(recordedAt.getMinutes())}`
+  return new File(chunks, `Recording ${stamp}.${RECORDING_EXTENSIONS[baseType] ?? 'webm'}`, { type: baseType })
+}
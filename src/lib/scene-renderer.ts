@@ -0,0 +1,45 @@
+import { createElement } from 'react'
+import * as THREE from 'three'
+import { Catalogue, advance, createRoot, extend, flushSync } from '@react-three/fiber'
+import { AudioScene } from '../components/AudioScenes'
+import { AudioFeatures, Scene3DSettings } from './scene3d'
+
+// Roots made with createRoot only know the three.js classes they have been given;
+// the namespace also holds helpers that aren't classes, hence the cast
+extend(THREE as unknown as Catalogue)
+
+export interface SceneRenderer {
+  canvas: HTMLCanvasElement
+  render: (settings: Scene3DSettings, features: AudioFeatures) => HTMLCanvasElement
+  dispose: () => void
+}
+
+// Renders 3D scenes off screen on demand; each call draws exactly the frame for the features it is given
+export async function createSceneRenderer(width: number, height: number): Promise<SceneRenderer> {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+
+  const root = createRoot(canvas)
+  await root.configure({
+    frameloop: 'never',
+    size: { width, height, top: 0, left: 0 },
+    dpr: 1,
+    // Keep the pixels after rendering so the 2D compositor can copy them
+    gl: { preserveDrawingBuffer: true, antialias: true },
+    camera: { fov: 60, position: [0, 0, 6] },
+    events: undefined
+  })
+
+  return {
+    canvas,
+    render: (settings, features) => {
+      const store = flushSync(() => root.render(createElement(AudioScene, { settings, features })))
+      advance(features.time, false, store.getState())
+      return canvas
+    },
+    dispose: () => {
+      root.unmount()
+    }
+  }
+}
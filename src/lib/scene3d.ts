@@ -0,0 +1,83 @@
+import { getMonoSamples, getSpectrumBands } from './audio'
+import { findNearestTime } from './beat-detection'
+
+export type Scene3DKind = 'terrain' | 'sphere' | 'tunnel' | 'particles'
+
+export interface Scene3DSettings {
+  kind: Scene3DKind
+  color: string
+  // Scales how strongly the scene reacts to the audio
+  intensity: number
+}
+
+export const SCENE3D_KINDS: { value: Scene3DKind, label: string }[] = [
+  { value: 'terrain', label: 'Spectrum terrain' },
+  { value: 'sphere', label: 'Pulsing sphere' },
+  { value: 'tunnel', label: 'Tunnel' },
+  { value: 'particles', label: 'Particle field' }
+]
+
+export const DEFAULT_SCENE3D: Scene3DSettings = { kind: 'sphere', color: '#8b5cf6', intensity: 1 }
+
+export const MAX_SCENE_INTENSITY = 2
+
+export const SCENE_BAND_COUNT = 32
+export const TERRAIN_ROWS = 32
+const TERRAIN_ROW_SECONDS = 0.05
+const AMPLITUDE_WINDOW_SECONDS = 0.05
+const BEAT_DECAY_SECONDS = 0.35
+
+// Everything a scene needs to draw one frame; scenes are pure functions of this, so renders repeat exactly
+export interface AudioFeatures {
+  time: number
+  amplitude: number
+  bands: Float32Array
+  // Spectra of the recent past, newest first, for scenes that show history
+  history: Float32Array[]
+  // 1 on a beat, fading to 0 before the next
+  beatPulse: number
+  beatIndex: number
+}
+
+function getAmplitude(buffer: AudioBuffer, time: number) {
+  const samples = getMonoSamples(buffer)
+  const half = Math.round((AMPLITUDE_WINDOW_SECONDS * buffer.sampleRate) / 2)
+  const center = Math.round(time * buffer.sampleRate)
+  const start = Math.max(0, center - half)
+  const end = Math.min(samples.length, center + half)
+
+  let sum = 0
+  for (let i = start; i < end; i++) {
+    sum += samples[i] * samples[i]
+  }
+  const rms = end > start ? Math.sqrt(sum / (end - start)) : 0
+  // Loud masters sit around -6 dBFS RMS; map that to the top of the range
+  return Math.min(1, rms * 2)
+}
+
+export function getAudioFeatures(buffer: AudioBuffer, beats: number[], time: number, withHistory = false): AudioFeatures {
+  let beatIndex = -1
+  const nearest = findNearestTime(beats, time)
+  if (nearest !== null) {
+    const index = beats.indexOf(nearest)
+    beatIndex = nearest <= time ? index : index - 1
+  }
+  const sinceBeat = beatIndex >= 0 ? time - beats[beatIndex] : Infinity
+
+  return {
+    time,
+    amplitude: getAmplitude(buffer, time),
+    bands: getSpectrumBands(buffer, time, SCENE_BAND_COUNT),
+    history: withHistory
+      ? Array.from({ length: TERRAIN_ROWS }, (_, row) => getSpectrumBands(buffer, Math.max(0, time - row * TERRAIN_ROW_SECONDS), SCENE_BAND_COUNT))
+      : [],
+    beatPulse: Math.max(0, 1 - sinceBeat / BEAT_DECAY_SECONDS),
+    beatIndex
+  }
+}
+
+// An icon for the scene's timeline clip; the frames themselves are rendered in 3D
+export function getScene3DThumbnail(settings: Scene3DSettings) {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 40"><rect width="64" height="40" fill="#020617"/><circle cx="32" cy="20" r="12" fill="none" stroke="${settings.color}" stroke-width="2"/><ellipse cx="32" cy="20" rx="12" ry="4" fill="none" stroke="${settings.color}" stroke-width="1"/><ellipse cx="32" cy="20" rx="4" ry="12" fill="none" stroke="${settings.color}" stroke-width="1"/></svg>`
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`
+}
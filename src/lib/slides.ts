@@ -0,0 +1,335 @@
+import { CAPTION_FONTS } from './captions'
+
+export type SlideLayout = 'title' | 'bullets' | 'image-caption' | 'two-column' | 'quote' | 'cover'
+
+// Every layout reads the same three text fields; `fields` names the ones it shows
+export interface Slide {
+  layout: SlideLayout
+  title: string
+  body: string
+  secondary: string
+  font: string
+  textColor: string
+  backgroundColor: string
+}
+
+export type SlideTextField = 'title' | 'body' | 'secondary'
+
+export interface SlideLayoutInfo {
+  value: SlideLayout
+  label: string
+  fields: { key: SlideTextField, label: string, multiline: boolean }[]
+}
+
+export const SLIDE_LAYOUTS: SlideLayoutInfo[] = [
+  {
+    value: 'title',
+    label: 'Title',
+    fields: [
+      { key: 'title', label: 'Title', multiline: false },
+      { key: 'body', label: 'Subtitle', multiline: false }
+    ]
+  },
+  {
+    value: 'bullets',
+    label: 'Title and bullets',
+    fields: [
+      { key: 'title', label: 'Title', multiline: false },
+      { key: 'body', label: 'Bullets, one per line', multiline: true }
+    ]
+  },
+  {
+    value: 'image-caption',
+    label: 'Image and caption',
+    fields: [
+      { key: 'body', label: 'Caption', multiline: false }
+    ]
+  },
+  {
+    value: 'two-column',
+    label: 'Two columns',
+    fields: [
+      { key: 'title', label: 'Title', multiline: false },
+      { key: 'body', label: 'Left column, one point per line', multiline: true },
+      { key: 'secondary', label: 'Right column, one point per line', multiline: true }
+    ]
+  },
+  {
+    value: 'quote',
+    label: 'Quote',
+    fields: [
+      { key: 'body', label: 'Quote', multiline: true },
+      { key: 'secondary', label: 'Attribution', multiline: false }
+    ]
+  },
+  {
+    value: 'cover',
+    label: 'Cover art',
+    fields: [
+      { key: 'title', label: 'Title', multiline: false },
+      { key: 'body', label: 'Artist', multiline: false }
+    ]
+  }
+]
+
+export const DEFAULT_SLIDE: Slide = {
+  layout: 'bullets',
+  title: 'Slide title',
+  body: 'First point\nSecond point\nThird point',
+  secondary: '',
+  font: CAPTION_FONTS[0].value,
+  textColor: '#ffffff',
+  backgroundColor: '#1e293b'
+}
+
+export const DEFAULT_SLIDE_DURATION = 5
+
+// Sizes are fractions of the frame height, like captions, so slides look the same at every resolution
+const MARGIN = 0.08
+const TITLE_SIZE = 0.075
+const HERO_TITLE_SIZE = 0.11
+const TEXT_SIZE = 0.045
+const QUOTE_SIZE = 0.065
+const LINE_HEIGHT = 1.3
+// Text shrinks to fit its area, but never below this share of its normal size
+const MIN_TEXT_SCALE = 0.5
+// How much of the slide colour is laid over a full-frame background so text stays readable
+const BACKGROUND_SCRIM = 0.55
+// The cover layout: a blurred copy of the art fills the frame behind a sharp square of it and a lower third
+const COVER_BLUR = 0.04
+const COVER_TOP = 0.08
+const COVER_SIZE = 0.54
+const LOWER_THIRD_TOP = 0.66
+const LOWER_THIRD_HEIGHT = 0.18
+
+interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Draws media covering `box`; the compositor supplies it so motion still applies to the background
+export type DrawSlideBackground = (box: Box) => void
+
+export function getSlideName(slide: Slide) {
+  const text = slide.title.trim() || slide.body.trim().split('\n')[0]
+  const layout = SLIDE_LAYOUTS.find(l => l.value === slide.layout)?.label ?? 'Slide'
+  return text ? `Slide: ${text}` : `${layout} slide`
+}
+
+// A small drawing of the layout for the slide's timeline clip
+export function getSlideThumbnail(slide: Slide) {
+  const bar = (x: number, y: number, width: number, height: number) =>
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="1"/>`
+  const bars = {
+    'title': [bar(14, 14, 36, 6), bar(20, 24, 24, 3)],
+    'bullets': [bar(6, 6, 30, 5), bar(6, 16, 40, 3), bar(6, 22, 36, 3), bar(6, 28, 42, 3)],
+    'image-caption': [`<rect x="10" y="5" width="44" height="22" rx="1" fill-opacity="0.4"/>`, bar(18, 31, 28, 3)],
+    'two-column': [bar(6, 6, 30, 5), bar(6, 16, 24, 3), bar(6, 22, 20, 3), bar(34, 16, 24, 3), bar(34, 22, 20, 3)],
+    'quote': [bar(10, 12, 44, 4), bar(14, 19, 36, 4), bar(30, 28, 20, 3)],
+    'cover': [`<rect x="23" y="3" width="18" height="18" rx="1" fill-opacity="0.4"/>`, bar(6, 27, 28, 4), bar(6, 33, 18, 3)]
+  }[slide.layout].join('')
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 40"><rect width="64" height="40" fill="${slide.backgroundColor}"/><g fill="${slide.textColor}">${bars}</g></svg>`
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`
+}
+
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const rows: string[] = []
+  let row = ''
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = row ? `${row} ${word}` : word
+    if (row && ctx.measureText(candidate).width > maxWidth) {
+      rows.push(row)
+      row = word
+    } else {
+      row = candidate
+    }
+  }
+  if (row) rows.push(row)
+  return rows
+}
+
+interface TextStyle {
+  size: number
+  weight?: 'normal' | 'bold'
+  italic?: boolean
+  align?: CanvasTextAlign
+}
+
+function setFont(ctx: CanvasRenderingContext2D, slide: Slide, style: TextStyle, fontSize: number) {
+  ctx.font = `${style.italic ? 'italic ' : ''}${style.weight ?? 'normal'} ${fontSize}px ${slide.font}`
+}
+
+interface Paragraph {
+  text: string
+  bullet: boolean
+}
+
+// Wraps paragraphs into `box`, shrinking the text until it fits, and returns the height used
+function drawParagraphs(
+  ctx: CanvasRenderingContext2D,
+  slide: Slide,
+  paragraphs: Paragraph[],
+  box: Box,
+  style: TextStyle,
+  verticalAlign: 'top' | 'middle' = 'top'
+) {
+  const { height } = ctx.canvas
+  const align = style.align ?? 'left'
+
+  const layoutRows = (scale: number) => {
+    const fontSize = style.size * height * scale
+    setFont(ctx, slide, style, fontSize)
+    const indent = paragraphs.some(p => p.bullet) ? fontSize * 1.2 : 0
+    const rows = paragraphs.flatMap(p =>
+      wrapText(ctx, p.text, box.width - indent).map((text, i) => ({ text, bullet: p.bullet && i === 0 }))
+    )
+    return { fontSize, indent, rows }
+  }
+
+  let scale = 1
+  let fitted = layoutRows(scale)
+  while (fitted.rows.length * fitted.fontSize * LINE_HEIGHT > box.height && scale - 0.1 >= MIN_TEXT_SCALE) {
+    scale -= 0.1
+    fitted = layoutRows(scale)
+  }
+
+  const { fontSize, indent, rows } = fitted
+  const rowHeight = fontSize * LINE_HEIGHT
+  const used = rows.length * rowHeight
+  const top = verticalAlign === 'middle' ? box.y + (box.height - used) / 2 : box.y
+
+  ctx.textAlign = align
+  ctx.textBaseline = 'middle'
+  rows.forEach((row, i) => {
+    const y = top + i * rowHeight + rowHeight / 2
+    if (row.bullet) {
+      ctx.beginPath()
+      ctx.arc(box.x + fontSize * 0.35, y, fontSize * 0.14, 0, Math.PI * 2)
+      ctx.fill()
+    }
+    const x = align === 'center' ? box.x + box.width / 2 : align === 'right' ? box.x + box.width : box.x + indent
+    ctx.fillText(row.text, x, y)
+  })
+  return used
+}
+
+function toParagraphs(text: string, bullet: boolean): Paragraph[] {
+  return text.split('\n').map(line => line.trim()).filter(Boolean).map(line => ({ text: line, bullet }))
+}
+
+export function drawSlide(ctx: CanvasRenderingContext2D, slide: Slide, drawBackground: DrawSlideBackground | null) {
+  const { width, height } = ctx.canvas
+  const margin = MARGIN * height
+  const frame = { x: 0, y: 0, width, height }
+  const content = { x: margin, y: margin, width: width - margin * 2, height: height - margin * 2 }
+
+  ctx.save()
+  ctx.fillStyle = slide.backgroundColor
+  ctx.fillRect(0, 0, width, height)
+
+  // The image and caption and cover layouts frame their image; every other layout puts it behind the text
+  if (drawBackground && slide.layout !== 'image-caption' && slide.layout !== 'cover') {
+    drawBackground(frame)
+    ctx.globalAlpha = BACKGROUND_SCRIM
+    ctx.fillStyle = slide.backgroundColor
+    ctx.fillRect(0, 0, width, height)
+    ctx.globalAlpha = 1
+  }
+
+  ctx.fillStyle = slide.textColor
+  const title = toParagraphs(slide.title, false)
+  const titleStyle: TextStyle = { size: TITLE_SIZE, weight: 'bold' }
+  const titleBox = { ...content, height: TITLE_SIZE * height * LINE_HEIGHT * 2 }
+  const belowTitle = (used: number) => {
+    const y = content.y + used + (used > 0 ? TEXT_SIZE * height : 0)
+    return { ...content, y, height: content.y + content.height - y }
+  }
+
+  switch (slide.layout) {
+    case 'title': {
+      const subtitle = toParagraphs(slide.body, false)
+      const titleUsed = drawParagraphs(ctx, slide, title, { ...content, height: content.height * 0.6 }, { size: HERO_TITLE_SIZE, weight: 'bold', align: 'center' }, 'middle')
+      // The title block is centred in the upper part of the frame; the subtitle hangs just below it
+      const subtitleTop = content.y + (content.height * 0.6 + titleUsed) / 2 + TEXT_SIZE * height * 0.5
+      drawParagraphs(ctx, slide, subtitle, { ...content, y: subtitleTop, height: content.y + content.height - subtitleTop }, { size: TEXT_SIZE, align: 'center' })
+      break
+    }
+    case 'bullets': {
+      const used = drawParagraphs(ctx, slide, title, titleBox, titleStyle)
+      drawParagraphs(ctx, slide, toParagraphs(slide.body, true), belowTitle(used), { size: TEXT_SIZE })
+      break
+    }
+    case 'two-column': {
+      const area = belowTitle(drawParagraphs(ctx, slide, title, titleBox, titleStyle))
+      const gap = margin / 2
+      const columnWidth = (area.width - gap) / 2
+      drawParagraphs(ctx, slide, toParagraphs(slide.body, true), { ...area, width: columnWidth }, { size: TEXT_SIZE })
+      drawParagraphs(ctx, slide, toParagraphs(slide.secondary, true), { ...area, x: area.x + columnWidth + gap, width: columnWidth }, { size: TEXT_SIZE })
+      break
+    }
+    case 'image-caption': {
+      const captionHeight = TEXT_SIZE * height * LINE_HEIGHT * 2
+      const imageBox = { ...content, height: content.height - captionHeight - margin / 2 }
+      if (drawBackground) {
+        drawBackground(imageBox)
+      } else {
+        // Show where the image goes until one is chosen
+        ctx.globalAlpha = 0.15
+        ctx.fillRect(imageBox.x, imageBox.y, imageBox.width, imageBox.height)
+        ctx.globalAlpha = 1
+      }
+      drawParagraphs(ctx, slide, toParagraphs(slide.body, false), { ...content, y: content.y + content.height - captionHeight, height: captionHeight }, { size: TEXT_SIZE, align: 'center' }, 'middle')
+      break
+    }
+    case 'quote': {
+      const quote = slide.body.trim()
+      const attribution = slide.secondary.trim()
+      const attributionHeight = attribution ? TEXT_SIZE * height * LINE_HEIGHT * 2 : 0
+      const quoteBox = { ...content, height: content.height - attributionHeight }
+      const used = quote
+        ? drawParagraphs(ctx, slide, [{ text: `“${quote.replace(/\s*\n\s*/g, ' ')}”`, bullet: false }], quoteBox, { size: QUOTE_SIZE, italic: true, align: 'center' }, 'middle')
+        : 0
+      if (attribution) {
+        const y = quoteBox.y + (quoteBox.height + used) / 2 + TEXT_SIZE * height * 0.5
+        drawParagraphs(ctx, slide, [{ text: `— ${attribution}`, bullet: false }], { ...content, y, height: attributionHeight }, { size: TEXT_SIZE, align: 'center' })
+      }
+      break
+    }
+    case 'cover': {
+      const size = COVER_SIZE * height
+      const art = { x: (width - size) / 2, y: COVER_TOP * height, width: size, height: size }
+      if (drawBackground) {
+        // Browsers without canvas filters get the art unblurred under the scrim
+        const blur = COVER_BLUR * height
+        ctx.filter = `blur(${blur}px)`
+        drawBackground({ x: -blur * 2, y: -blur * 2, width: width + blur * 4, height: height + blur * 4 })
+        ctx.filter = 'none'
+        ctx.globalAlpha = BACKGROUND_SCRIM
+        ctx.fillStyle = slide.backgroundColor
+        ctx.fillRect(0, 0, width, height)
+        ctx.globalAlpha = 1
+        drawBackground(art)
+      } else {
+        ctx.globalAlpha = 0.15
+        ctx.fillRect(art.x, art.y, art.width, art.height)
+        ctx.globalAlpha = 1
+      }
+
+      const band = { x: 0, y: LOWER_THIRD_TOP * height, width, height: LOWER_THIRD_HEIGHT * height }
+      ctx.globalAlpha = BACKGROUND_SCRIM
+      ctx.fillStyle = slide.backgroundColor
+      ctx.fillRect(band.x, band.y, band.width, band.height)
+      ctx.globalAlpha = 1
+      ctx.fillStyle = slide.textColor
+      const text = { x: margin, y: band.y, width: width - margin * 2, height: band.height }
+      const titleUsed = drawParagraphs(ctx, slide, title, { ...text, height: band.height * 0.6 }, { size: TITLE_SIZE, weight: 'bold' }, 'middle')
+      const artistTop = band.y + (band.height * 0.6 + titleUsed) / 2
+      drawParagraphs(ctx, slide, toParagraphs(slide.body, false), { ...text, y: artistTop, height: band.y + band.height - artistTop }, { size: TEXT_SIZE })
+      break
+    }
+  }
+
+  ctx.restore()
+}
@@ -0,0 +1,240 @@
+import { Caption, LAST_LINE_SECONDS, MIN_CAPTION_DURATION, createCaptionId } from './captions'
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'lrc'
+
+export const SUBTITLE_FORMATS: { value: SubtitleFormat, label: string, extension: string, mimeType: string }[] = [
+  { value: 'srt', label: 'SubRip (.srt)', extension: 'srt', mimeType: 'application/x-subrip' },
+  { value: 'vtt', label: 'WebVTT (.vtt)', extension: 'vtt', mimeType: 'text/vtt' },
+  { value: 'lrc', label: 'Lyrics (.lrc)', extension: 'lrc', mimeType: 'text/plain' }
+]
+
+export const SUBTITLE_FILE_ACCEPT = SUBTITLE_FORMATS.map(format => `.${format.extension}`).join(',')
+
+export class SubtitleParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SubtitleParseError'
+  }
+}
+
+// Cues that could not be read are skipped and reported, as long as something usable remains
+export interface ParsedSubtitles {
+  lines: Caption[]
+  issues: string[]
+}
+
+interface Block {
+  // 1-based line number of the block's first row, for error messages
+  line: number
+  rows: string[]
+}
+
+const SRT_TIME = /^(\d{1,2}):(\d{2}):(\d{2})[,.](\d{1,3})$/
+const VTT_TIME = /^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})$/
+const LRC_TIME = /^(\d+):(\d{1,2}(?:[.:]\d{1,3})?)$/
+const LRC_TAG = /^\[([^\]]*)\]/
+
+// A gap shorter than this between LRC lines is not worth an explicit end marker
+const LRC_GAP_SECONDS = 0.01
+
+export function getSubtitleFormat(fileName: string): SubtitleFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase()
+  return SUBTITLE_FORMATS.find(format => format.extension === extension)?.value ?? null
+}
+
+function splitBlocks(text: string): Block[] {
+  const blocks: Block[] = []
+  let current: Block | null = null
+  text.split(/\r?\n/).forEach((row, i) => {
+    if (row.trim() === '') {
+      current = null
+    } else if (current) {
+      current.rows.push(row)
+    } else {
+      current = { line: i + 1, rows: [row] }
+      blocks.push(current)
+    }
+  })
+  return blocks
+}
+
+// Captions are plain single-line text, so styling tags and line breaks are dropped
+function cleanText(rows: string[]) {
+  return rows
+    .join(' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function parseClock(value: string, pattern: RegExp): number | null {
+  const match = pattern.exec(value.trim())
+  if (!match) return null
+  const [, hours, minutes, seconds, millis] = match
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis.padEnd(3, '0')) / 1000
+}
+
+function toCaption(text: string, startTime: number, endTime: number): Caption {
+  return { id: createCaptionId(), text, startTime, duration: Math.max(MIN_CAPTION_DURATION, endTime - startTime) }
+}
+
+// SRT and WebVTT cues share a shape: an optional identifier, a timing line, then the text
+function parseCues(blocks: Block[], timePattern: RegExp, example: string): ParsedSubtitles {
+  const lines: Caption[] = []
+  const issues: string[] = []
+
+  for (const block of blocks) {
+    const timingIndex = block.rows[0].includes('-->') ? 0 : 1
+    const timing = block.rows[timingIndex]
+    const lineNumber = block.line + timingIndex
+
+    const [startText, rest] = timing?.split('-->') ?? []
+    // WebVTT allows cue settings after the end time
+    const endText = rest?.trim().split(/\s+/)[0]
+    const start = startText !== undefined ? parseClock(startText, timePattern) : null
+    const end = endText !== undefined ? parseClock(endText, timePattern) : null
+    if (start === null || end === null) {
+      issues.push(`Line ${lineNumber}: expected a timing line like "${example}"`)
+      continue
+    }
+    if (end <= start) {
+      issues.push(`Line ${lineNumber}: the cue ends before it starts`)
+      continue
+    }
+
+    const text = cleanText(block.rows.slice(timingIndex + 1))
+    if (!text) {
+      issues.push(`Line ${lineNumber}: the cue has no text`)
+      continue
+    }
+    lines.push(toCaption(text, start, end))
+  }
+
+  return { lines, issues }
+}
+
+function parseSrt(text: string) {
+  return parseCues(splitBlocks(text), SRT_TIME, '00:00:01,000 --> 00:00:04,000')
+}
+
+function parseVtt(text: string) {
+  const [header, ...blocks] = splitBlocks(text)
+  if (!header || !/^WEBVTT(\s|$)/.test(header.rows[0])) {
+    throw new SubtitleParseError('This WebVTT file is missing its "WEBVTT" header on the first line.')
+  }
+  // Comments, styles and regions don't carry any text to show
+  const cues = blocks.filter(block => !/^(NOTE|STYLE|REGION)(\s|$)/.test(block.rows[0]))
+  return parseCues(cues, VTT_TIME, '00:01.000 --> 00:04.000')
+}
+
+function parseLrc(text: string, audioDuration: number): ParsedSubtitles {
+  const entries: { time: number, text: string }[] = []
+  const issues: string[] = []
+  let offset = 0
+
+  text.split(/\r?\n/).forEach((row, i) => {
+    let rest = row.trim()
+    if (!rest) return
+
+    const times: number[] = []
+    let tag = LRC_TAG.exec(rest)
+    if (!tag) {
+      issues.push(`Line ${i + 1}: expected a [mm:ss.xx] time tag`)
+      return
+    }
+    while (tag) {
+      const time = LRC_TIME.exec(tag[1])
+      const meta = /^(\w+):(.*)$/.exec(tag[1])
+      if (time) {
+        // Some files separate hundredths with a colon
+        times.push(Number(time[1]) * 60 + Number(time[2].replace(':', '.')))
+      } else if (meta) {
+        if (meta[1].toLowerCase() === 'offset') {
+          const value = Number(meta[2])
+          if (Number.isFinite(value)) offset = value / 1000
+          else issues.push(`Line ${i + 1}: the offset "${meta[2]}" is not a number of milliseconds`)
+        }
+      } else {
+        issues.push(`Line ${i + 1}: "[${tag[1]}]" is not a time or metadata tag`)
+      }
+      rest = rest.slice(tag[0].length)
+      tag = LRC_TAG.exec(rest)
+    }
+
+    const lineText = cleanText([rest])
+    times.forEach(time => entries.push({ time, text: lineText }))
+  })
+
+  // A positive offset makes lyrics appear sooner
+  const timed = entries
+    .map(entry => ({ ...entry, time: Math.max(0, entry.time - offset) }))
+    .sort((a, b) => a.time - b.time)
+
+  // Each line lasts until the next time tag; an empty tag just ends the line before it
+  const lines = timed.flatMap((entry, i) => {
+    if (!entry.text) return []
+    const end = i + 1 < timed.length
+      ? timed[i + 1].time
+      : Math.max(entry.time + MIN_CAPTION_DURATION, Math.min(audioDuration, entry.time + LAST_LINE_SECONDS))
+    return [toCaption(entry.text, entry.time, end)]
+  })
+  return { lines, issues }
+}
+
+export function parseSubtitles(text: string, format: SubtitleFormat, audioDuration: number): ParsedSubtitles {
+  const content = text.replace(/^\uFEFF/, '')
+  const result = format === 'srt'
+    ? parseSrt(content)
+    : format === 'vtt'
+      ? parseVtt(content)
+      : parseLrc(content, audioDuration)
+
+  if (result.lines.length === 0) {
+    const firstIssue = result.issues[0] ? ` ${result.issues[0]}.` : ''
+    throw new SubtitleParseError(`No timed lines could be read from this file.${firstIssue}`)
+  }
+  return { ...result, lines: result.lines.sort((a, b) => a.startTime - b.startTime) }
+}
+
+function formatClock(seconds: number, separator: ',' | '.') {
+  const millis = Math.round(seconds * 1000)
+  const hours = Math.floor(millis / 3_600_000)
+  const minutes = Math.floor(millis / 60_000) % 60
+  const secs = Math.floor(millis / 1000) % 60
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0')
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(millis % 1000, 3)}`
+}
+
+function formatLrcTime(seconds: number) {
+  const hundredths = Math.round(seconds * 100)
+  const minutes = Math.floor(hundredths / 6000)
+  const secs = (hundredths % 6000) / 100
+  return `[${minutes.toString().padStart(2, '0')}:${secs.toFixed(2).padStart(5, '0')}]`
+}
+
+export function formatSubtitles(captions: Caption[], format: SubtitleFormat): string {
+  const lines = [...captions].sort((a, b) => a.startTime - b.startTime)
+
+  if (format === 'lrc') {
+    return lines.flatMap((line, i) => {
+      const end = line.startTime + line.duration
+      const next = lines[i + 1]
+      const rows = [`${formatLrcTime(line.startTime)}${line.text}`]
+      // LRC has no end times, so a silence before the next line needs its own empty tag
+      if (!next || next.startTime - end > LRC_GAP_SECONDS) rows.push(formatLrcTime(end))
+      return rows
+    }).join('\n') + '\n'
+  }
+
+  const separator = format === 'srt' ? ',' : '.'
+  const cues = lines.map((line, i) => {
+    const timing = `${formatClock(line.startTime, separator)} --> ${formatClock(line.startTime + line.duration, separator)}`
+    return format === 'srt' ? `${i + 1}\n${timing}\n${line.text}\n` : `${timing}\n${line.text}\n`
+  })
+  return format === 'vtt' ? ['WEBVTT\n', ...cues].join('\n') : cues.join('\n')
+}
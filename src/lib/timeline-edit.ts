@@ -0,0 +1,80 @@
+import { TimelineItem } from '../App'
+import { findNearestTime } from './beat-detection'
+
+export type ClipEdge = 'move' | 'start' | 'end'
+
+export const MIN_CLIP_DURATION = 0.25
+
+export interface ClipGeometry {
+  startTime: number
+  duration: number
+  track: number
+}
+
+// Anything laid out in time on the timeline: clips, and caption lines on their own lane
+type TimedSpan = Pick<TimelineItem, 'id' | 'startTime' | 'duration'>
+
+// Everything a dragged clip edge can stick to, sorted for nearest-time lookups
+export function getSnapTimes(
+  items: TimedSpan[],
+  excludeId: string,
+  playhead: number,
+  beats: number[]
+): number[] {
+  const edges = items
+    .filter(item => item.id !== excludeId)
+    .flatMap(item => [item.startTime, item.startTime + item.duration])
+  return [0, playhead, ...edges, ...beats].sort((a, b) => a - b)
+}
+
+function snap(time: number, snapTimes: number[], threshold: number): number | null {
+  const nearest = findNearestTime(snapTimes, time)
+  return nearest !== null && Math.abs(nearest - time) <= threshold ? nearest : null
+}
+
+// Geometry of a clip after dragging it by `deltaTime`; `threshold` is the snap distance in seconds
+export function applyClipDrag(
+  item: ClipGeometry,
+  edge: ClipEdge,
+  deltaTime: number,
+  track: number,
+  snapTimes: number[],
+  threshold: number
+): ClipGeometry {
+  const end = item.startTime + item.duration
+
+  if (edge === 'start') {
+    const raw = Math.min(Math.max(0, item.startTime + deltaTime), end - MIN_CLIP_DURATION)
+    const snapped = snap(raw, snapTimes, threshold)
+    const startTime = snapped !== null && snapped < end - MIN_CLIP_DURATION ? snapped : raw
+    return { startTime, duration: end - startTime, track: item.track }
+  }
+
+  if (edge === 'end') {
+    const raw = Math.max(item.startTime + MIN_CLIP_DURATION, end + deltaTime)
+    const snapped = snap(raw, snapTimes, threshold)
+    const newEnd = snapped !== null && snapped > item.startTime + MIN_CLIP_DURATION ? snapped : raw
+    return { startTime: item.startTime, duration: newEnd - item.startTime, track: item.track }
+  }
+
+  // Moving keeps the length and snaps whichever edge lands closer to a target
+  const rawStart = Math.max(0, item.startTime + deltaTime)
+  const snappedStart = snap(rawStart, snapTimes, threshold)
+  const snappedEnd = snap(rawStart + item.duration, snapTimes, threshold)
+  const startOffset = snappedStart !== null ? Math.abs(snappedStart - rawStart) : Infinity
+  const endOffset = snappedEnd !== null ? Math.abs(snappedEnd - (rawStart + item.duration)) : Infinity
+
+  let startTime = rawStart
+  if (startOffset <= endOffset && snappedStart !== null) {
+    startTime = snappedStart
+  } else if (snappedEnd !== null) {
+    startTime = Math.max(0, snappedEnd - item.duration)
+  }
+  return { startTime, duration: item.duration, track }
+}
+
+// Drop tracks that no longer hold any clip so the lanes stay contiguous
+export function compactTracks(items: TimelineItem[]): TimelineItem[] {
+  const used = [...new Set(items.map(item => item.track))].sort((a, b) => a - b)
+  return items.map(item => ({ ...item, track: used.indexOf(item.track) }))
+}
@@ -0,0 +1,164 @@
+import { resampleMono } from './audio'
+import { Caption, MIN_CAPTION_DURATION, createCaptionId } from './captions'
+
+export interface TranscribedWord {
+  text: string
+  startTime: number
+  endTime: number
+}
+
+export type TranscriptionStage = 'loading-model' | 'transcribing'
+
+export interface TranscriptionProgress {
+  stage: TranscriptionStage
+  // 0 to 1 while the model downloads; transcription itself reports no fraction
+  progress: number | null
+}
+
+export interface TranscriptionOptions {
+  model: TranscriptionModelId
+  onProgress?: (progress: TranscriptionProgress) => void
+  signal?: AbortSignal
+}
+
+// The app only talks to this, so the local model can be swapped for a remote service or a test double
+export interface Transcriber {
+  transcribe: (audio: AudioBuffer, options: TranscriptionOptions) => Promise<TranscribedWord[]>
+}
+
+export type TranscriptionModelId = 'Xenova/whisper-tiny.en' | 'Xenova/whisper-base'
+
+export const TRANSCRIPTION_MODELS: { value: TranscriptionModelId, label: string, description: string }[] = [
+  { value: 'Xenova/whisper-tiny.en', label: 'English (fast)', description: '~40 MB download' },
+  { value: 'Xenova/whisper-base', label: 'Multilingual', description: '~80 MB download, slower' }
+]
+
+// Whisper models are trained on 16 kHz mono audio
+export const TRANSCRIPTION_SAMPLE_RATE = 16000
+
+export class TranscriptionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TranscriptionError'
+  }
+}
+
+// Messages between the page and the transcription worker
+export type TranscriptionRequest = {
+  type: 'transcribe'
+  model: TranscriptionModelId
+  samples: Float32Array
+}
+
+export type TranscriptionResponse =
+  | { type: 'progress', progress: TranscriptionProgress }
+  | { type: 'result', words: TranscribedWord[] }
+  | { type: 'error', message: string }
+
+// Runs the model in a worker so long transcriptions don't freeze the editor.
+// The worker is kept between runs so the model only loads once, and is thrown away on cancel.
+export function createWorkerTranscriber(): Transcriber {
+  let worker: Worker | null = null
+  let busy = false
+
+  return {
+    transcribe: async (audio, { model, onProgress, signal }) => {
+      if (busy) {
+        throw new TranscriptionError('A transcription is already running.')
+      }
+      busy = true
+
+      try {
+        const samples = await resampleMono(audio, TRANSCRIPTION_SAMPLE_RATE)
+        signal?.throwIfAborted()
+
+        worker ??= new Worker(new URL('../workers/transcription.worker.ts', import.meta.url), { type: 'module' })
+        const active = worker
+
+        return await new Promise<TranscribedWord[]>((resolve, reject) => {
+          // Aborting this removes every listener below in one go
+          const listeners = new AbortController()
+          const cleanup = () => listeners.abort()
+          const handleMessage = (event: MessageEvent<TranscriptionResponse>) => {
+            const message = event.data
+            if (message.type === 'progress') {
+              onProgress?.(message.progress)
+              return
+            }
+            cleanup()
+            if (message.type === 'result') resolve(message.words)
+            else reject(new TranscriptionError(message.message))
+          }
+          const handleError = (event: ErrorEvent) => {
+            cleanup()
+            worker = null
+            active.terminate()
+            reject(new TranscriptionError(event.message || 'The speech model stopped unexpectedly.'))
+          }
+          const handleAbort = () => {
+            cleanup()
+            worker = null
+            active.terminate()
+            reject(signal?.reason)
+          }
+
+          active.addEventListener('message', handleMessage, { signal: listeners.signal })
+          active.addEventListener('error', handleError, { signal: listeners.signal })
+          signal?.addEventListener('abort', handleAbort, { signal: listeners.signal })
+
+          const request: TranscriptionRequest = { type: 'transcribe', model, samples }
+          active.postMessage(request, [samples.buffer])
+        })
+      } finally {
+        busy = false
+      }
+    }
+  }
+}
+
+let localTranscriber: Transcriber | null = null
+
+// Created on first use, so nothing is spawned until someone transcribes
+export function getLocalTranscriber(): Transcriber {
+  localTranscriber ??= createWorkerTranscriber()
+  return localTranscriber
+}
+
+const MAX_LINE_WORDS = 8
+const MAX_LINE_SECONDS = 5
+// A pause at least this long starts a new line
+const LINE_BREAK_GAP_SECONDS = 0.8
+
+// Groups words into caption lines, breaking at sentence ends, pauses and a comfortable reading length
+export function wordsToCaptions(words: TranscribedWord[]): Caption[] {
+  const groups: TranscribedWord[][] = []
+  let group: TranscribedWord[] = []
+
+  for (const word of words) {
+    const previous = group[group.length - 1]
+    const breaksHere = previous && (
+      /[.!?]$/.test(previous.text) ||
+      word.startTime - previous.endTime >= LINE_BREAK_GAP_SECONDS ||
+      group.length >= MAX_LINE_WORDS ||
+      word.endTime - group[0].startTime > MAX_LINE_SECONDS
+    )
+    if (breaksHere) {
+      groups.push(group)
+      group = []
+    }
+    group.push(word)
+  }
+  if (group.length > 0) groups.push(group)
+
+  return groups.map((lineWords) => {
+    const startTime = lineWords[0].startTime
+    const endTime = lineWords[lineWords.length - 1].endTime
+    return {
+      id: createCaptionId(),
+      text: lineWords.map(word => word.text).join(' '),
+      startTime,
+      duration: Math.max(MIN_CAPTION_DURATION, endTime - startTime),
+      words: lineWords.map(word => ({ text: word.text, offset: word.startTime - startTime }))
+    }
+  })
+}
@@ -0,0 +1,133 @@
+import { TimelineItem } from '../App'
+
+export type TransitionType =
+  | 'fade'
+  | 'slide-left'
+  | 'slide-right'
+  | 'slide-up'
+  | 'slide-down'
+  | 'zoom-in'
+  | 'zoom-out'
+  | 'rotate'
+  | 'flip'
+
+export type TransitionEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out'
+
+// Stored on the incoming item; it plays across the cut from the clip before it on the same track
+export interface Transition {
+  type: TransitionType
+  duration: number
+  easing: TransitionEasing
+}
+
+export const TRANSITION_TYPES: { value: TransitionType, label: string }[] = [
+  { value: 'fade', label: 'Fade' },
+  { value: 'slide-left', label: 'Slide left' },
+  { value: 'slide-right', label: 'Slide right' },
+  { value: 'slide-up', label: 'Slide up' },
+  { value: 'slide-down', label: 'Slide down' },
+  { value: 'zoom-in', label: 'Zoom in' },
+  { value: 'zoom-out', label: 'Zoom out' },
+  { value: 'rotate', label: 'Rotate' },
+  { value: 'flip', label: 'Flip' }
+]
+
+export const TRANSITION_EASINGS: { value: TransitionEasing, label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'ease-in', label: 'Ease in' },
+  { value: 'ease-out', label: 'Ease out' },
+  { value: 'ease-in-out', label: 'Ease in-out' }
+]
+
+export const DEFAULT_TRANSITION: Transition = { type: 'fade', duration: 0.5, easing: 'ease-in-out' }
+
+export const MIN_TRANSITION_DURATION = 0.1
+export const MAX_TRANSITION_DURATION = 3
+
+// Clips closer than this are treated as touching, so a transition can join them
+const ADJACENT_TOLERANCE = 0.05
+
+// How a layer is placed in the frame; offsets are fractions of the frame size
+export interface LayerTransform {
+  alpha: number
+  x: number
+  y: number
+  scale: number
+  scaleX: number
+  rotation: number
+}
+
+export const IDENTITY_TRANSFORM: LayerTransform = { alpha: 1, x: 0, y: 0, scale: 1, scaleX: 1, rotation: 0 }
+
+export function applyEasing(easing: TransitionEasing, t: number): number {
+  switch (easing) {
+    case 'linear':
+      return t
+    case 'ease-in':
+      return t * t * t
+    case 'ease-out':
+      return 1 - Math.pow(1 - t, 3)
+    case 'ease-in-out':
+      return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+  }
+}
+
+// The clip that ends where `item` starts on the same track, if any
+export function findPreviousClip(items: TimelineItem[], item: TimelineItem): TimelineItem | null {
+  return items.find(other =>
+    other.id !== item.id &&
+    other.track === item.track &&
+    Math.abs(other.startTime + other.duration - item.startTime) <= ADJACENT_TOLERANCE
+  ) ?? null
+}
+
+export interface TransitionWindow {
+  start: number
+  end: number
+}
+
+// Transitions are centred on the cut and never longer than either clip they join
+export function getTransitionWindow(previous: TimelineItem, item: TimelineItem, transition: Transition): TransitionWindow {
+  const duration = Math.min(transition.duration, previous.duration, item.duration)
+  return { start: item.startTime - duration / 2, end: item.startTime + duration / 2 }
+}
+
+export interface TransitionLayers {
+  outgoing: LayerTransform
+  incoming: LayerTransform
+  // Most transitions reveal the incoming clip over the outgoing one; a few lift the outgoing clip away instead
+  incomingOnTop: boolean
+}
+
+export function getTransitionLayers(transition: Transition, progress: number): TransitionLayers {
+  const p = applyEasing(transition.easing, Math.min(1, Math.max(0, progress)))
+  const still = IDENTITY_TRANSFORM
+
+  switch (transition.type) {
+    case 'fade':
+      return { outgoing: still, incoming: { ...still, alpha: p }, incomingOnTop: true }
+    case 'slide-left':
+      return { outgoing: { ...still, x: -p }, incoming: { ...still, x: 1 - p }, incomingOnTop: true }
+    case 'slide-right':
+      return { outgoing: { ...still, x: p }, incoming: { ...still, x: p - 1 }, incomingOnTop: true }
+    case 'slide-up':
+      return { outgoing: { ...still, y: -p }, incoming: { ...still, y: 1 - p }, incomingOnTop: true }
+    case 'slide-down':
+      return { outgoing: { ...still, y: p }, incoming: { ...still, y: p - 1 }, incomingOnTop: true }
+    case 'zoom-in':
+      return { outgoing: still, incoming: { ...still, alpha: p, scale: 0.3 + 0.7 * p }, incomingOnTop: true }
+    case 'zoom-out':
+      return { outgoing: { ...still, alpha: 1 - p, scale: 1 - 0.7 * p }, incoming: still, incomingOnTop: false }
+    case 'rotate':
+      return {
+        outgoing: still,
+        incoming: { ...still, alpha: Math.min(1, p * 2), scale: p, rotation: (1 - p) * -Math.PI },
+        incomingOnTop: true
+      }
+    case 'flip':
+      // The outgoing clip folds to an edge-on card, then the incoming one unfolds from it
+      return p < 0.5
+        ? { outgoing: { ...still, scaleX: 1 - p * 2 }, incoming: { ...still, alpha: 0 }, incomingOnTop: true }
+        : { outgoing: { ...still, alpha: 0 }, incoming: { ...still, scaleX: p * 2 - 1 }, incomingOnTop: true }
+  }
+}
@@ -0,0 +1,352 @@
+import * as Mp4 from 'mp4-muxer'
+import * as WebM from 'webm-muxer'
+import { AudioFile, TimelineItem } from '../App'
+import { AUDIO_SAMPLE_RATE } from './audio'
+import { FrameSources, drawTimelineFrame, loadTimelineMedia, prepareFrame } from './compositor'
+import { analyzeBeats } from './beat-detection'
+import { CaptionTrack } from './captions'
+import { AudioTrim, getAudioRegion } from './audio-trim'
+import { AudioMix, MixBuffers, getMixChannelCount, loadMixBuffers, renderMix } from './audio-mix'
+import { LoudnessReport, MasteringSettings, masterSoundtrack } from './mastering'
+
+export interface RenderProject {
+  audioFile: AudioFile
+  audioTrim: AudioTrim | null
+  audioMix: AudioMix
+  timelineItems: TimelineItem[]
+  captions: CaptionTrack
+}
+
+export interface RenderProgress {
+  frame: number
+  totalFrames: number
+}
+
+export type VideoContainer = 'webm' | 'mp4'
+
+export interface RenderOptions {
+  container: VideoContainer
+  width: number
+  height: number
+  fps: number
+  videoBitrate: number
+  // Exports are mastered; quick preview renders keep the raw mix
+  mastering?: MasteringSettings
+  onProgress?: (progress: RenderProgress) => void
+  signal?: AbortSignal
+}
+
+export interface RenderedVideo {
+  blob: Blob
+  url: string
+  mimeType: string
+  width: number
+  height: number
+  fps: number
+  duration: number
+  loudness: LoudnessReport | null
+}
+
+export const FRAME_RATES = [24, 25, 30, 60]
+
+export const PREVIEW_RENDER = {
+  container: 'webm' as VideoContainer,
+  width: 1280,
+  height: 720,
+  videoBitrate: 4_000_000
+}
+
+export const AUDIO_BITRATE = 128_000
+const AUDIO_CHUNK_FRAMES = 4800
+const KEYFRAME_INTERVAL_SECONDS = 2
+const MAX_ENCODE_QUEUE = 8
+
+export class RenderError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RenderError'
+  }
+}
+
+function assertWebCodecs() {
+  if (typeof VideoEncoder === 'undefined' || typeof AudioEncoder === 'undefined') {
+    throw new RenderError('This browser does not support in-browser video encoding (WebCodecs). Try a recent Chrome or Edge.')
+  }
+}
+
+export interface EncoderSetup {
+  video: VideoEncoderConfig
+  audio: AudioEncoderConfig
+  mimeType: string
+}
+
+interface ContainerMuxer {
+  addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void
+  addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void
+  finalize: () => void
+  getBuffer: () => ArrayBuffer
+}
+
+// H.264 level 4.0 tops out at 1080p; anything larger needs level 5.1
+function getAvcCodec(width: number, height: number) {
+  return width * height > 1920 * 1080 ? 'avc1.640033' : 'avc1.640028'
+}
+
+// Pick the first codec pair the browser can actually encode for the container
+export async function getEncoderSetup(
+  container: VideoContainer,
+  width: number,
+  height: number,
+  fps: number,
+  videoBitrate: number,
+  numberOfChannels = 2
+): Promise<EncoderSetup | null> {
+  if (typeof VideoEncoder === 'undefined' || typeof AudioEncoder === 'undefined') return null
+
+  const videoCodecs = container === 'mp4' ? [getAvcCodec(width, height)] : ['vp09.00.10.08', 'vp8']
+  // AAC encoding is missing from some builds, MP4 can carry Opus instead
+  const audioCodecs = container === 'mp4' ? ['mp4a.40.2', 'opus'] : ['opus']
+
+  let video: VideoEncoderConfig | null = null
+  for (const codec of videoCodecs) {
+    const config: VideoEncoderConfig = {
+      codec,
+      width,
+      height,
+      bitrate: videoBitrate,
+      framerate: fps,
+      ...(container === 'mp4' ? { avc: { format: 'avc' as const } } : {})
+    }
+    if ((await VideoEncoder.isConfigSupported(config)).supported) {
+      video = config
+      break
+    }
+  }
+
+  let audio: AudioEncoderConfig | null = null
+  for (const codec of audioCodecs) {
+    const config: AudioEncoderConfig = {
+      codec,
+      sampleRate: AUDIO_SAMPLE_RATE,
+      numberOfChannels,
+      bitrate: AUDIO_BITRATE
+    }
+    if ((await AudioEncoder.isConfigSupported(config)).supported) {
+      audio = config
+      break
+    }
+  }
+
+  if (!video || !audio) return null
+  return { video, audio, mimeType: container === 'mp4' ? 'video/mp4' : 'video/webm' }
+}
+
+function createMuxer(container: VideoContainer, setup: EncoderSetup, fps: number): ContainerMuxer {
+  const { video, audio } = setup
+
+  if (container === 'mp4') {
+    const muxer = new Mp4.Muxer({
+      target: new Mp4.ArrayBufferTarget(),
+      video: { codec: 'avc', width: video.width, height: video.height, frameRate: fps },
+      audio: {
+        codec: audio.codec === 'opus' ? 'opus' : 'aac',
+        sampleRate: audio.sampleRate,
+        numberOfChannels: audio.numberOfChannels
+      },
+      fastStart: 'in-memory'
+    })
+    return {
+      addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      finalize: () => muxer.finalize(),
+      getBuffer: () => muxer.target.buffer
+    }
+  }
+
+  const muxer = new WebM.Muxer({
+    target: new WebM.ArrayBufferTarget(),
+    video: {
+      codec: video.codec === 'vp8' ? 'V_VP8' : 'V_VP9',
+      width: video.width,
+      height: video.height,
+      frameRate: fps
+    },
+    audio: { codec: 'A_OPUS', sampleRate: audio.sampleRate, numberOfChannels: audio.numberOfChannels }
+  })
+  return {
+    addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    finalize: () => muxer.finalize(),
+    getBuffer: () => muxer.target.buffer
+  }
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new DOMException('Rendering was cancelled', 'AbortError')
+  }
+}
+
+// Give the encoder a chance to drain so frames don't pile up in memory
+async function waitForEncoder(encoder: VideoEncoder) {
+  while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+    await new Promise(resolve => encoder.addEventListener('dequeue', resolve, { once: true }))
+  }
+}
+
+function encodeAudio(encoder: AudioEncoder, buffer: AudioBuffer) {
+  const { sampleRate, numberOfChannels } = buffer
+  const channels = Array.from({ length: numberOfChannels }, (_, i) => buffer.getChannelData(i))
+
+  for (let offset = 0; offset < buffer.length; offset += AUDIO_CHUNK_FRAMES) {
+    const frames = Math.min(AUDIO_CHUNK_FRAMES, buffer.length - offset)
+    const planar = new Float32Array(frames * numberOfChannels)
+    channels.forEach((channel, i) => {
+      planar.set(channel.subarray(offset, offset + frames), i * frames)
+    })
+
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: buffer.sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels,
+      timestamp: Math.round((offset / sampleRate) * 1_000_000),
+      data: planar
+    })
+    encoder.encode(data)
+    data.close()
+  }
+}
+
+export interface Soundtrack {
+  buffer: AudioBuffer
+  loudness: LoudnessReport | null
+}
+
+// Mixes every track, fade and duck down to the trimmed region, then masters it if asked
+export async function renderSoundtrack(
+  project: Pick<RenderProject, 'audioFile' | 'audioTrim' | 'audioMix'>,
+  mastering?: MasteringSettings,
+  buffers?: MixBuffers
+): Promise<Soundtrack> {
+  const { audioFile, audioTrim, audioMix } = project
+  const mixBuffers = buffers ?? await loadMixBuffers(audioFile, audioMix)
+  const region = getAudioRegion(audioTrim, audioFile.duration)
+  const numberOfChannels = getMixChannelCount(mixBuffers, audioMix)
+  const mix = await renderMix(mixBuffers, audioMix, audioTrim, region, numberOfChannels)
+  if (!mastering) return { buffer: mix, loudness: null }
+
+  const mastered = await masterSoundtrack(mix, mastering)
+  return { buffer: mastered.buffer, loudness: mastered.report }
+}
+
+export async function renderVideo(project: RenderProject, options: RenderOptions): Promise<RenderedVideo> {
+  assertWebCodecs()
+
+  const { audioFile, audioTrim, audioMix, timelineItems, captions } = project
+  const { container, width, height, fps, videoBitrate, mastering, onProgress, signal } = options
+  const region = getAudioRegion(audioTrim, audioFile.duration)
+  const duration = region.duration
+  const totalFrames = Math.max(1, Math.ceil(duration * fps))
+
+  const [buffers, media] = await Promise.all([
+    loadMixBuffers(audioFile, audioMix),
+    loadTimelineMedia(timelineItems)
+  ])
+  throwIfAborted(signal)
+
+  // The soundtrack is finished before any frames are drawn, so the encoder sees it whole
+  const soundtrack = await renderSoundtrack(project, mastering, buffers)
+  throwIfAborted(signal)
+  const { numberOfChannels } = soundtrack.buffer
+
+  const setup = await getEncoderSetup(container, width, height, fps, videoBitrate, numberOfChannels)
+  if (!setup) {
+    throw new RenderError(`This browser cannot encode ${width}x${height} ${container.toUpperCase()} video.`)
+  }
+  const muxer = createMuxer(container, setup, fps)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new RenderError('Could not create a drawing context for rendering.')
+  }
+
+  // Encoder errors arrive asynchronously; surface the first one after flushing
+  let encoderError: Error | null = null
+  const onError = (error: Error) => {
+    encoderError ??= error
+  }
+
+  // Hardware encoders are scarce, so from here on every failure path has to close them
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: onError
+  })
+  const audioEncoder = new AudioEncoder({
+    output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    error: onError
+  })
+
+  // Visualizers follow the main audio rather than the mix
+  const audioBuffer = buffers.main
+  const sources: FrameSources = { media, audio: audioBuffer, beats: [], scenes: null, captions }
+
+  try {
+    videoEncoder.configure(setup.video)
+    audioEncoder.configure(setup.audio)
+
+    // three.js is only loaded for timelines that use 3D scenes
+    if (timelineItems.some(item => item.scene3d)) {
+      const { createSceneRenderer } = await import('./scene-renderer')
+      sources.scenes = await createSceneRenderer(width, height)
+      sources.beats = (await analyzeBeats(audioBuffer)).beats
+    }
+
+    encodeAudio(audioEncoder, soundtrack.buffer)
+
+    const keyframeInterval = Math.round(fps * KEYFRAME_INTERVAL_SECONDS)
+    for (let frame = 0; frame < totalFrames; frame++) {
+      throwIfAborted(signal)
+      if (encoderError) throw encoderError
+
+      // The timeline is in file time, the video starts at the trim's in point
+      const time = frame / fps
+      await prepareFrame(timelineItems, media, region.start + time)
+      drawTimelineFrame(ctx, timelineItems, sources, region.start + time)
+
+      const videoFrame = new VideoFrame(canvas, {
+        timestamp: Math.round(time * 1_000_000),
+        duration: Math.round(1_000_000 / fps)
+      })
+      videoEncoder.encode(videoFrame, { keyFrame: frame % keyframeInterval === 0 })
+      videoFrame.close()
+
+      await waitForEncoder(videoEncoder)
+      onProgress?.({ frame: frame + 1, totalFrames })
+    }
+
+    await Promise.all([videoEncoder.flush(), audioEncoder.flush()])
+    if (encoderError) throw encoderError
+  } finally {
+    if (videoEncoder.state !== 'closed') videoEncoder.close()
+    if (audioEncoder.state !== 'closed') audioEncoder.close()
+    sources.scenes?.dispose()
+  }
+
+  muxer.finalize()
+  const blob = new Blob([muxer.getBuffer()], { type: setup.mimeType })
+
+  return {
+    blob,
+    url: URL.createObjectURL(blob),
+    mimeType: setup.mimeType,
+    width,
+    height,
+    fps,
+    duration,
+    loudness: soundtrack.loudness
+  }
+}
@@ -0,0 +1,200 @@
+import { getMonoSamples, getSpectrumBands } from './audio'
+
+export type VisualizerStyle = 'bars' | 'mirrored-bars' | 'circular' | 'oscilloscope' | 'particles'
+
+// Position is the centre of the visualizer and size its box, both as fractions of the frame
+export interface VisualizerSettings {
+  style: VisualizerStyle
+  color: string
+  x: number
+  y: number
+  width: number
+  height: number
+  smoothing: number
+}
+
+export const VISUALIZER_STYLES: { value: VisualizerStyle, label: string }[] = [
+  { value: 'bars', label: 'Bars' },
+  { value: 'mirrored-bars', label: 'Mirrored bars' },
+  { value: 'circular', label: 'Circular spectrum' },
+  { value: 'oscilloscope', label: 'Oscilloscope' },
+  { value: 'particles', label: 'Particle burst' }
+]
+
+export const DEFAULT_VISUALIZER: VisualizerSettings = {
+  style: 'bars',
+  color: '#ffffff',
+  x: 0.5,
+  y: 0.85,
+  width: 0.9,
+  height: 0.2,
+  smoothing: 0.5
+}
+
+export const MAX_SMOOTHING = 0.9
+
+const BAND_COUNT = 48
+const SMOOTHING_STEP_SECONDS = 1 / 60
+const MAX_SMOOTHING_STEPS = 8
+const OSCILLOSCOPE_SAMPLES = 2048
+const PARTICLE_COUNT = 96
+
+// An icon for the visualizer's timeline clip; the frames themselves are drawn procedurally
+export function getVisualizerThumbnail(settings: VisualizerSettings) {
+  const bars = [0.4, 0.7, 1, 0.6, 0.85, 0.5, 0.75, 0.3]
+    .map((h, i) => `<rect x="${4 + i * 7}" y="${36 - h * 28}" width="5" height="${h * 28}" rx="1"/>`)
+    .join('')
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 40"><rect width="64" height="40" fill="#0f172a"/><g fill="${settings.color}">${bars}</g></svg>`
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`
+}
+
+// Smoothing blends the spectra of the moments just before `time`, so a frame never depends on the previous one
+export function getSmoothedBands(buffer: AudioBuffer, time: number, count: number, smoothing: number): Float32Array {
+  const steps = 1 + Math.round(Math.min(smoothing, MAX_SMOOTHING) / MAX_SMOOTHING * (MAX_SMOOTHING_STEPS - 1))
+  const bands = new Float32Array(count)
+  let totalWeight = 0
+
+  for (let step = 0; step < steps; step++) {
+    const weight = Math.pow(smoothing, step)
+    const spectrum = getSpectrumBands(buffer, Math.max(0, time - step * SMOOTHING_STEP_SECONDS), count)
+    for (let i = 0; i < count; i++) {
+      bands[i] += spectrum[i] * weight
+    }
+    totalWeight += weight
+  }
+
+  for (let i = 0; i < count; i++) {
+    bands[i] /= totalWeight
+  }
+  return bands
+}
+
+// A fixed pseudo-random value per particle, so every render of a frame is identical
+function hash(n: number) {
+  const x = Math.sin(n * 127.1 + 311.7) * 43758.5453
+  return x - Math.floor(x)
+}
+
+interface Box {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+function drawBars(ctx: CanvasRenderingContext2D, bands: Float32Array, box: Box, mirrored: boolean) {
+  const slot = box.width / bands.length
+  const barWidth = Math.max(1, slot * 0.7)
+  const middle = box.top + box.height / 2
+
+  bands.forEach((level, i) => {
+    const x = box.left + i * slot + (slot - barWidth) / 2
+    if (mirrored) {
+      const half = Math.max(1, (level * box.height) / 2)
+      ctx.fillRect(x, middle - half, barWidth, half * 2)
+    } else {
+      const height = Math.max(1, level * box.height)
+      ctx.fillRect(x, box.top + box.height - height, barWidth, height)
+    }
+  })
+}
+
+function drawCircular(ctx: CanvasRenderingContext2D, bands: Float32Array, box: Box) {
+  const centerX = box.left + box.width / 2
+  const centerY = box.top + box.height / 2
+  const outer = Math.min(box.width, box.height) / 2
+  const inner = outer * 0.45
+
+  ctx.lineWidth = Math.max(1, ((2 * Math.PI * inner) / bands.length) * 0.6)
+  ctx.lineCap = 'round'
+  ctx.beginPath()
+  // Mirror the spectrum around the circle so the lows meet at the top
+  const total = bands.length * 2
+  for (let i = 0; i < total; i++) {
+    const level = bands[i < bands.length ? i : total - 1 - i]
+    const angle = (i / total) * Math.PI * 2 - Math.PI / 2
+    const length = inner + (outer - inner) * level
+    ctx.moveTo(centerX + Math.cos(angle) * inner, centerY + Math.sin(angle) * inner)
+    ctx.lineTo(centerX + Math.cos(angle) * length, centerY + Math.sin(angle) * length)
+  }
+  ctx.stroke()
+}
+
+function drawOscilloscope(ctx: CanvasRenderingContext2D, buffer: AudioBuffer, time: number, box: Box) {
+  const samples = getMonoSamples(buffer)
+  const start = Math.round(time * buffer.sampleRate) - OSCILLOSCOPE_SAMPLES / 2
+  const points = Math.min(OSCILLOSCOPE_SAMPLES, Math.max(2, Math.round(box.width)))
+  const middle = box.top + box.height / 2
+
+  ctx.lineWidth = Math.max(1, box.height / 40)
+  ctx.lineJoin = 'round'
+  ctx.beginPath()
+  for (let i = 0; i < points; i++) {
+    const index = start + Math.floor((i / (points - 1)) * (OSCILLOSCOPE_SAMPLES - 1))
+    const sample = index >= 0 && index < samples.length ? samples[index] : 0
+    const x = box.left + (i / (points - 1)) * box.width
+    const y = middle - Math.max(-1, Math.min(1, sample)) * (box.height / 2)
+    if (i === 0) ctx.moveTo(x, y)
+    else ctx.lineTo(x, y)
+  }
+  ctx.stroke()
+}
+
+function drawParticles(ctx: CanvasRenderingContext2D, bands: Float32Array, time: number, box: Box) {
+  const centerX = box.left + box.width / 2
+  const centerY = box.top + box.height / 2
+  const reach = Math.min(box.width, box.height) / 2
+  const baseAlpha = ctx.globalAlpha
+  const bass = bands.slice(0, Math.max(1, Math.floor(bands.length / 6))).reduce((sum, v) => sum + v, 0) /
+    Math.max(1, Math.floor(bands.length / 6))
+
+  for (let i = 0; i < PARTICLE_COUNT; i++) {
+    const angle = hash(i) * Math.PI * 2
+    const speed = 0.3 + hash(i + 1000) * 0.7
+    // Each particle loops outwards on its own phase; louder bass throws it further
+    const phase = (time * speed + hash(i + 2000)) % 1
+    const distance = phase * reach * (0.35 + bass * 0.9)
+    const level = bands[i % bands.length]
+    const radius = Math.max(1, reach * 0.02 * (0.5 + level * 1.5))
+
+    ctx.globalAlpha = baseAlpha * (1 - phase) * (0.3 + level * 0.7)
+    ctx.beginPath()
+    ctx.arc(centerX + Math.cos(angle) * distance, centerY + Math.sin(angle) * distance, radius, 0, Math.PI * 2)
+    ctx.fill()
+  }
+}
+
+// Draws within the current transform and opacity, so transitions apply to it like any other layer
+export function drawVisualizer(ctx: CanvasRenderingContext2D, settings: VisualizerSettings, buffer: AudioBuffer, time: number) {
+  const { width, height } = ctx.canvas
+  const box: Box = {
+    left: (settings.x - settings.width / 2) * width,
+    top: (settings.y - settings.height / 2) * height,
+    width: settings.width * width,
+    height: settings.height * height
+  }
+
+  ctx.save()
+  ctx.fillStyle = settings.color
+  ctx.strokeStyle = settings.color
+
+  switch (settings.style) {
+    case 'bars':
+      drawBars(ctx, getSmoothedBands(buffer, time, BAND_COUNT, settings.smoothing), box, false)
+      break
+    case 'mirrored-bars':
+      drawBars(ctx, getSmoothedBands(buffer, time, BAND_COUNT, settings.smoothing), box, true)
+      break
+    case 'circular':
+      drawCircular(ctx, getSmoothedBands(buffer, time, BAND_COUNT, settings.smoothing), box)
+      break
+    case 'oscilloscope':
+      drawOscilloscope(ctx, buffer, time, box)
+      break
+    case 'particles':
+      drawParticles(ctx, getSmoothedBands(buffer, time, BAND_COUNT, settings.smoothing), time, box)
+      break
+  }
+
+  ctx.restore()
+}
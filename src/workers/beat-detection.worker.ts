@@ -0,0 +1,14 @@
+import { BeatDetectionRequest, BeatDetectionResponse, detectBeats } from '../lib/beat-detection'
+
+function post(message: BeatDetectionResponse) {
+  self.postMessage(message)
+}
+
+self.addEventListener('message', (event: MessageEvent<BeatDetectionRequest>) => {
+  try {
+    post({ type: 'result', analysis: detectBeats(event.data.samples, event.data.sampleRate) })
+  } catch (error) {
+    console.error('Error detecting beats:', error)
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Beat detection failed' })
+  }
+})
@@ -0,0 +1,72 @@
+import { AutomaticSpeechRecognitionPipeline, pipeline } from '@huggingface/transformers'
+import {
+  TranscribedWord,
+  TranscriptionModelId,
+  TranscriptionRequest,
+  TranscriptionResponse
+} from '../lib/transcription'
+
+// Audio is fed in windows the model can see at once, overlapping so words at the seams aren't lost
+const CHUNK_SECONDS = 30
+const STRIDE_SECONDS = 5
+
+let loaded: { model: TranscriptionModelId, transcriber: Promise<AutomaticSpeechRecognitionPipeline> } | null = null
+
+function post(message: TranscriptionResponse) {
+  self.postMessage(message)
+}
+
+function loadModel(model: TranscriptionModelId) {
+  if (loaded?.model === model) return loaded.transcriber
+
+  // The model is split over several files; report progress over all of them together
+  const files = new Map<string, { loaded: number, total: number }>()
+  const transcriber = pipeline('automatic-speech-recognition', model, {
+    progress_callback: (info) => {
+      if (info.status !== 'progress') return
+      files.set(info.file, { loaded: info.loaded, total: info.total })
+      const totals = [...files.values()].reduce(
+        (sum, file) => ({ loaded: sum.loaded + file.loaded, total: sum.total + file.total }),
+        { loaded: 0, total: 0 }
+      )
+      post({ type: 'progress', progress: { stage: 'loading-model', progress: totals.total ? totals.loaded / totals.total : null } })
+    }
+  })
+
+  // Let a failed download be retried on the next request
+  transcriber.catch(() => {
+    loaded = null
+  })
+  loaded = { model, transcriber }
+  return transcriber
+}
+
+async function transcribe({ model, samples }: TranscriptionRequest): Promise<TranscribedWord[]> {
+  const transcriber = await loadModel(model)
+  post({ type: 'progress', progress: { stage: 'transcribing', progress: null } })
+
+  const output = await transcriber(samples, {
+    return_timestamps: 'word',
+    chunk_length_s: CHUNK_SECONDS,
+    stride_length_s: STRIDE_SECONDS
+  })
+  const result = Array.isArray(output) ? output[0] : output
+
+  return (result.chunks ?? [])
+    .map(chunk => ({
+      text: chunk.text.trim(),
+      startTime: chunk.timestamp[0],
+      // The last word of a recording can come back without an end
+      endTime: chunk.timestamp[1] ?? chunk.timestamp[0]
+    }))
+    .filter(word => word.text)
+}
+
+self.addEventListener('message', (event: MessageEvent<TranscriptionRequest>) => {
+  transcribe(event.data)
+    .then(words => post({ type: 'result', words }))
+    .catch((error) => {
+      console.error('Error transcribing audio:', error)
+      post({ type: 'error', message: error instanceof Error ? error.message : 'Transcription failed' })
+    })
+})